@@ -11,6 +11,8 @@ const context = await esbuild.context({
     "electron",
     "child_process",
     "fs",
+    "http",
+    "https",
     "os",
     "path",
     "@codemirror/autocomplete",
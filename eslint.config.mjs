@@ -10,7 +10,7 @@ export default defineConfig([
     files: ["**/*.ts"],
     languageOptions: {
       parser: tsparser,
-      parserOptions: { project: "./tsconfig.json" },
+      parserOptions: { project: ["./tsconfig.json", "./tsconfig.test.json"] },
       globals: {
         console: "readonly",
         document: "readonly",
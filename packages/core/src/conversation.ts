@@ -0,0 +1,161 @@
+import type { AIClient } from "./ai-client";
+import { SUMMARIZE_PROMPT } from "./prompts";
+import { getSummarizeModels, listProviders } from "./providers";
+import {
+  getContextLimit,
+  type AIProvider,
+  type Attachment,
+  type ConversationState,
+  type ModelEntry,
+  type SavedConversation,
+} from "./types";
+
+// ─── Saved conversations ───────────────────────────────────────
+
+/** Only the most recent messages are persisted */
+const MAX_SAVED_MESSAGES = 100;
+
+export function toSavedConversation(conv: ConversationState): SavedConversation {
+  return {
+    id: conv.id,
+    title: conv.title,
+    messages: conv.messages.slice(-MAX_SAVED_MESSAGES),
+    // Already kept inside the context window by compaction
+    history: [...conv.history],
+    mode: conv.mode,
+    model: conv.model,
+    createdAt: conv.createdAt,
+    updatedAt: conv.updatedAt,
+    totalInputTokens: conv.totalInputTokens || 0,
+    totalOutputTokens: conv.totalOutputTokens || 0,
+  };
+}
+
+/** Rebuild a live conversation; saves from before history was kept rebuild it from the messages */
+export function fromSavedConversation(saved: SavedConversation): ConversationState {
+  return {
+    id: saved.id,
+    title: saved.title,
+    messages: [...saved.messages],
+    history: saved.history
+      ? [...saved.history]
+      : saved.messages.map((m) => ({ role: m.role, content: m.content })),
+    mode: saved.mode,
+    model: saved.model,
+    createdAt: saved.createdAt,
+    updatedAt: saved.updatedAt,
+    totalInputTokens: saved.totalInputTokens || 0,
+    totalOutputTokens: saved.totalOutputTokens || 0,
+  };
+}
+
+/**
+ * The user turn as kept in model history once the attachments themselves are
+ * gone: text files inline, images and PDFs as a label.
+ */
+export function withAttachmentContext(text: string, attachments?: Attachment[]): string {
+  if (!attachments || attachments.length === 0) return text;
+  let content = text;
+  const textAtts = attachments.filter((a) => a.type === "text");
+  if (textAtts.length > 0) {
+    content += "\n\n" + textAtts.map((a) => `[File: ${a.name}]\n${a.data}`).join("\n\n");
+  }
+  const nonTextAtts = attachments.filter((a) => a.type !== "text");
+  if (nonTextAtts.length > 0) {
+    content += "\n\n[Attached: " + nonTextAtts.map((a) => a.name).join(", ") + "]";
+  }
+  return content;
+}
+
+// ─── Context management ────────────────────────────────────────
+
+export function estimateHistoryTokens(conversation: ConversationState): number {
+  let total = 500;
+  for (const msg of conversation.history) {
+    total += Math.ceil(msg.content.length / 3);
+  }
+  return total;
+}
+
+/** Drop the oldest exchanges until the history fits in 70% of `limit` */
+export function hardTrimHistory(conversation: ConversationState, limit: number) {
+  const est = (t: string) => Math.ceil(t.length / 3);
+  let total = 500;
+  for (const msg of conversation.history) total += est(msg.content);
+  while (total > limit * 0.7 && conversation.history.length > 2) {
+    const removed = conversation.history.splice(0, 2);
+    for (const msg of removed) total -= est(msg.content);
+  }
+}
+
+/**
+ * Keep a conversation inside its model's context window after a turn:
+ * past 60% of the limit, older turns are summarized; past 85% (or when
+ * summarizing is impossible), the oldest turns are dropped.
+ * `inputTokens` is the last request's reported input size, 0 if unknown.
+ */
+export async function compactConversation(
+  aiClient: AIClient,
+  conversation: ConversationState,
+  provider: AIProvider,
+  inputTokens: number,
+  customModels?: Record<string, ModelEntry[]>,
+): Promise<void> {
+  const limit = getContextLimit(conversation.model, customModels);
+  const currentContext = inputTokens > 0 ? inputTokens : estimateHistoryTokens(conversation);
+
+  if (currentContext > limit * 0.6 && conversation.history.length > 6) {
+    await summarizeHistory(aiClient, conversation, provider, limit);
+  } else if (currentContext > limit * 0.85 && conversation.history.length > 2) {
+    hardTrimHistory(conversation, limit);
+  }
+}
+
+async function summarizeHistory(aiClient: AIClient, conversation: ConversationState, currentProvider: AIProvider, limit: number) {
+  const keepRecent = 4; // keep last 2 exchanges
+  if (conversation.history.length <= keepRecent + 2) return;
+
+  const toSummarize = conversation.history.slice(0, conversation.history.length - keepRecent);
+
+  const target = getSummarizeModel(aiClient, currentProvider);
+  if (!target) {
+    hardTrimHistory(conversation, limit);
+    return;
+  }
+
+  try {
+    const conversationText = toSummarize
+      .map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`)
+      .join("\n\n");
+
+    const summaryResponse = await aiClient.summarize(
+      conversationText, SUMMARIZE_PROMPT, target.provider, target.model,
+    );
+
+    const recent = conversation.history.slice(conversation.history.length - keepRecent);
+    conversation.history = [
+      { role: "assistant", content: `[Context Summary]\n${summaryResponse.text}` },
+      ...recent,
+    ];
+
+    conversation.totalInputTokens = (conversation.totalInputTokens || 0) + summaryResponse.usage.inputTokens;
+    conversation.totalOutputTokens = (conversation.totalOutputTokens || 0) + summaryResponse.usage.outputTokens;
+  } catch (error) {
+    console.warn("Auto-summarize failed, falling back to trim:", error);
+    hardTrimHistory(conversation, limit);
+  }
+}
+
+/** A cheap summarize model — the current provider's first, else any other provider with credentials */
+function getSummarizeModel(aiClient: AIClient, currentProvider: AIProvider): { model: string; provider: AIProvider } | null {
+  if (aiClient.hasCredentials(currentProvider)) {
+    const prefs = getSummarizeModels(currentProvider);
+    if (prefs.length > 0) return { model: prefs[0], provider: currentProvider };
+  }
+  for (const { id } of listProviders()) {
+    if (id === currentProvider || !aiClient.hasCredentials(id)) continue;
+    const prefs = getSummarizeModels(id);
+    if (prefs.length > 0) return { model: prefs[0], provider: id };
+  }
+  return null;
+}
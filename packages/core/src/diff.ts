@@ -0,0 +1,94 @@
+// ─── Line diff ─────────────────────────────────────────────────
+
+export interface DiffLine {
+  type: "context" | "add" | "remove" | "skip";
+  /** Line text; for "skip" rows, empty */
+  text: string;
+  /** For "skip" rows, how many unchanged lines were folded away */
+  count?: number;
+}
+
+/** Above this many LCS cells, fall back to "remove everything, add everything" */
+const MAX_DIFF_CELLS = 4_000_000;
+
+function splitLines(text: string | null): string[] {
+  if (!text) return [];
+  return text.replace(/\n$/, "").split("\n");
+}
+
+/**
+ * Unified line diff of `before` → `after`, with runs of unchanged lines
+ * beyond `context` lines from a change folded into a single "skip" row.
+ * Pass null for a file that does not exist on that side.
+ */
+export function diffLines(before: string | null, after: string | null, context = 3): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // Trim the common prefix and suffix so the LCS table only covers the changed middle
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const lines: DiffLine[] = a.slice(0, start).map((text) => ({ type: "context", text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    lines.push(...midA.map((text): DiffLine => ({ type: "remove", text })));
+    lines.push(...midB.map((text): DiffLine => ({ type: "add", text })));
+  } else {
+    // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+    const lcs: number[][] = Array.from({ length: midA.length + 1 }, () => new Array<number>(midB.length + 1).fill(0));
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+        lines.push({ type: "context", text: midA[i] });
+        i++;
+        j++;
+      } else if (i < midA.length && (j >= midB.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+        lines.push({ type: "remove", text: midA[i++] });
+      } else {
+        lines.push({ type: "add", text: midB[j++] });
+      }
+    }
+  }
+
+  lines.push(...a.slice(endA).map((text): DiffLine => ({ type: "context", text })));
+  return foldContext(lines, context);
+}
+
+function foldContext(lines: DiffLine[], context: number): DiffLine[] {
+  const changed = lines.map((l) => l.type !== "context");
+  const keep = lines.map((_, idx) => {
+    for (let k = Math.max(0, idx - context); k <= Math.min(lines.length - 1, idx + context); k++) {
+      if (changed[k]) return true;
+    }
+    return false;
+  });
+
+  const result: DiffLine[] = [];
+  let skipped = 0;
+  lines.forEach((line, idx) => {
+    if (keep[idx]) {
+      if (skipped > 0) result.push({ type: "skip", text: "", count: skipped });
+      skipped = 0;
+      result.push(line);
+    } else {
+      skipped++;
+    }
+  });
+  if (skipped > 0) result.push({ type: "skip", text: "", count: skipped });
+  return result;
+}
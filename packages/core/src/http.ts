@@ -0,0 +1,79 @@
+// ─── HTTP abstraction (platform-agnostic) ──────────────────────
+
+export interface HttpRequestOptions {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+  throw?: boolean;
+}
+
+export interface HttpResponse {
+  status: number;
+  text: string;
+  /** Parsed body, or null when the body is not JSON */
+  json: unknown;
+  /** Response headers with lower-cased names */
+  headers?: Record<string, string>;
+}
+
+export type HttpClient = (req: HttpRequestOptions) => Promise<HttpResponse>;
+
+export interface HttpStreamRequestOptions extends HttpRequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface HttpStreamResponse {
+  status: number;
+  /** Decoded body chunks, yielded as they arrive off the wire */
+  body: AsyncIterable<string>;
+}
+
+/** Streaming variant of HttpClient — aborting `signal` must cancel the in-flight request */
+export type HttpStreamClient = (req: HttpStreamRequestOptions) => Promise<HttpStreamResponse>;
+
+// ─── Server-sent events ─────────────────────────────────────────
+
+export interface SSEEvent {
+  event: string;
+  data: string;
+}
+
+function parseSSEEvent(raw: string): SSEEvent | null {
+  let event = "message";
+  const data: string[] = [];
+  for (const line of raw.split("\n")) {
+    if (line.startsWith(":")) continue;
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+    if (field === "event") event = value;
+    else if (field === "data") data.push(value);
+  }
+  return data.length > 0 ? { event, data: data.join("\n") } : null;
+}
+
+/** Split a `text/event-stream` body into events, tolerating chunk boundaries anywhere */
+export async function* parseSSE(body: AsyncIterable<string>): AsyncGenerator<SSEEvent> {
+  let buffer = "";
+  for await (const chunk of body) {
+    buffer = (buffer + chunk).replace(/\r\n/g, "\n");
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const event = parseSSEEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (event) yield event;
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+  const last = parseSSEEvent(buffer.trim());
+  if (last) yield last;
+}
+
+/** Drain a streamed body into one string (used for error messages) */
+export async function readAll(body: AsyncIterable<string>): Promise<string> {
+  let text = "";
+  for await (const chunk of body) text += chunk;
+  return text;
+}
@@ -50,11 +50,22 @@ export interface I18n {
   orEnterApiKey: string;
   availableTools: string;
   availableToolsDesc: string;
+  toolPolicyAuto: string;
+  toolPolicyConfirm: string;
+  toolPolicyDeny: string;
 
   // Models
   refreshModels: string;
   modelsUpdated: (n: number) => string;
   noModelsFound: string;
+  customBaseUrl: string;
+  customBaseUrlDesc: string;
+  customApiKey: string;
+  customApiKeyDesc: string;
+  customConnect: string;
+  enterBaseUrlFirst: string;
+  customEndpointFailed: string;
+  contextLimit: string;
 
   // Attachments
   maxAttachments: string;
@@ -109,6 +120,8 @@ export interface I18n {
   toolMoving: (from: string, to: string) => string;
   toolListing: (path: string) => string;
   toolRecentNotes: (days: number | string) => string;
+  toolListingSnapshots: (path: string) => string;
+  toolReadingSnapshot: string;
   toolWebSearch: (query: string) => string;
   toolFetching: (url: string) => string;
   toolAppending: (path: string) => string;
@@ -128,6 +141,7 @@ export interface I18n {
   toolCreatingEvent: (title: string, date: string) => string;
   toolUpdatingEvent: string;
   toolDeletingEvent: string;
+  toolCompletingEvent: (completed: boolean) => string;
   toolUpcoming: (days: number | string) => string;
   toolSavingMemory: string;
   toolRecalling: (query?: string) => string;
@@ -135,8 +149,38 @@ export interface I18n {
   toolSavingRetro: (period: string) => string;
   toolGettingGoals: string;
   toolUpdatingGoal: (title: string) => string;
+  toolSchedulingJob: (id: string) => string;
   toolUsing: (name: string) => string;
   toolDone: Record<string, string>;
+  approvalTitle: (tool: string) => string;
+  approvalApprove: string;
+  approvalReject: string;
+  approvalReasonPlaceholder: string;
+  approvalApproved: string;
+  approvalRejected: string;
+  approvalTimedOut: string;
+  approvalExpired: string;
+  diffNewFile: string;
+  diffDeletedFile: string;
+  diffUnchanged: (count: number) => string;
+  undoChange: string;
+  undoDone: string;
+  undoConflict: (path: string) => string;
+  undoFailed: (error: string) => string;
+  // Native vault sync
+  syncNotConnected: string;
+  syncComparing: string;
+  syncUpToDate: (files: number, transferred: number) => string;
+  syncRetrying: (reason: string) => string;
+  syncServerAnswered: (status: number) => string;
+  syncConnectionClosed: string;
+  syncTokenRefused: string;
+  syncStopped: string;
+  syncConflict: (path: string, copy: string) => string;
+  syncPushFailed: (path: string, status: number) => string;
+  syncDeleteFailed: (path: string, status: number) => string;
+  syncPullFailed: (path: string, status: number) => string;
+  syncManifestFailed: (status: number) => string;
 }
 
 const en: I18n = {
@@ -186,10 +230,21 @@ const en: I18n = {
   connectedClaudeCode: "Connected to Claude Code!",
   orEnterApiKey: "Or enter API key from console.anthropic.com",
   availableTools: "Available tools",
-  availableToolsDesc: "Tools the AI can use during conversations. Disable tools you don't need.",
+  availableToolsDesc: "Tools the AI can use during conversations. Disable tools you don't need, or choose whether each one runs automatically, asks you first, or is blocked.",
+  toolPolicyAuto: "Run automatically",
+  toolPolicyConfirm: "Ask first",
+  toolPolicyDeny: "Block",
   refreshModels: "Refresh models",
   modelsUpdated: (n) => `Found ${n} models`,
   noModelsFound: "Could not fetch models — check your API key",
+  customBaseUrl: "Base URL",
+  customBaseUrlDesc: "Any OpenAI-compatible endpoint — Ollama (http://localhost:11434/v1), LM Studio (http://localhost:1234/v1), vLLM, OpenRouter",
+  customApiKey: "API key",
+  customApiKeyDesc: "Optional — local servers usually need none",
+  customConnect: "Connect",
+  enterBaseUrlFirst: "Enter the base URL first",
+  customEndpointFailed: "No models found at this endpoint — check the URL and that the server is running",
+  contextLimit: "Context tokens",
   maxAttachments: "Maximum 4 attachments per message",
   unsupportedFile: (ext) => `Unsupported file type: .${ext}`,
   attachFile: "Attach file",
@@ -237,6 +292,8 @@ const en: I18n = {
   toolMoving: (f, t) => `Moving ${f} → ${t}`,
   toolListing: (p) => `Listing ${p}`,
   toolRecentNotes: (d) => `Getting notes from last ${d} days`,
+  toolListingSnapshots: (p) => `Listing snapshots of ${p}`,
+  toolReadingSnapshot: "Reading snapshot",
   toolWebSearch: (q) => `Searching web for "${q}"`,
   toolFetching: (u) => `Fetching ${u}`,
   toolAppending: (p) => `Appending to ${p}`,
@@ -256,6 +313,7 @@ const en: I18n = {
   toolCreatingEvent: (t, d) => `Creating event "${t}" on ${d}`,
   toolUpdatingEvent: "Updating event",
   toolDeletingEvent: "Deleting event",
+  toolCompletingEvent: (c) => c ? "Marking event done" : "Re-opening event",
   toolUpcoming: (d) => `Getting upcoming events (${d} days)`,
   toolSavingMemory: "Saving memory",
   toolRecalling: (q) => q ? `Recalling memories about "${q}"` : "Recalling recent memories",
@@ -263,6 +321,7 @@ const en: I18n = {
   toolSavingRetro: (p) => `Saving ${p} retrospective`,
   toolGettingGoals: "Reading goals",
   toolUpdatingGoal: (t) => `Updating goal: ${t}`,
+  toolSchedulingJob: (id) => `Scheduling job: ${id}`,
   toolUsing: (n) => `Using ${n}`,
   toolDone: {
     search_vault: "Searched vault",
@@ -271,6 +330,8 @@ const en: I18n = {
     move_note: "Moved note",
     list_folder: "Listed folder",
     get_recent_notes: "Got recent notes",
+    get_snapshots: "Listed snapshots",
+    read_snapshot: "Read snapshot",
     web_search: "Web search done",
     web_fetch: "Fetched page",
     append_note: "Appended to note",
@@ -290,6 +351,7 @@ const en: I18n = {
     create_event: "Created event",
     update_event: "Updated event",
     delete_event: "Deleted event",
+    complete_event: "Updated event status",
     get_upcoming_events: "Got upcoming events",
     save_memory: "Saved memory",
     recall_memory: "Recalled memories",
@@ -298,6 +360,35 @@ const en: I18n = {
     get_goals: "Read goals",
     update_goal: "Updated goal",
   },
+  approvalTitle: (tool) => `Allow ${tool}?`,
+  approvalApprove: "Approve",
+  approvalReject: "Reject",
+  approvalReasonPlaceholder: "Tell the AI why (optional)",
+  approvalApproved: "Approved",
+  approvalRejected: "Rejected",
+  approvalTimedOut: "No answer in time — rejected",
+  approvalExpired: "This request is no longer pending",
+  diffNewFile: "New file",
+  diffDeletedFile: "Deleted file",
+  diffUnchanged: (n) => `${n} unchanged line${n > 1 ? "s" : ""}`,
+  undoChange: "Undo",
+  undoDone: "Undone",
+  undoConflict: (path) => `Can't undo: ${path} was changed again since`,
+  undoFailed: (error) => `Undo failed: ${error}`,
+  syncNotConnected: "Not connected",
+  syncComparing: "Comparing with the server...",
+  syncUpToDate: (files, transferred) =>
+    `Up to date · ${files} files${transferred ? ` · ${transferred} synced just now` : ""}`,
+  syncRetrying: (reason) => `${reason} — retrying`,
+  syncServerAnswered: (status) => `Server answered ${status}`,
+  syncConnectionClosed: "Connection closed",
+  syncTokenRefused: "The server refused the token — reconnect in settings",
+  syncStopped: "Vault sync stopped: the server no longer accepts your login. Reconnect to the server in the sync settings.",
+  syncConflict: (path, copy) => `${path} was also changed elsewhere. Your version was saved as ${copy}.`,
+  syncPushFailed: (path, status) => `Push of ${path} failed (${status})`,
+  syncDeleteFailed: (path, status) => `Delete of ${path} failed (${status})`,
+  syncPullFailed: (path, status) => `Pull of ${path} failed (${status})`,
+  syncManifestFailed: (status) => `Could not read the server's file list (${status})`,
 };
 
 const vi: I18n = {
@@ -347,10 +438,21 @@ const vi: I18n = {
   connectedClaudeCode: "Đã kết nối Claude Code!",
   orEnterApiKey: "Hoặc nhập API key từ console.anthropic.com",
   availableTools: "Tools có sẵn",
-  availableToolsDesc: "Các tools AI có thể dùng. Tắt tools không cần thiết.",
+  availableToolsDesc: "Các tools AI có thể dùng. Tắt tools không cần thiết, hoặc chọn tool nào tự chạy, hỏi bạn trước, hay bị chặn.",
+  toolPolicyAuto: "Tự chạy",
+  toolPolicyConfirm: "Hỏi trước",
+  toolPolicyDeny: "Chặn",
   refreshModels: "Làm mới danh sách model",
   modelsUpdated: (n) => `Tìm thấy ${n} model`,
   noModelsFound: "Không thể lấy danh sách model — kiểm tra API key",
+  customBaseUrl: "Base URL",
+  customBaseUrlDesc: "Bất kỳ endpoint tương thích OpenAI — Ollama (http://localhost:11434/v1), LM Studio (http://localhost:1234/v1), vLLM, OpenRouter",
+  customApiKey: "API key",
+  customApiKeyDesc: "Không bắt buộc — server chạy local thường không cần",
+  customConnect: "Kết nối",
+  enterBaseUrlFirst: "Nhập base URL trước",
+  customEndpointFailed: "Không tìm thấy model nào ở endpoint này — kiểm tra URL và server đã chạy chưa",
+  contextLimit: "Số token ngữ cảnh",
   maxAttachments: "Tối đa 4 file đính kèm mỗi tin nhắn",
   unsupportedFile: (ext) => `Loại file không hỗ trợ: .${ext}`,
   attachFile: "Đính kèm file",
@@ -398,6 +500,8 @@ const vi: I18n = {
   toolMoving: (f, t) => `Đang di chuyển ${f} → ${t}`,
   toolListing: (p) => `Đang liệt kê ${p}`,
   toolRecentNotes: (d) => `Đang lấy notes ${d} ngày qua`,
+  toolListingSnapshots: (p) => `Đang liệt kê các bản lưu của ${p}`,
+  toolReadingSnapshot: "Đang đọc bản lưu",
   toolWebSearch: (q) => `Đang tìm trên web "${q}"`,
   toolFetching: (u) => `Đang tải ${u}`,
   toolAppending: (p) => `Đang thêm vào ${p}`,
@@ -417,6 +521,7 @@ const vi: I18n = {
   toolCreatingEvent: (t, d) => `Đang tạo sự kiện "${t}" ngày ${d}`,
   toolUpdatingEvent: "Đang cập nhật sự kiện",
   toolDeletingEvent: "Đang xóa sự kiện",
+  toolCompletingEvent: (c) => c ? "Đang đánh dấu hoàn thành sự kiện" : "Đang mở lại sự kiện",
   toolUpcoming: (d) => `Đang lấy sự kiện sắp tới (${d} ngày)`,
   toolSavingMemory: "Đang lưu memory",
   toolRecalling: (q) => q ? `Đang tìm memory về "${q}"` : "Đang lấy memory gần đây",
@@ -424,6 +529,7 @@ const vi: I18n = {
   toolSavingRetro: (p) => `Đang lưu retro ${p}`,
   toolGettingGoals: "Đang đọc mục tiêu",
   toolUpdatingGoal: (t) => `Đang cập nhật mục tiêu: ${t}`,
+  toolSchedulingJob: (id) => `Đang lên lịch: ${id}`,
   toolUsing: (n) => `Đang dùng ${n}`,
   toolDone: {
     search_vault: "Đã tìm xong",
@@ -432,6 +538,8 @@ const vi: I18n = {
     move_note: "Đã di chuyển note",
     list_folder: "Đã liệt kê",
     get_recent_notes: "Đã lấy notes gần đây",
+    get_snapshots: "Đã liệt kê bản lưu",
+    read_snapshot: "Đã đọc bản lưu",
     web_search: "Đã tìm trên web",
     web_fetch: "Đã tải trang",
     append_note: "Đã thêm vào note",
@@ -451,6 +559,7 @@ const vi: I18n = {
     create_event: "Đã tạo sự kiện",
     update_event: "Đã cập nhật sự kiện",
     delete_event: "Đã xóa sự kiện",
+    complete_event: "Đã cập nhật trạng thái sự kiện",
     get_upcoming_events: "Đã lấy sự kiện sắp tới",
     save_memory: "Đã lưu memory",
     recall_memory: "Đã lấy memory",
@@ -459,6 +568,35 @@ const vi: I18n = {
     get_goals: "Đã đọc mục tiêu",
     update_goal: "Đã cập nhật mục tiêu",
   },
+  approvalTitle: (tool) => `Cho phép ${tool}?`,
+  approvalApprove: "Đồng ý",
+  approvalReject: "Từ chối",
+  approvalReasonPlaceholder: "Nói AI lý do (không bắt buộc)",
+  approvalApproved: "Đã đồng ý",
+  approvalRejected: "Đã từ chối",
+  approvalTimedOut: "Không có phản hồi kịp — đã từ chối",
+  approvalExpired: "Yêu cầu này không còn chờ duyệt",
+  diffNewFile: "File mới",
+  diffDeletedFile: "File bị xóa",
+  diffUnchanged: (n) => `${n} dòng không đổi`,
+  undoChange: "Hoàn tác",
+  undoDone: "Đã hoàn tác",
+  undoConflict: (path) => `Không thể hoàn tác: ${path} đã bị sửa tiếp sau đó`,
+  undoFailed: (error) => `Hoàn tác thất bại: ${error}`,
+  syncNotConnected: "Chưa kết nối",
+  syncComparing: "Đang so sánh với server...",
+  syncUpToDate: (files, transferred) =>
+    `Đã đồng bộ · ${files} file${transferred ? ` · vừa đồng bộ ${transferred} file` : ""}`,
+  syncRetrying: (reason) => `${reason} — đang thử lại`,
+  syncServerAnswered: (status) => `Server trả về ${status}`,
+  syncConnectionClosed: "Mất kết nối",
+  syncTokenRefused: "Server từ chối token — hãy kết nối lại trong cài đặt",
+  syncStopped: "Đã dừng đồng bộ vault: server không còn chấp nhận đăng nhập của bạn. Hãy kết nối lại server trong cài đặt đồng bộ.",
+  syncConflict: (path, copy) => `${path} cũng bị sửa ở nơi khác. Bản của bạn đã được lưu thành ${copy}.`,
+  syncPushFailed: (path, status) => `Gửi ${path} thất bại (${status})`,
+  syncDeleteFailed: (path, status) => `Xóa ${path} thất bại (${status})`,
+  syncPullFailed: (path, status) => `Tải ${path} thất bại (${status})`,
+  syncManifestFailed: (status) => `Không đọc được danh sách file của server (${status})`,
 };
 
 const STRINGS: Record<Language, I18n> = { en, vi };
@@ -1,5 +1,10 @@
 export * from "./types";
 export * from "./i18n";
-export * from "./tool-definitions";
+export * from "./tools";
 export * from "./prompts";
+export * from "./http";
+export * from "./diff";
+export * from "./providers";
 export * from "./ai-client";
+export * from "./conversation";
+export * from "./vault";
@@ -1,3 +1,4 @@
+import type { Language } from "./i18n";
 import type { ChatMode } from "./types";
 
 export function buildSystemPrompt(
@@ -169,3 +170,34 @@ Rules:
 - Format as a concise bullet-point list grouped by topic
 - Do NOT add commentary — just summarize what was discussed
 - Include pending requests and user preferences`;
+
+const CHECK_IN_INSTRUCTIONS = {
+  morning: `You are Life Companion AI writing the user's morning briefing, sent to them on Telegram.
+
+From the context below, write a short, warm message that helps them start the day:
+- Open with a one-line greeting that fits their profile and today's date
+- The events and tasks that matter today, with times; mention tomorrow only if it needs preparation
+- At most one nudge toward a goal, or a carry-over from yesterday's retro when there is one
+- Skip any section with nothing in it — never list "no events" or "no tasks"`,
+  evening: `You are Life Companion AI writing the user's evening recap, sent to them on Telegram.
+
+From the context below, write a short, kind message to close the day:
+- What they got done today (completed tasks and events) — be specific
+- What is still open, without judgment, and one suggestion for tomorrow
+- If something connects to a goal, say so in one line
+- Skip any section with nothing in it`,
+};
+
+/**
+ * System prompt for the scheduled morning briefing / evening recap. The
+ * context (profile, events, tasks, goals, retro) goes in the user message.
+ */
+export function buildCheckInPrompt(kind: "morning" | "evening", language: Language): string {
+  return `${CHECK_IN_INSTRUCTIONS[kind]}
+
+Rules:
+- Write in ${language === "vi" ? "Vietnamese" : "English"}
+- Under 150 words; Markdown bold and bullet lists are fine, no headings or tables
+- Use only facts from the context — never invent events, tasks or progress
+- Respect the user's preferences (tone, how they like to be addressed)`;
+}
@@ -0,0 +1,320 @@
+import type { AIModel, AIResponse, Attachment, ChatMode, ModelEntry, TokenUsage } from "../types";
+import { parseSSE, readAll, type HttpClient } from "../http";
+import type { AuthConfig, ProviderAdapter, ProviderContext, SendMessageOptions } from "./types";
+
+// ─── Claude API types ──────────────────────────────────────────
+
+interface ClaudeContentBlock {
+  type: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  thinking?: string;
+  signature?: string;
+}
+
+interface ClaudeUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_input_tokens?: number;
+  cache_creation_input_tokens?: number;
+}
+
+interface ClaudeResponse {
+  content: ClaudeContentBlock[];
+  stop_reason: string;
+  usage?: ClaudeUsage;
+}
+
+interface ClaudeStreamEvent {
+  type: string;
+  index?: number;
+  message?: { usage?: ClaudeUsage };
+  content_block?: ClaudeContentBlock;
+  delta?: {
+    type?: string;
+    text?: string;
+    thinking?: string;
+    signature?: string;
+    partial_json?: string;
+    stop_reason?: string;
+  };
+  usage?: { output_tokens?: number };
+  error?: { type: string; message: string };
+}
+
+const MESSAGES_URL = "https://api.anthropic.com/v1/messages";
+
+// ─── Claude (Anthropic) ────────────────────────────────────────
+
+export class ClaudeProvider implements ProviderAdapter {
+  id = "claude";
+  label = "Claude";
+  settingsLabel = "Claude (Anthropic)";
+  apiKeyField = "claudeApiKey";
+  keyPlaceholder = "sk-ant-...";
+  models: ModelEntry[] = [
+    { id: "claude-haiku-4-5", name: "Haiku 4.5 — Fast" },
+    { id: "claude-sonnet-4-5", name: "Sonnet 4.5 — Balanced" },
+    { id: "claude-opus-4-6", name: "Opus 4.6 — Most capable" },
+  ];
+  summarizeModels = ["claude-haiku-4-5", "claude-sonnet-4-5"];
+
+  matchesModel(model: AIModel): boolean {
+    return model.startsWith("claude-");
+  }
+
+  hasCredentials(auth: AuthConfig): boolean {
+    return !!(auth.claudeAccessToken || auth.claudeApiKey);
+  }
+
+  private getHeaders(auth: AuthConfig, mode?: ChatMode): Record<string, string> {
+    const betaParts: string[] = [];
+    if (auth.claudeAccessToken) betaParts.push("oauth-2025-04-20");
+    if (mode === "dive") betaParts.push("interleaved-thinking-2025-05-14");
+
+    const headers: Record<string, string> = {
+      "anthropic-version": "2023-06-01",
+      "content-type": "application/json",
+    };
+    if (auth.claudeAccessToken) {
+      headers["Authorization"] = `Bearer ${auth.claudeAccessToken}`;
+    } else {
+      headers["x-api-key"] = auth.claudeApiKey || "";
+    }
+    if (betaParts.length > 0) headers["anthropic-beta"] = betaParts.join(",");
+    return headers;
+  }
+
+  async sendMessage(ctx: ProviderContext, options: SendMessageOptions): Promise<AIResponse> {
+    const { model, systemPrompt, conversationHistory, onText, onToolUse, onToolResult } = options;
+    const isDive = options.mode === "dive";
+    let auth = ctx.auth;
+
+    const messages: { role: string; content: string | ClaudeContentBlock[] | { type: string; tool_use_id: string; content: string }[] }[] = conversationHistory.map((m) => ({
+      role: m.role,
+      content: m.content,
+    }));
+    const userContent = this.formatUserContent(options.userMessage, options.attachments || []);
+    messages.push({ role: "user", content: userContent });
+
+    const toolDefs = (options.tools || []).map((t, idx, arr) => {
+      const def: Record<string, unknown> = {
+        name: t.name,
+        description: t.description,
+        input_schema: t.input_schema,
+      };
+      // Cache last tool definition (prompt caching breakpoint)
+      if (idx === arr.length - 1) {
+        def.cache_control = { type: "ephemeral" };
+      }
+      return def;
+    });
+
+    let fullResponse = "";
+    const totalUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    let authRetried = false;
+    const signal = options.abortSignal;
+
+    while (true) {
+      if (signal?.aborted) break;
+      const body: Record<string, unknown> = {
+        model,
+        max_tokens: isDive ? 16000 : 4096,
+        system: [{ type: "text", text: systemPrompt, cache_control: { type: "ephemeral" } }],
+        messages,
+        stream: true,
+      };
+      if (toolDefs.length > 0) body.tools = toolDefs;
+
+      // Extended thinking for Deep Dive mode
+      if (isDive) {
+        body.thinking = model.includes("opus")
+          ? { type: "adaptive" }
+          : { type: "enabled", budget_tokens: 10000 };
+      }
+
+      const response = await ctx.stream({
+        url: MESSAGES_URL,
+        method: "POST",
+        headers: this.getHeaders(auth, options.mode),
+        body: JSON.stringify(body),
+        signal,
+      });
+
+      // Auto-retry on 401: refresh OAuth token and try once more
+      if (response.status === 401 && !authRetried) {
+        await readAll(response.body);
+        const newAuth = await ctx.refreshAuth();
+        if (newAuth) {
+          auth = newAuth;
+          authRetried = true;
+          continue;
+        }
+      }
+
+      if (response.status !== 200) {
+        throw new Error(`${response.status} ${await readAll(response.body)}`);
+      }
+
+      const blocks: ClaudeContentBlock[] = [];
+      const toolInputJson = new Map<number, string>();
+      const toolUseBlocks: ClaudeContentBlock[] = [];
+      let stopReason = "";
+
+      try {
+        for await (const { data: raw } of parseSSE(response.body)) {
+          const event = JSON.parse(raw) as ClaudeStreamEvent;
+          const index = event.index ?? 0;
+
+          switch (event.type) {
+            case "message_start": {
+              // Use `=` for input (last iteration = full context), `+=` for output
+              const usage = event.message?.usage;
+              if (usage) {
+                totalUsage.inputTokens = usage.input_tokens || 0;
+                totalUsage.cacheCreationInputTokens = usage.cache_creation_input_tokens || 0;
+                totalUsage.cacheReadInputTokens = usage.cache_read_input_tokens || 0;
+              }
+              break;
+            }
+            case "content_block_start":
+              if (event.content_block) blocks[index] = { ...event.content_block };
+              if (event.content_block?.type === "tool_use") toolInputJson.set(index, "");
+              break;
+            case "content_block_delta": {
+              const block = blocks[index];
+              const delta = event.delta;
+              if (!block || !delta) break;
+              if (delta.type === "text_delta" && delta.text) {
+                block.text = (block.text || "") + delta.text;
+                fullResponse += delta.text;
+                onText(delta.text);
+              } else if (delta.type === "thinking_delta" && delta.thinking) {
+                // Extended thinking — show in UI but don't include in response text
+                block.thinking = (block.thinking || "") + delta.thinking;
+                options.onThinking?.(delta.thinking);
+              } else if (delta.type === "signature_delta" && delta.signature) {
+                block.signature = (block.signature || "") + delta.signature;
+              } else if (delta.type === "input_json_delta" && delta.partial_json) {
+                toolInputJson.set(index, (toolInputJson.get(index) || "") + delta.partial_json);
+              }
+              break;
+            }
+            case "content_block_stop": {
+              const block = blocks[index];
+              if (block?.type === "tool_use") {
+                const json = toolInputJson.get(index);
+                block.input = json ? JSON.parse(json) as Record<string, unknown> : {};
+                toolUseBlocks.push(block);
+                onToolUse(block.name!, block.input);
+              }
+              break;
+            }
+            case "message_delta":
+              if (event.delta?.stop_reason) stopReason = event.delta.stop_reason;
+              if (event.usage) totalUsage.outputTokens += event.usage.output_tokens || 0;
+              break;
+            case "error":
+              throw new Error(`${event.error?.type ?? "error"} ${event.error?.message ?? raw}`);
+          }
+        }
+      } catch (e) {
+        if (signal?.aborted) break;
+        throw e;
+      }
+
+      // Preserve ALL blocks (including thinking) — required by API for tool continuations
+      messages.push({ role: "assistant", content: blocks.filter(Boolean) });
+
+      if (stopReason === "end_turn" || toolUseBlocks.length === 0) break;
+      if (signal?.aborted) break;
+
+      const toolResults: { type: string; tool_use_id: string; content: string }[] = [];
+      for (const toolUse of toolUseBlocks) {
+        if (signal?.aborted) break;
+        const result = await options.toolExecutor(toolUse.name!, toolUse.input as Record<string, unknown>);
+        onToolResult(toolUse.name!, result);
+        toolResults.push({ type: "tool_result", tool_use_id: toolUse.id!, content: result });
+      }
+      if (signal?.aborted) break;
+      messages.push({ role: "user", content: toolResults });
+    }
+
+    return { text: fullResponse, usage: totalUsage };
+  }
+
+  async summarize(ctx: ProviderContext, text: string, systemPrompt: string, model: AIModel): Promise<AIResponse> {
+    const request = (auth: AuthConfig) => ctx.http({
+      url: MESSAGES_URL,
+      method: "POST",
+      headers: this.getHeaders(auth),
+      body: JSON.stringify({ model, max_tokens: 2048, system: systemPrompt, messages: [{ role: "user", content: text }] }),
+      throw: false,
+    });
+
+    let res = await request(ctx.auth);
+    if (res.status === 401) {
+      const newAuth = await ctx.refreshAuth();
+      if (newAuth) res = await request(newAuth);
+    }
+    if (res.status !== 200) throw new Error(`Summarize failed: ${res.status}`);
+    const d = res.json as ClaudeResponse;
+    return {
+      text: d.content?.map((b: ClaudeContentBlock) => b.text || "").join("") || "",
+      usage: { inputTokens: d.usage?.input_tokens || 0, outputTokens: d.usage?.output_tokens || 0 },
+    };
+  }
+
+  async verifyApiKey(http: HttpClient, key: string): Promise<boolean> {
+    const response = await http({
+      url: MESSAGES_URL,
+      method: "POST",
+      headers: {
+        "x-api-key": key,
+        "anthropic-version": "2023-06-01",
+        "content-type": "application/json",
+      },
+      body: JSON.stringify({
+        model: "claude-haiku-4-5",
+        max_tokens: 1,
+        messages: [{ role: "user", content: "hi" }],
+      }),
+      throw: false,
+    });
+    return response.status !== 401 && response.status !== 403;
+  }
+
+  async listModels(http: HttpClient, auth: AuthConfig): Promise<ModelEntry[]> {
+    const headers: Record<string, string> = { "anthropic-version": "2023-06-01" };
+    if (auth.claudeApiKey) {
+      headers["x-api-key"] = auth.claudeApiKey;
+    } else if (auth.claudeAccessToken) {
+      headers["Authorization"] = `Bearer ${auth.claudeAccessToken}`;
+    }
+    const res = await http({ url: "https://api.anthropic.com/v1/models?limit=100", method: "GET", headers, throw: false });
+    if (res.status !== 200) return [];
+    const data = (res.json as { data?: { id: string; display_name?: string }[] }).data || [];
+    return data
+      .filter((m) => !m.id.match(/-\d{8}$/))
+      .map((m) => ({ id: m.id, name: m.display_name || m.id }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private formatUserContent(text: string, attachments: Attachment[]): string | ClaudeContentBlock[] {
+    if (attachments.length === 0) return text;
+    const blocks: ClaudeContentBlock[] = [];
+    for (const att of attachments) {
+      if (att.type === "text") {
+        blocks.push({ type: "text", text: `[File: ${att.name}]\n${att.data}` });
+      } else if (att.type === "image") {
+        blocks.push({ type: "image", source: { type: "base64", media_type: att.mimeType, data: att.data } } as unknown as ClaudeContentBlock);
+      } else if (att.type === "pdf") {
+        blocks.push({ type: "document", source: { type: "base64", media_type: "application/pdf", data: att.data } } as unknown as ClaudeContentBlock);
+      }
+    }
+    blocks.push({ type: "text", text });
+    return blocks;
+  }
+}
@@ -0,0 +1,36 @@
+import type { AIModel, ModelEntry } from "../types";
+import type { AuthConfig } from "./types";
+import { OpenAICompatibleProvider } from "./openai-compatible";
+
+/** "http://localhost:11434/" → "http://localhost:11434/v1"; URLs that already end in a version are kept */
+function normalizeBaseUrl(url: string): string {
+  const trimmed = url.trim().replace(/\/+$/, "");
+  return /\/v\d+(beta|alpha)?$/.test(trimmed) ? trimmed : `${trimmed}/v1`;
+}
+
+/** Any user-hosted OpenAI-compatible endpoint: Ollama, LM Studio, vLLM, OpenRouter… */
+export class CustomProvider extends OpenAICompatibleProvider {
+  id = "custom";
+  label = "Custom";
+  settingsLabel = "Custom (OpenAI-compatible)";
+  apiKeyField = "customApiKey";
+  baseUrlField = "customBaseUrl";
+  keyPlaceholder = "Optional";
+  // No built-in models — the list always comes from the endpoint's /models
+  models: ModelEntry[] = [];
+  summarizeModels: string[] = [];
+
+  protected getBaseUrl(auth: AuthConfig): string {
+    return normalizeBaseUrl(auth.customBaseUrl || "");
+  }
+
+  // The API key is optional — a configured base URL is enough
+  hasCredentials(auth: AuthConfig): boolean {
+    return !!auth.customBaseUrl;
+  }
+
+  // Ollama tags ("llama3.1:8b") and OpenRouter ids ("meta-llama/llama-3.1-8b") never collide with built-in prefixes
+  matchesModel(model: AIModel): boolean {
+    return model.includes(":") || model.includes("/");
+  }
+}
@@ -0,0 +1,207 @@
+import type { AIModel, AIResponse, Attachment, ModelEntry, TokenUsage } from "../types";
+import { parseSSE, readAll, type HttpClient } from "../http";
+import type { AuthConfig, ProviderAdapter, ProviderContext, SendMessageOptions } from "./types";
+
+// ─── Gemini API types ──────────────────────────────────────────
+
+interface GeminiPart {
+  text?: string;
+  thought?: boolean;
+  functionCall?: { name: string; args: Record<string, unknown> };
+  functionResponse?: { name: string; response: { result: string } };
+  inlineData?: { mimeType: string; data: string };
+}
+
+interface GeminiResponse {
+  candidates?: { content?: { parts?: GeminiPart[] }; finishReason?: string }[];
+  usageMetadata?: { promptTokenCount: number; candidatesTokenCount: number };
+}
+
+interface GeminiModelInfo {
+  name: string;
+  displayName?: string;
+  supportedGenerationMethods?: string[];
+}
+
+const API_BASE = "https://generativelanguage.googleapis.com/v1beta";
+
+// ─── Gemini (Google) ───────────────────────────────────────────
+
+export class GeminiProvider implements ProviderAdapter {
+  id = "gemini";
+  label = "Gemini";
+  settingsLabel = "Gemini (Google)";
+  apiKeyField = "geminiApiKey";
+  keyPlaceholder = "AIza...";
+  models: ModelEntry[] = [
+    { id: "gemini-2.5-flash", name: "2.5 Flash — Fast & cheap" },
+    { id: "gemini-2.5-pro", name: "2.5 Pro — Capable" },
+    { id: "gemini-3-flash-preview", name: "3 Flash — Latest fast" },
+    { id: "gemini-3-pro-preview", name: "3 Pro — Latest flagship" },
+  ];
+  summarizeModels = ["gemini-2.5-flash", "gemini-3-flash-preview"];
+
+  matchesModel(model: AIModel): boolean {
+    return model.startsWith("gemini-");
+  }
+
+  hasCredentials(auth: AuthConfig): boolean {
+    return !!auth.geminiApiKey;
+  }
+
+  async sendMessage(ctx: ProviderContext, options: SendMessageOptions): Promise<AIResponse> {
+    const { model, systemPrompt, conversationHistory, onText, onToolUse, onToolResult } = options;
+    const signal = options.abortSignal;
+
+    const contents: { role: string; parts: GeminiPart[] }[] = conversationHistory.map((m) => ({
+      role: m.role === "assistant" ? "model" : "user",
+      parts: [{ text: m.content }],
+    }));
+    const userParts = this.formatUserParts(options.userMessage, options.attachments || []);
+    contents.push({ role: "user", parts: userParts });
+
+    const toolDefs = options.tools || [];
+
+    let fullResponse = "";
+    const totalUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    const apiKey = ctx.auth.geminiApiKey || "";
+
+    while (true) {
+      if (signal?.aborted) break;
+
+      const body: Record<string, unknown> = {
+        contents,
+        systemInstruction: { parts: [{ text: systemPrompt }] },
+      };
+      if (toolDefs.length > 0) {
+        body.tools = [{
+          functionDeclarations: toolDefs.map((t) => ({
+            name: t.name,
+            description: t.description,
+            parameters: t.input_schema,
+          })),
+        }];
+      }
+
+      const response = await ctx.stream({
+        url: `${API_BASE}/models/${model}:streamGenerateContent?alt=sse&key=${apiKey}`,
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal,
+      });
+
+      if (response.status !== 200) {
+        throw new Error(`${response.status} ${await readAll(response.body)}`);
+      }
+
+      const modelParts: GeminiPart[] = [];
+      const functionCalls: { name: string; args: Record<string, unknown> }[] = [];
+      let gotCandidate = false;
+      let turnOutputTokens = 0;
+
+      try {
+        for await (const { data: raw } of parseSSE(response.body)) {
+          const data = JSON.parse(raw) as GeminiResponse;
+
+          // Each chunk carries the running totals for this turn
+          if (data.usageMetadata) {
+            totalUsage.inputTokens = data.usageMetadata.promptTokenCount || 0;
+            turnOutputTokens = data.usageMetadata.candidatesTokenCount || 0;
+          }
+
+          const candidate = data.candidates?.[0];
+          if (!candidate) continue;
+          gotCandidate = true;
+
+          for (const part of candidate.content?.parts || []) {
+            modelParts.push(part);
+            if (part.text && part.thought) {
+              options.onThinking?.(part.text);
+            } else if (part.text) {
+              fullResponse += part.text;
+              onText(part.text);
+            } else if (part.functionCall) {
+              functionCalls.push(part.functionCall);
+              onToolUse(part.functionCall.name, part.functionCall.args || {});
+            }
+          }
+        }
+      } catch (e) {
+        if (signal?.aborted) break;
+        throw e;
+      } finally {
+        totalUsage.outputTokens += turnOutputTokens;
+      }
+
+      if (!gotCandidate) throw new Error("No response from Gemini");
+      contents.push({ role: "model", parts: modelParts });
+
+      if (functionCalls.length === 0) break;
+      if (signal?.aborted) break;
+
+      const functionResponses: GeminiPart[] = [];
+      for (const fc of functionCalls) {
+        if (signal?.aborted) break;
+        const result = await options.toolExecutor(fc.name, fc.args || {});
+        onToolResult(fc.name, result);
+        functionResponses.push({
+          functionResponse: { name: fc.name, response: { result } },
+        });
+      }
+      if (signal?.aborted) break;
+      contents.push({ role: "user", parts: functionResponses });
+    }
+
+    return { text: fullResponse, usage: totalUsage };
+  }
+
+  async summarize(ctx: ProviderContext, text: string, systemPrompt: string, model: AIModel): Promise<AIResponse> {
+    const res = await ctx.http({
+      url: `${API_BASE}/models/${model}:generateContent?key=${ctx.auth.geminiApiKey || ""}`,
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        contents: [{ role: "user", parts: [{ text }] }],
+        systemInstruction: { parts: [{ text: systemPrompt }] },
+      }),
+      throw: false,
+    });
+    if (res.status !== 200) throw new Error(`Summarize failed: ${res.status}`);
+    const d = res.json as GeminiResponse;
+    return {
+      text: d.candidates?.[0]?.content?.parts?.map((p: GeminiPart) => p.text || "").join("") || "",
+      usage: { inputTokens: d.usageMetadata?.promptTokenCount || 0, outputTokens: d.usageMetadata?.candidatesTokenCount || 0 },
+    };
+  }
+
+  async verifyApiKey(http: HttpClient, key: string): Promise<boolean> {
+    const res = await http({ url: `${API_BASE}/models?key=${key}`, method: "GET", headers: {}, throw: false });
+    return res.status === 200;
+  }
+
+  async listModels(http: HttpClient, auth: AuthConfig): Promise<ModelEntry[]> {
+    const res = await http({ url: `${API_BASE}/models?key=${auth.geminiApiKey || ""}`, method: "GET", headers: {}, throw: false });
+    if (res.status !== 200) return [];
+    const models = (res.json as { models?: GeminiModelInfo[] }).models || [];
+    return models
+      .filter((m) => m.supportedGenerationMethods?.includes("generateContent"))
+      .filter((m) => m.name.includes("gemini"))
+      .map((m) => ({ id: m.name.replace("models/", ""), name: m.displayName || m.name }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private formatUserParts(text: string, attachments: Attachment[]): GeminiPart[] {
+    if (attachments.length === 0) return [{ text }];
+    const parts: GeminiPart[] = [];
+    for (const att of attachments) {
+      if (att.type === "text") {
+        parts.push({ text: `[File: ${att.name}]\n${att.data}` });
+      } else {
+        parts.push({ inlineData: { mimeType: att.mimeType, data: att.data } });
+      }
+    }
+    parts.push({ text });
+    return parts;
+  }
+}
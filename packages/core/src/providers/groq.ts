@@ -0,0 +1,23 @@
+import type { AIModel, ModelEntry } from "../types";
+import { OpenAICompatibleProvider } from "./openai-compatible";
+
+export class GroqProvider extends OpenAICompatibleProvider {
+  id = "groq";
+  label = "Groq";
+  settingsLabel = "Groq";
+  apiKeyField = "groqApiKey";
+  keyPlaceholder = "gsk_...";
+  models: ModelEntry[] = [
+    { id: "llama-3.3-70b-versatile", name: "Llama 3.3 70B — Balanced" },
+    { id: "llama-3.1-8b-instant", name: "Llama 3.1 8B — Fastest" },
+  ];
+  summarizeModels = ["llama-3.1-8b-instant", "llama-3.3-70b-versatile"];
+
+  protected getBaseUrl(): string {
+    return "https://api.groq.com/openai/v1";
+  }
+
+  matchesModel(model: AIModel): boolean {
+    return model.startsWith("llama-") || model.startsWith("mixtral-");
+  }
+}
@@ -0,0 +1,22 @@
+import { registerProvider } from "./registry";
+import { ClaudeProvider } from "./claude";
+import { OpenAIProvider } from "./openai";
+import { GeminiProvider } from "./gemini";
+import { GroqProvider } from "./groq";
+import { CustomProvider } from "./custom";
+
+export * from "./types";
+export * from "./registry";
+export { ClaudeProvider } from "./claude";
+export { OpenAICompatibleProvider } from "./openai-compatible";
+export { OpenAIProvider } from "./openai";
+export { GeminiProvider } from "./gemini";
+export { GroqProvider } from "./groq";
+export { CustomProvider } from "./custom";
+
+// Built-in providers — a new provider is one adapter file plus one line here
+registerProvider(new ClaudeProvider());
+registerProvider(new OpenAIProvider());
+registerProvider(new GeminiProvider());
+registerProvider(new GroqProvider());
+registerProvider(new CustomProvider());
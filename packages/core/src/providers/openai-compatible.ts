@@ -0,0 +1,258 @@
+import type { AIModel, AIResponse, Attachment, ModelEntry, TokenUsage } from "../types";
+import { parseSSE, readAll, type HttpClient } from "../http";
+import type { AuthConfig, ProviderAdapter, ProviderContext, SendMessageOptions } from "./types";
+
+// ─── OpenAI chat-completions types ─────────────────────────────
+
+interface OpenAIToolCall {
+  id: string;
+  function: { name: string; arguments: string };
+}
+
+interface OpenAIResponse {
+  choices: { message: { role: string; content: string | null }; finish_reason: string }[];
+  usage?: { prompt_tokens: number; completion_tokens: number };
+}
+
+interface OpenAIStreamChunk {
+  choices?: {
+    delta?: {
+      content?: string | null;
+      reasoning?: string | null;
+      reasoning_content?: string | null;
+      tool_calls?: { index: number; id?: string; function?: { name?: string; arguments?: string } }[];
+    };
+    finish_reason?: string | null;
+  }[];
+  usage?: { prompt_tokens: number; completion_tokens: number } | null;
+  x_groq?: { usage?: { prompt_tokens: number; completion_tokens: number } };
+  error?: { message: string };
+}
+
+interface FetchedModel {
+  id: string;
+  context_window?: number;
+  context_length?: number;
+  max_model_len?: number;
+}
+
+// ─── Shared base for every /chat/completions API ───────────────
+
+export abstract class OpenAICompatibleProvider implements ProviderAdapter {
+  abstract id: string;
+  abstract label: string;
+  abstract settingsLabel: string;
+  abstract apiKeyField: string;
+  abstract keyPlaceholder: string;
+  abstract models: ModelEntry[];
+  abstract summarizeModels: string[];
+
+  /** API root up to and including the version segment, e.g. "https://api.openai.com/v1" */
+  protected abstract getBaseUrl(auth: AuthConfig): string;
+
+  abstract matchesModel(model: AIModel): boolean;
+
+  /** Most compatible servers still expect `max_tokens`; OpenAI overrides this */
+  protected tokenLimitParam = "max_tokens";
+
+  protected getApiKey(auth: AuthConfig): string {
+    return auth[this.apiKeyField] || "";
+  }
+
+  hasCredentials(auth: AuthConfig): boolean {
+    return !!this.getApiKey(auth);
+  }
+
+  protected getHeaders(apiKey: string): Record<string, string> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (apiKey) headers["Authorization"] = `Bearer ${apiKey}`;
+    return headers;
+  }
+
+  async sendMessage(ctx: ProviderContext, options: SendMessageOptions): Promise<AIResponse> {
+    const { model, systemPrompt, conversationHistory, onText, onToolUse, onToolResult } = options;
+    const apiUrl = `${this.getBaseUrl(ctx.auth)}/chat/completions`;
+    const apiKey = this.getApiKey(ctx.auth);
+
+    const userContent = this.formatUserContent(options.userMessage, options.attachments || []);
+    const messages: Record<string, unknown>[] = [
+      { role: "system", content: systemPrompt },
+      ...conversationHistory.map((m) => ({ role: m.role, content: m.content })),
+      { role: "user", content: userContent },
+    ];
+
+    const toolDefs = (options.tools || []).map((t) => ({
+      type: "function" as const,
+      function: {
+        name: t.name,
+        description: t.description,
+        parameters: t.input_schema,
+      },
+    }));
+
+    let fullResponse = "";
+    const totalUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    const signal = options.abortSignal;
+
+    while (true) {
+      if (signal?.aborted) break;
+      const body: Record<string, unknown> = {
+        model,
+        messages,
+        [this.tokenLimitParam]: 4096,
+        stream: true,
+        stream_options: { include_usage: true },
+      };
+      if (toolDefs.length > 0) body.tools = toolDefs;
+
+      const response = await ctx.stream({
+        url: apiUrl,
+        method: "POST",
+        headers: this.getHeaders(apiKey),
+        body: JSON.stringify(body),
+        signal,
+      });
+
+      if (response.status !== 200) {
+        throw new Error(`${response.status} ${await readAll(response.body)}`);
+      }
+
+      let content = "";
+      let finishReason = "";
+      const toolCalls: OpenAIToolCall[] = [];
+
+      try {
+        for await (const { data: raw } of parseSSE(response.body)) {
+          if (raw === "[DONE]") break;
+          const chunk = JSON.parse(raw) as OpenAIStreamChunk;
+          if (chunk.error) throw new Error(chunk.error.message);
+
+          const usage = chunk.usage ?? chunk.x_groq?.usage;
+          if (usage) {
+            totalUsage.inputTokens = usage.prompt_tokens || 0;
+            totalUsage.outputTokens += usage.completion_tokens || 0;
+          }
+
+          const choice = chunk.choices?.[0];
+          if (!choice) continue;
+          if (choice.finish_reason) finishReason = choice.finish_reason;
+
+          const delta = choice.delta;
+          if (!delta) continue;
+          if (delta.content) {
+            content += delta.content;
+            fullResponse += delta.content;
+            onText(delta.content);
+          }
+          // Reasoning models behind OpenAI-compatible APIs stream their thoughts separately
+          const reasoning = delta.reasoning_content || delta.reasoning;
+          if (reasoning) options.onThinking?.(reasoning);
+
+          for (const tc of delta.tool_calls || []) {
+            if (!toolCalls[tc.index]) toolCalls[tc.index] = { id: "", function: { name: "", arguments: "" } };
+            const call = toolCalls[tc.index];
+            if (tc.id) call.id = tc.id;
+            if (tc.function?.name) call.function.name += tc.function.name;
+            if (tc.function?.arguments) call.function.arguments += tc.function.arguments;
+          }
+        }
+      } catch (e) {
+        if (signal?.aborted) break;
+        throw e;
+      }
+
+      const calls = toolCalls.filter(Boolean);
+      const msg: Record<string, unknown> = { role: "assistant", content: content || null };
+      if (calls.length > 0) {
+        msg.tool_calls = calls.map((c) => ({ id: c.id, type: "function", function: c.function }));
+      }
+      messages.push(msg);
+
+      if (finishReason !== "tool_calls" || calls.length === 0) break;
+
+      for (const toolCall of calls) {
+        if (signal?.aborted) break;
+        const fn = toolCall.function;
+        const args = JSON.parse(fn.arguments || "{}") as Record<string, unknown>;
+        onToolUse(fn.name, args);
+        const result = await options.toolExecutor(fn.name, args);
+        onToolResult(fn.name, result);
+        messages.push({ role: "tool", tool_call_id: toolCall.id, content: result });
+      }
+      if (signal?.aborted) break;
+    }
+
+    return { text: fullResponse, usage: totalUsage };
+  }
+
+  async summarize(ctx: ProviderContext, text: string, systemPrompt: string, model: AIModel): Promise<AIResponse> {
+    const res = await ctx.http({
+      url: `${this.getBaseUrl(ctx.auth)}/chat/completions`,
+      method: "POST",
+      headers: this.getHeaders(this.getApiKey(ctx.auth)),
+      body: JSON.stringify({ model, max_tokens: 2048, messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: text },
+      ]}),
+      throw: false,
+    });
+    if (res.status !== 200) throw new Error(`Summarize failed: ${res.status}`);
+    const d = res.json as OpenAIResponse;
+    return {
+      text: d.choices?.[0]?.message?.content || "",
+      usage: { inputTokens: d.usage?.prompt_tokens || 0, outputTokens: d.usage?.completion_tokens || 0 },
+    };
+  }
+
+  async verifyApiKey(http: HttpClient, key: string): Promise<boolean> {
+    const res = await http({
+      url: `${this.getBaseUrl({ [this.apiKeyField]: key })}/models`,
+      method: "GET",
+      headers: this.getHeaders(key),
+      throw: false,
+    });
+    return res.status === 200;
+  }
+
+  async listModels(http: HttpClient, auth: AuthConfig): Promise<ModelEntry[]> {
+    const res = await http({
+      url: `${this.getBaseUrl(auth)}/models`,
+      method: "GET",
+      headers: this.getHeaders(this.getApiKey(auth)),
+      throw: false,
+    });
+    if (res.status !== 200) return [];
+    const data = (res.json as { data?: FetchedModel[] }).data || [];
+    return data
+      .filter((m) => this.includeFetchedModel(m.id))
+      .map((m) => {
+        const entry: ModelEntry = { id: m.id, name: m.id };
+        // Groq, OpenRouter and vLLM each report the context window under a different name
+        const limit = m.context_window ?? m.context_length ?? m.max_model_len;
+        if (limit) entry.contextLimit = limit;
+        return entry;
+      })
+      .sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  /** Filter for `/models` results — some APIs list embedding/audio models too */
+  protected includeFetchedModel(_id: string): boolean {
+    return true;
+  }
+
+  protected formatUserContent(text: string, attachments: Attachment[]): string | Record<string, unknown>[] {
+    if (attachments.length === 0) return text;
+    const parts: Record<string, unknown>[] = [];
+    for (const att of attachments) {
+      if (att.type === "text") {
+        parts.push({ type: "text", text: `[File: ${att.name}]\n${att.data}` });
+      } else if (att.type === "image") {
+        parts.push({ type: "image_url", image_url: { url: `data:${att.mimeType};base64,${att.data}`, detail: "auto" } });
+      } else if (att.type === "pdf") {
+        parts.push({ type: "text", text: `[Attached PDF: ${att.name} — PDF not directly supported by this model]` });
+      }
+    }
+    parts.push({ type: "text", text });
+    return parts;
+  }
+}
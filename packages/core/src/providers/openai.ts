@@ -0,0 +1,37 @@
+import type { AIModel, ModelEntry } from "../types";
+import { OpenAICompatibleProvider } from "./openai-compatible";
+
+export class OpenAIProvider extends OpenAICompatibleProvider {
+  id = "openai";
+  label = "OpenAI";
+  settingsLabel = "OpenAI";
+  apiKeyField = "openaiApiKey";
+  keyPlaceholder = "sk-...";
+  models: ModelEntry[] = [
+    { id: "gpt-5-nano", name: "GPT-5 Nano — Fastest" },
+    { id: "gpt-5-mini", name: "GPT-5 Mini — Fast" },
+    { id: "gpt-5", name: "GPT-5 — Capable" },
+    { id: "gpt-5.2", name: "GPT-5.2 — Flagship" },
+    { id: "gpt-4.1-nano", name: "GPT-4.1 Nano — Legacy fast" },
+    { id: "gpt-4.1-mini", name: "GPT-4.1 Mini — Legacy" },
+    { id: "gpt-4.1", name: "GPT-4.1 — Legacy" },
+    { id: "o4-mini", name: "o4 Mini — Fast reasoning" },
+    { id: "o3", name: "o3 — Best reasoning" },
+  ];
+  summarizeModels = ["gpt-4.1-nano", "gpt-4.1-mini", "gpt-5-nano"];
+
+  // Newer OpenAI models all use max_completion_tokens
+  protected tokenLimitParam = "max_completion_tokens";
+
+  protected getBaseUrl(): string {
+    return "https://api.openai.com/v1";
+  }
+
+  matchesModel(model: AIModel): boolean {
+    return model.startsWith("gpt-") || model.startsWith("o3") || model.startsWith("o4") || model.startsWith("o1");
+  }
+
+  protected includeFetchedModel(id: string): boolean {
+    return /^(gpt-|o[134]|chatgpt-)/.test(id) && !/(realtime|audio|search|transcrib)/.test(id);
+  }
+}
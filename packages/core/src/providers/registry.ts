@@ -0,0 +1,52 @@
+import type { AIModel, AIProvider, ModelEntry, ModelGroup } from "../types";
+import type { ProviderAdapter } from "./types";
+
+const adapters = new Map<AIProvider, ProviderAdapter>();
+
+/** Register (or replace) a provider — registration order is the order shown in model pickers */
+export function registerProvider(adapter: ProviderAdapter): void {
+  adapters.set(adapter.id, adapter);
+}
+
+export function getProviderAdapter(provider: AIProvider): ProviderAdapter | undefined {
+  return adapters.get(provider);
+}
+
+export function listProviders(): ProviderAdapter[] {
+  return [...adapters.values()];
+}
+
+export function getProvider(model: AIModel): AIProvider {
+  for (const adapter of adapters.values()) {
+    if (adapter.matchesModel(model)) return adapter.id;
+  }
+  return "claude";
+}
+
+/** Resolve a model's provider — fetched/configured model lists first, then id prefixes */
+export function resolveProvider(model: AIModel, customModels?: Record<string, ModelEntry[]>): AIProvider {
+  for (const group of getEffectiveModelGroups(customModels)) {
+    if (group.models.some((m) => m.id === model)) return group.provider;
+  }
+  return getProvider(model);
+}
+
+export function getSummarizeModels(provider: AIProvider): string[] {
+  return adapters.get(provider)?.summarizeModels ?? [];
+}
+
+export function getModelGroups(): ModelGroup[] {
+  return listProviders().map((a) => ({ label: a.label, provider: a.id, models: a.models }));
+}
+
+export function getEffectiveModelGroups(customModels?: Record<string, ModelEntry[]>): ModelGroup[] {
+  const groups = getModelGroups();
+  if (!customModels || Object.keys(customModels).length === 0) return groups;
+  return groups.map(group => {
+    const custom = customModels[group.provider];
+    if (custom && custom.length > 0) {
+      return { ...group, models: custom };
+    }
+    return group;
+  });
+}
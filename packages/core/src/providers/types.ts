@@ -0,0 +1,76 @@
+import type { AIModel, AIProvider, AIResponse, Attachment, ChatMode, ModelEntry, SimpleMessage } from "../types";
+import type { ToolDecision, ToolDefinition, ToolPolicy } from "../tools/types";
+import type { HttpClient, HttpStreamClient } from "../http";
+
+// ─── Send options ──────────────────────────────────────────────
+
+export interface SendMessageOptions {
+  userMessage: string;
+  mode: ChatMode;
+  model: AIModel;
+  provider: AIProvider;
+  systemPrompt: string;
+  conversationHistory: SimpleMessage[];
+  toolExecutor: (name: string, input: Record<string, unknown>) => Promise<string>;
+  tools?: ToolDefinition[];
+  /** Per-tool overrides of the default policy (see getToolPolicy) */
+  toolPolicies?: Record<string, ToolPolicy>;
+  /** Asked before each "confirm" tool call; the tool loop waits for the answer. Omit to run every allowed tool. */
+  approveToolUse?: (toolName: string, input: Record<string, unknown>) => Promise<ToolDecision>;
+  attachments?: Attachment[];
+  abortSignal?: AbortSignal;
+  onText: (text: string) => void;
+  onThinking?: (text: string) => void;
+  onToolUse: (toolName: string, input: Record<string, unknown>) => void;
+  onToolResult: (toolName: string, result: string) => void;
+}
+
+/** Credentials keyed by field name — each adapter reads the field(s) it declares */
+export interface AuthConfig {
+  claudeAccessToken?: string;
+  claudeApiKey?: string;
+  openaiApiKey?: string;
+  geminiApiKey?: string;
+  groqApiKey?: string;
+  customBaseUrl?: string;
+  customApiKey?: string;
+  [field: string]: string | undefined;
+}
+
+// ─── Provider adapter ──────────────────────────────────────────
+
+/** What AIClient hands an adapter for a single call */
+export interface ProviderContext {
+  auth: AuthConfig;
+  http: HttpClient;
+  stream: HttpStreamClient;
+  /** Refresh credentials after a 401 — resolves null when there is nothing newer */
+  refreshAuth: () => Promise<AuthConfig | null>;
+}
+
+export interface ProviderAdapter {
+  id: AIProvider;
+  /** Short label used for model groups, e.g. "Claude" */
+  label: string;
+  /** Longer label for the settings card, e.g. "Claude (Anthropic)" */
+  settingsLabel: string;
+  /** AuthConfig / settings field holding this provider's API key */
+  apiKeyField: string;
+  /** AuthConfig / settings field holding a user-configured API base URL, if the provider has one */
+  baseUrlField?: string;
+  keyPlaceholder: string;
+  /** Built-in model list, replaced by the fetched list once the user refreshes */
+  models: ModelEntry[];
+  /** Cheapest-first models used for context summarization */
+  summarizeModels: string[];
+
+  /** Whether a model id (e.g. a fetched one not in `models`) belongs to this provider */
+  matchesModel(model: AIModel): boolean;
+  hasCredentials(auth: AuthConfig): boolean;
+
+  sendMessage(ctx: ProviderContext, options: SendMessageOptions): Promise<AIResponse>;
+  summarize(ctx: ProviderContext, text: string, systemPrompt: string, model: AIModel): Promise<AIResponse>;
+
+  verifyApiKey(http: HttpClient, key: string): Promise<boolean>;
+  listModels(http: HttpClient, auth: AuthConfig): Promise<ModelEntry[]>;
+}
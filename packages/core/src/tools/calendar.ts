@@ -0,0 +1,190 @@
+import { defineTool } from "./registry";
+import type { CreateEventParams } from "./types";
+import { formatProperties, previewProperties } from "./preview";
+import { asNumber, asString } from "./validate";
+
+export const CALENDAR_TOOL_SPECS = [
+  defineTool<Record<string, never>>({
+    name: "check_calendar_status",
+    category: "calendar",
+    displayName: "Calendar Status",
+    summary: "Check Full Calendar plugin status",
+    writes: false,
+    description:
+      "Check if Full Calendar plugin is installed and configured. Returns status and events directory. " +
+      "Use this FIRST before creating calendar events.",
+    input_schema: {
+      type: "object",
+      properties: {},
+      required: [],
+    },
+    progress: (t) => t.toolCalendarCheck,
+    handler: (ctx) => ctx.calendar.checkCalendarStatus(),
+  }),
+  defineTool<{ date?: string; startDate?: string; endDate?: string }>({
+    name: "get_events",
+    category: "calendar",
+    displayName: "Get Events",
+    summary: "Get calendar events for a date/range",
+    writes: false,
+    description:
+      "Get calendar events for a specific date or date range. Reads Full Calendar event files. Use date for a single day, or startDate+endDate for a range.",
+    input_schema: {
+      type: "object",
+      properties: {
+        date: { type: "string", description: "Single date in YYYY-MM-DD format" },
+        startDate: { type: "string", description: "Range start date in YYYY-MM-DD format" },
+        endDate: { type: "string", description: "Range end date in YYYY-MM-DD format" },
+      },
+      required: [],
+    },
+    progress: (t, input) => {
+      const detail = typeof input.date === "string"
+        ? ` ${input.date}`
+        : typeof input.startDate === "string" ? ` ${input.startDate}–${asString(input.endDate)}` : "";
+      return t.toolGettingEvents(detail);
+    },
+    handler: (ctx, input) => ctx.calendar.getEvents(input.date ?? "", input.startDate ?? "", input.endDate ?? ""),
+  }),
+  defineTool<CreateEventParams>({
+    name: "create_event",
+    category: "calendar",
+    displayName: "Create Event",
+    summary: "Create a calendar event",
+    writes: true,
+    description:
+      "Create a calendar event in the calendar/ directory. This is the ONLY correct way to create events. " +
+      "Do NOT use write_note for events. Events appear in Full Calendar plugin. " +
+      "Supports single and recurring events. IMPORTANT: Always ask user first.",
+    input_schema: {
+      type: "object",
+      properties: {
+        title: { type: "string", description: "Event title" },
+        date: { type: "string", description: "Event date in YYYY-MM-DD format" },
+        startTime: { type: "string", description: "Start time in HH:MM format (omit for all-day)" },
+        endTime: { type: "string", description: "End time in HH:MM format" },
+        allDay: { type: "boolean", description: "All-day event (default: true if no startTime)" },
+        endDate: { type: "string", description: "End date for multi-day events" },
+        type: {
+          type: "string",
+          enum: ["single", "recurring", "rrule"],
+          description: "Event type: single, recurring, or rrule (default: single)",
+        },
+        daysOfWeek: { type: "array", items: { type: "string" }, description: "For recurring: days [U,M,T,W,R,F,S]" },
+        startRecur: { type: "string", description: "Recurring start date" },
+        endRecur: { type: "string", description: "Recurring end date" },
+        rrule: { type: "string", description: "RRULE string for complex recurrence, e.g. 'FREQ=MONTHLY;BYMONTHDAY=15'" },
+        body: { type: "string", description: "Optional markdown body content" },
+      },
+      required: ["title", "date"],
+    },
+    progress: (t, input) => t.toolCreatingEvent(asString(input.title), asString(input.date)),
+    handler: (ctx, input) => ctx.calendar.createEvent(input),
+    preview: async (ctx, input) => {
+      const { body, ...fields } = input;
+      const time = input.startTime ? ` ${input.startTime}${input.endTime ? "–" + input.endTime : ""}` : "";
+      return {
+        path: await ctx.calendar.getEventPath(input.title, input.date),
+        detail: `${input.title} — ${input.date}${time}`,
+        change: { before: null, after: formatProperties(fields) + (body ? `\n\n${body}` : "") },
+      };
+    },
+    touches: async (ctx, input) => [await ctx.calendar.getEventPath(input.title, input.date)],
+  }),
+  defineTool<{ path: string; properties: Record<string, unknown> }>({
+    name: "update_event",
+    category: "calendar",
+    displayName: "Update Event",
+    summary: "Update an event's properties",
+    writes: true,
+    description:
+      "Update an existing calendar event's frontmatter properties. IMPORTANT: Always ask user for confirmation.",
+    input_schema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "File path of the event to update" },
+        properties: { type: "object", description: 'Key-value pairs to set, e.g. {"startTime": "14:00"}' },
+      },
+      required: ["path", "properties"],
+    },
+    progress: (t) => t.toolUpdatingEvent,
+    handler: (ctx, input) => ctx.calendar.updateEvent(input.path, input.properties),
+    preview: (ctx, input) => previewProperties(ctx, input.path, (current) => ({ ...current, ...input.properties })),
+    touches: (_ctx, input) => [input.path],
+  }),
+  defineTool<{ path: string }>({
+    name: "delete_event",
+    category: "calendar",
+    displayName: "Delete Event",
+    summary: "Delete a calendar event",
+    writes: true,
+    description:
+      "Delete a calendar event file (moves to trash). IMPORTANT: Always ask user for confirmation.",
+    input_schema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "File path of the event to delete" },
+      },
+      required: ["path"],
+    },
+    progress: (t) => t.toolDeletingEvent,
+    handler: (ctx, input) => ctx.calendar.deleteEvent(input.path),
+    preview: async (ctx, input) => {
+      const before = await ctx.vault.readFile(input.path);
+      return before === null ? null : { path: input.path, change: { before, after: null } };
+    },
+    touches: (_ctx, input) => [input.path],
+  }),
+  defineTool<{ path: string; completed: boolean; date?: string }>({
+    name: "complete_event",
+    category: "calendar",
+    displayName: "Complete Event",
+    summary: "Mark an event done or re-open it",
+    writes: true,
+    description:
+      "Toggle the completed status of a calendar event. For recurring events, provide the specific date to mark that occurrence only.",
+    input_schema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "File path of the event" },
+        completed: { type: "boolean", description: "true to mark as completed, false to re-open" },
+        date: { type: "string", description: "YYYY-MM-DD date of the specific occurrence (required for recurring events)" },
+      },
+      required: ["path", "completed"],
+    },
+    progress: (t, input) => t.toolCompletingEvent(input.completed !== false),
+    handler: (ctx, input) => ctx.calendar.completeEvent(input.path, input.completed, input.date),
+    // Mirrors the calendar managers: single events carry `completed`, recurring ones a `completedDates` list
+    preview: (ctx, input) => previewProperties(ctx, input.path, (fm) => {
+      if ((typeof fm.type === "string" ? fm.type : "single") === "single") {
+        if (input.completed) fm.completed = true;
+        else delete fm.completed;
+      } else if (input.date) {
+        const dates = (Array.isArray(fm.completedDates) ? fm.completedDates : []).filter((d) => d !== input.date);
+        if (input.completed) dates.push(input.date);
+        if (dates.length > 0) fm.completedDates = dates;
+        else delete fm.completedDates;
+      }
+      return fm;
+    }),
+    touches: (_ctx, input) => [input.path],
+  }),
+  defineTool<{ days?: number }>({
+    name: "get_upcoming_events",
+    category: "calendar",
+    displayName: "Upcoming Events",
+    summary: "Get events for next N days",
+    writes: false,
+    description:
+      "Get calendar events for the next N days. Great for daily briefings and planning. Shows events grouped by date.",
+    input_schema: {
+      type: "object",
+      properties: {
+        days: { type: "number", description: "Number of days to look ahead (default: 7)" },
+      },
+      required: [],
+    },
+    progress: (t, input) => t.toolUpcoming(asNumber(input.days, 7)),
+    handler: (ctx, input) => ctx.calendar.getUpcomingEvents(input.days || 7),
+  }),
+];
@@ -0,0 +1,49 @@
+import { defineTool } from "./registry";
+
+export const DAILY_TOOL_SPECS = [
+  defineTool<{ date?: string }>({
+    name: "get_daily_note",
+    category: "daily",
+    displayName: "Get Daily Note",
+    summary: "Read today's daily note",
+    writes: false,
+    description:
+      "Get the daily note for today or a specific date. Returns content or 'not found'.",
+    input_schema: {
+      type: "object",
+      properties: {
+        date: { type: "string", description: "Date in YYYY-MM-DD format. Omit or empty for today." },
+      },
+      required: [],
+    },
+    progress: (t, input) => t.toolDailyRead(typeof input.date === "string" ? input.date : undefined),
+    handler: (ctx, input) => ctx.vault.getDailyNote(input.date ?? ""),
+  }),
+  defineTool<{ date?: string; content?: string }>({
+    name: "create_daily_note",
+    category: "daily",
+    displayName: "Create Daily Note",
+    summary: "Create a daily note",
+    writes: true,
+    description:
+      "Create a daily note. Path: daily/YYYY-MM-DD.md. " +
+      "Use for daily journal, schedule items without specific time, quick daily logs. " +
+      "Do NOT use for calendar events with specific dates/times — use create_event instead.",
+    input_schema: {
+      type: "object",
+      properties: {
+        date: { type: "string", description: "Date in YYYY-MM-DD format. Omit or empty for today." },
+        content: { type: "string", description: "Initial content. If empty, creates with a date heading." },
+      },
+      required: [],
+    },
+    progress: (t, input) => t.toolDailyCreate(typeof input.date === "string" ? input.date : undefined),
+    handler: (ctx, input) => ctx.vault.createDailyNote(input.date ?? "", input.content ?? ""),
+    preview: async (ctx, input) => {
+      const path = ctx.vault.getDailyNotePath(input.date);
+      if ((await ctx.vault.readFile(path)) !== null) return null;
+      return { path, change: { before: null, after: input.content || ctx.vault.getDailyNoteTemplate(input.date) } };
+    },
+    touches: (ctx, input) => [ctx.vault.getDailyNotePath(input.date)],
+  }),
+];
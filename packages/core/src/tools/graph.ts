@@ -0,0 +1,41 @@
+import { defineTool } from "./registry";
+import { asString } from "./validate";
+
+export const GRAPH_TOOL_SPECS = [
+  defineTool<{ path: string }>({
+    name: "get_backlinks",
+    category: "graph",
+    displayName: "Backlinks",
+    summary: "Get notes linking to a note",
+    writes: false,
+    description:
+      "Get all notes that link TO a given note (incoming links). Useful for understanding note connections.",
+    input_schema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "File path relative to vault root" },
+      },
+      required: ["path"],
+    },
+    progress: (t, input) => t.toolBacklinks(asString(input.path)),
+    handler: (ctx, input) => ctx.vault.getBacklinks(input.path),
+  }),
+  defineTool<{ path: string }>({
+    name: "get_outgoing_links",
+    category: "graph",
+    displayName: "Outgoing Links",
+    summary: "Get links from a note",
+    writes: false,
+    description:
+      "Get all wiki links FROM a given note (outgoing links) and whether the targets exist.",
+    input_schema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "File path relative to vault root" },
+      },
+      required: ["path"],
+    },
+    progress: (t, input) => t.toolOutgoing(asString(input.path)),
+    handler: (ctx, input) => ctx.vault.getOutgoingLinks(input.path),
+  }),
+];
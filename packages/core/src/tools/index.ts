@@ -0,0 +1,38 @@
+import { CALENDAR_TOOL_SPECS } from "./calendar";
+import { DAILY_TOOL_SPECS } from "./daily";
+import { GRAPH_TOOL_SPECS } from "./graph";
+import { KNOWLEDGE_TOOL_SPECS } from "./knowledge";
+import { MEMORY_TOOL_SPECS } from "./memory";
+import { getToolDefinitions, registerTool } from "./registry";
+import { TASK_TOOL_SPECS } from "./task";
+import { VAULT_TOOL_SPECS } from "./vault";
+import { WEB_TOOL_SPECS } from "./web";
+
+export * from "./types";
+export * from "./validate";
+export * from "./registry";
+
+// Built-in tools, in settings display order — a new tool is one defineTool()
+// entry in its category file; the settings UI, chat labels and executors pick it up
+for (const spec of [
+  ...VAULT_TOOL_SPECS,
+  ...WEB_TOOL_SPECS,
+  ...KNOWLEDGE_TOOL_SPECS,
+  ...GRAPH_TOOL_SPECS,
+  ...TASK_TOOL_SPECS,
+  ...DAILY_TOOL_SPECS,
+  ...CALENDAR_TOOL_SPECS,
+  ...MEMORY_TOOL_SPECS,
+]) {
+  registerTool(spec);
+}
+
+// Model-facing schemas per category, for callers that pick tool subsets per message
+export const VAULT_TOOLS = getToolDefinitions("vault");
+export const WEB_TOOLS = getToolDefinitions("web");
+export const KNOWLEDGE_TOOLS = getToolDefinitions("knowledge");
+export const GRAPH_TOOLS = getToolDefinitions("graph");
+export const TASK_TOOLS = getToolDefinitions("task");
+export const DAILY_TOOLS = getToolDefinitions("daily");
+export const CALENDAR_TOOLS = getToolDefinitions("calendar");
+export const MEMORY_TOOLS = getToolDefinitions("memory");
@@ -0,0 +1,123 @@
+import { defineTool } from "./registry";
+import { previewEdit, previewProperties } from "./preview";
+import { asString } from "./validate";
+
+export const KNOWLEDGE_TOOL_SPECS = [
+  defineTool<{ path: string; content: string }>({
+    name: "append_note",
+    category: "knowledge",
+    displayName: "Append Note",
+    summary: "Append content to a note",
+    writes: true,
+    description:
+      "Append content to an EXISTING note. WILL FAIL if file doesn't exist — use write_note to create new files. " +
+      "Use for adding updates to existing notes (project updates, new entries). " +
+      "search_vault first to confirm file exists. IMPORTANT: Always ask user first.",
+    input_schema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "File path relative to vault root" },
+        content: { type: "string", description: "Markdown content to append at the end" },
+      },
+      required: ["path", "content"],
+    },
+    progress: (t, input) => t.toolAppending(asString(input.path)),
+    handler: (ctx, input) => ctx.vault.appendNote(input.path, input.content),
+    preview: (ctx, input) => previewEdit(ctx, input.path, (before) => before + "\n" + input.content),
+    touches: (_ctx, input) => [input.path],
+  }),
+  defineTool<{ path: string }>({
+    name: "read_properties",
+    category: "knowledge",
+    displayName: "Read Properties",
+    summary: "Read frontmatter properties",
+    writes: false,
+    description:
+      "Read YAML frontmatter properties of a note. Returns all key-value pairs from the --- block.",
+    input_schema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "File path relative to vault root" },
+      },
+      required: ["path"],
+    },
+    progress: (t, input) => t.toolReadingProps(asString(input.path)),
+    handler: (ctx, input) => ctx.vault.readProperties(input.path),
+  }),
+  defineTool<{ path: string; properties: Record<string, unknown> }>({
+    name: "update_properties",
+    category: "knowledge",
+    displayName: "Update Properties",
+    summary: "Set frontmatter properties",
+    writes: true,
+    description:
+      "Set or update YAML frontmatter properties on a note. Creates frontmatter if none exists. IMPORTANT: Always ask user first.",
+    input_schema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "File path relative to vault root" },
+        properties: {
+          type: "object",
+          description: 'Key-value pairs to set, e.g. {"status": "done", "tags": ["project"]}',
+        },
+      },
+      required: ["path", "properties"],
+    },
+    progress: (t, input) => t.toolUpdatingProps(asString(input.path)),
+    handler: (ctx, input) => ctx.vault.updateProperties(input.path, input.properties),
+    preview: (ctx, input) => previewProperties(ctx, input.path, (current) => ({ ...current, ...input.properties })),
+    touches: (_ctx, input) => [input.path],
+  }),
+  defineTool<Record<string, never>>({
+    name: "get_tags",
+    category: "knowledge",
+    displayName: "Get Tags",
+    summary: "List all vault tags",
+    writes: false,
+    description:
+      "List all tags used across the vault with their note counts. Useful for understanding vault organization.",
+    input_schema: {
+      type: "object",
+      properties: {},
+      required: [],
+    },
+    progress: (t) => t.toolGettingTags,
+    handler: (ctx) => ctx.vault.getTags(),
+  }),
+  defineTool<{ tag: string }>({
+    name: "search_by_tag",
+    category: "knowledge",
+    displayName: "Search by Tag",
+    summary: "Find notes by tag",
+    writes: false,
+    description: "Find all notes that contain a specific tag. Returns file paths.",
+    input_schema: {
+      type: "object",
+      properties: {
+        tag: {
+          type: "string",
+          description: "Tag to search for (with or without #), e.g. 'project' or '#project'",
+        },
+      },
+      required: ["tag"],
+    },
+    progress: (t, input) => t.toolSearchingTag(asString(input.tag)),
+    handler: (ctx, input) => ctx.vault.searchByTag(input.tag),
+  }),
+  defineTool<Record<string, never>>({
+    name: "get_vault_stats",
+    category: "knowledge",
+    displayName: "Vault Stats",
+    summary: "Get vault statistics",
+    writes: false,
+    description:
+      "Get vault statistics: total notes, folders, tags, and recent activity summary.",
+    input_schema: {
+      type: "object",
+      properties: {},
+      required: [],
+    },
+    progress: (t) => t.toolVaultStats,
+    handler: (ctx) => ctx.vault.getVaultStats(),
+  }),
+];
@@ -0,0 +1,168 @@
+import { SCHEDULED_ACTIONS, type ScheduledAction } from "../vault";
+import { defineTool } from "./registry";
+import { asString } from "./validate";
+
+export const MEMORY_TOOL_SPECS = [
+  defineTool<{ content: string; type?: string }>({
+    name: "save_memory",
+    category: "memory",
+    displayName: "Save Memory",
+    summary: "Save facts, preferences, and context",
+    writes: true,
+    description: "Save an important fact, preference, emotional context, or insight about the user. Use proactively when user shares personal info.",
+    input_schema: {
+      type: "object",
+      properties: {
+        content: { type: "string", description: "The memory to save. Be specific and concise." },
+        type: {
+          type: "string",
+          enum: ["fact", "preference", "context", "emotional"],
+          description: "Memory type: fact, preference, context, or emotional. Default: fact",
+        },
+      },
+      required: ["content"],
+    },
+    progress: (t) => t.toolSavingMemory,
+    handler: (ctx, input) => ctx.vault.saveMemory(input.content, input.type ?? ""),
+    preview: async (_ctx, input) => ({ path: "system/memories.md", detail: `${input.type || "fact"}: ${input.content}` }),
+    touches: () => ["system/memories.md"],
+  }),
+  defineTool<{ query?: string; days?: number; limit?: number }>({
+    name: "recall_memory",
+    category: "memory",
+    displayName: "Recall Memory",
+    summary: "Search or browse saved memories",
+    writes: false,
+    description: "Recall saved memories about the user. Search by keyword or get recent entries.",
+    input_schema: {
+      type: "object",
+      properties: {
+        query: { type: "string", description: "Keyword to search. Omit for recent entries." },
+        days: { type: "number", description: "Only memories from last N days." },
+        limit: { type: "number", description: "Max entries to return. Default: 10." },
+      },
+      required: [],
+    },
+    progress: (t, input) => t.toolRecalling(typeof input.query === "string" ? input.query : undefined),
+    handler: (ctx, input) => ctx.vault.recallMemory(input.query ?? "", input.days ?? 0, input.limit ?? 0),
+  }),
+  defineTool<{ startDate: string; endDate: string }>({
+    name: "gather_retro_data",
+    category: "memory",
+    displayName: "Gather Retro Data",
+    summary: "Collect data for retrospective",
+    writes: false,
+    description: "Gather data for a retrospective. Reads daily notes, events, tasks, memories in date range.",
+    input_schema: {
+      type: "object",
+      properties: {
+        startDate: { type: "string", description: "Start date YYYY-MM-DD" },
+        endDate: { type: "string", description: "End date YYYY-MM-DD" },
+      },
+      required: ["startDate", "endDate"],
+    },
+    progress: (t, input) => t.toolGatheringRetro(asString(input.startDate), asString(input.endDate)),
+    handler: (ctx, input) => ctx.vault.gatherRetroData(input.startDate, input.endDate),
+  }),
+  defineTool<{ period: string; content: string }>({
+    name: "save_retro",
+    category: "memory",
+    displayName: "Save Retro",
+    summary: "Save a retrospective review",
+    writes: true,
+    description: "Save a retrospective to system/retro/YYYY-MM-DD-{period}.md.",
+    input_schema: {
+      type: "object",
+      properties: {
+        period: { type: "string", description: "Period: weekly, monthly, quarterly" },
+        content: { type: "string", description: "Full retrospective markdown" },
+      },
+      required: ["period", "content"],
+    },
+    progress: (t, input) => t.toolSavingRetro(asString(input.period)),
+    handler: (ctx, input) => ctx.vault.saveRetro(input.period, input.content),
+    preview: async (ctx, input) => {
+      const path = `system/retro/${new Date().toISOString().slice(0, 10)}-${input.period}.md`;
+      return { path, change: { before: await ctx.vault.readFile(path), after: input.content } };
+    },
+    touches: (_ctx, input) => [`system/retro/${new Date().toISOString().slice(0, 10)}-${input.period}.md`],
+  }),
+  defineTool<Record<string, never>>({
+    name: "get_goals",
+    category: "memory",
+    displayName: "Get Goals",
+    summary: "Read current goals",
+    writes: false,
+    description: "Read all goals from system/goals.md.",
+    input_schema: { type: "object", properties: {}, required: [] },
+    progress: (t) => t.toolGettingGoals,
+    handler: (ctx) => ctx.vault.getGoals(),
+  }),
+  defineTool<{ title: string; status?: string; progress?: string; target?: string }>({
+    name: "update_goal",
+    category: "memory",
+    displayName: "Update Goal",
+    summary: "Update goal status and progress",
+    writes: true,
+    description: "Update a goal in system/goals.md, or add new one. Ask user first.",
+    input_schema: {
+      type: "object",
+      properties: {
+        title: { type: "string", description: "Goal title to find/create" },
+        status: { type: "string", description: "In Progress | On Track | Behind | Completed" },
+        progress: { type: "string", description: "Progress description" },
+        target: { type: "string", description: "Target date" },
+      },
+      required: ["title"],
+    },
+    progress: (t, input) => t.toolUpdatingGoal(asString(input.title)),
+    handler: (ctx, input) => ctx.vault.updateGoal(input.title, {
+      status: input.status ?? "",
+      progress: input.progress ?? "",
+      target: input.target ?? "",
+    }),
+    preview: async (_ctx, input) => ({
+      path: "system/goals.md",
+      detail: [input.title, input.status, input.progress, input.target].filter(Boolean).join(" · "),
+    }),
+    touches: () => ["system/goals.md"],
+  }),
+  defineTool<{ id: string; cron: string; prompt?: string; action?: ScheduledAction; timezone?: string; enabled?: boolean }>({
+    name: "schedule_job",
+    category: "memory",
+    displayName: "Schedule Job",
+    summary: "Create recurring check-ins and nudges",
+    writes: true,
+    description: "Create or update a recurring job in system/schedules.json, run by the Telegram server. " +
+      "Use when the user wants something done on a schedule, e.g. \"ask me about gym progress every Monday\". " +
+      "A prompt job runs the prompt through the AI (read-only tools) and sends the answer to the user; " +
+      "built-in actions: briefing, recap, goals (weekly goal check-in), deadlines (nudge about tasks due soon). " +
+      "The default jobs are \"briefing\" and \"recap\" — reuse those ids to move them, or set enabled: false to turn them off.",
+    input_schema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Short kebab-case id, e.g. gym-checkin. Reusing an id replaces that job." },
+        cron: { type: "string", description: "Five-field cron: minute hour day-of-month month day-of-week, e.g. \"0 9 * * 1\"" },
+        prompt: { type: "string", description: "What the AI should do or ask when the job runs, written as an instruction" },
+        action: { type: "string", enum: [...SCHEDULED_ACTIONS], description: "Built-in action instead of a prompt" },
+        timezone: { type: "string", description: "IANA timezone. Default: the user's." },
+        enabled: { type: "boolean", description: "false to pause the job. Default: true" },
+      },
+      required: ["id", "cron"],
+    },
+    progress: (t, input) => t.toolSchedulingJob(asString(input.id)),
+    handler: (ctx, input) => ctx.vault.scheduleJob({
+      id: input.id,
+      cron: input.cron,
+      prompt: input.prompt,
+      action: input.action,
+      timezone: input.timezone,
+      enabled: input.enabled,
+    }),
+    preview: async (ctx, input) => ({
+      path: ctx.vault.SCHEDULES_PATH,
+      detail: `${input.id}: ${input.cron} · ${input.prompt ?? input.action ?? ""}${input.enabled === false ? " (disabled)" : ""}`,
+    }),
+    touches: (ctx) => [ctx.vault.SCHEDULES_PATH],
+  }),
+];
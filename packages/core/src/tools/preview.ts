@@ -0,0 +1,37 @@
+import type { ToolContext, ToolPreview } from "./types";
+
+// ─── Preview helpers ───────────────────────────────────────────
+
+/** Properties as "key: value" lines — enough for the user to see what changes */
+export function formatProperties(props: Record<string, unknown>): string {
+  return Object.entries(props)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}: ${typeof value === "string" ? value : JSON.stringify(value)}`)
+    .join("\n");
+}
+
+/** Preview a frontmatter edit as a before/after property listing; null when the note is missing */
+export async function previewProperties(
+  ctx: ToolContext,
+  path: string,
+  apply: (current: Record<string, unknown>) => Record<string, unknown>,
+): Promise<ToolPreview | null> {
+  if ((await ctx.vault.readFile(path)) === null) return null;
+  const current = (await ctx.vault.readFrontmatter(path)) ?? {};
+  return {
+    path,
+    change: { before: formatProperties(current), after: formatProperties(apply({ ...current })) },
+  };
+}
+
+/** Preview a rewrite of an existing note; null when the note is missing or nothing would change */
+export async function previewEdit(
+  ctx: ToolContext,
+  path: string,
+  edit: (before: string) => string | null,
+): Promise<ToolPreview | null> {
+  const before = await ctx.vault.readFile(path);
+  if (before === null) return null;
+  const after = edit(before);
+  return after === null ? null : { path, change: { before, after } };
+}
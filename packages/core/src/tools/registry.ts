@@ -0,0 +1,102 @@
+import type { FileChange, ToolCategory, ToolContext, ToolDefinition, ToolPolicy, ToolPreview, ToolSpec } from "./types";
+import { formatToolInputErrors, validateToolInput } from "./validate";
+
+// ─── Tool registry ─────────────────────────────────────────────
+
+const registry = new Map<string, ToolSpec>();
+
+/** Declare a tool with a typed handler input; validation guarantees `I` before the handler runs */
+export function defineTool<I>(spec: ToolSpec<I>): ToolSpec {
+  return spec as unknown as ToolSpec;
+}
+
+export function registerTool(spec: ToolSpec): void {
+  registry.set(spec.name, spec);
+}
+
+export function getTool(name: string): ToolSpec | undefined {
+  return registry.get(name);
+}
+
+/** All registered tools in registration order, optionally limited to one category */
+export function listTools(category?: ToolCategory): ToolSpec[] {
+  const all = [...registry.values()];
+  return category ? all.filter((t) => t.category === category) : all;
+}
+
+/** Model-facing schemas only — what the provider adapters send */
+export function getToolDefinitions(category?: ToolCategory): ToolDefinition[] {
+  return listTools(category).map(({ name, description, input_schema }) => ({ name, description, input_schema }));
+}
+
+export function isWriteTool(name: string): boolean {
+  return registry.get(name)?.writes ?? false;
+}
+
+/** Effective policy for a tool — unset tools ask first when they write and run freely otherwise */
+export function getToolPolicy(name: string, policies?: Record<string, ToolPolicy>): ToolPolicy {
+  return policies?.[name] ?? (isWriteTool(name) ? "confirm" : "auto");
+}
+
+/** The change a call would make, or null when the tool has no preview or the input is invalid */
+export async function previewTool(ctx: ToolContext, name: string, input: Record<string, unknown>): Promise<ToolPreview | null> {
+  const tool = registry.get(name);
+  if (!tool?.preview || validateToolInput(tool, input).length > 0) return null;
+  try {
+    return await tool.preview(ctx, input);
+  } catch (error) {
+    console.debug(`previewTool: ${name} preview failed`, error);
+    return null;
+  }
+}
+
+/** Vault paths a call may change; empty for read-only tools and invalid input */
+export async function getToolTargets(ctx: ToolContext, name: string, input: Record<string, unknown>): Promise<string[]> {
+  const tool = registry.get(name);
+  if (!tool?.touches || validateToolInput(tool, input).length > 0) return [];
+  try {
+    return await tool.touches(ctx, input);
+  } catch (error) {
+    console.debug(`getToolTargets: ${name} failed`, error);
+    return [];
+  }
+}
+
+/**
+ * Validate `input` against the tool's schema, then run it. Never throws:
+ * unknown tools, invalid arguments and handler failures all come back as
+ * text the model can read and correct.
+ */
+export async function executeTool(ctx: ToolContext, name: string, input: Record<string, unknown>): Promise<string> {
+  const tool = registry.get(name);
+  if (!tool) return `Unknown tool: ${name}`;
+
+  const errors = validateToolInput(tool, input);
+  if (errors.length > 0) return formatToolInputErrors(tool, errors);
+
+  try {
+    return await tool.handler(ctx, input);
+  } catch (error) {
+    return `Error executing ${name}: ${(error as Error).message}`;
+  }
+}
+
+/**
+ * executeTool, plus the before/after content of every file the call changed —
+ * what the chat UI needs to show a diff and undo the call afterwards.
+ */
+export async function executeToolWithChanges(
+  ctx: ToolContext,
+  name: string,
+  input: Record<string, unknown>,
+): Promise<{ result: string; changes: FileChange[] }> {
+  const paths = [...new Set(await getToolTargets(ctx, name, input))];
+  const before = await Promise.all(paths.map((path) => ctx.vault.readFile(path)));
+  const result = await executeTool(ctx, name, input);
+  const changes: FileChange[] = [];
+  for (const [i, path] of paths.entries()) {
+    const after = await ctx.vault.readFile(path);
+    if (after !== before[i]) changes.push({ path, before: before[i], after });
+  }
+  return { result, changes };
+}
@@ -0,0 +1,52 @@
+import { defineTool } from "./registry";
+import { previewEdit } from "./preview";
+import { asString } from "./validate";
+
+export const TASK_TOOL_SPECS = [
+  defineTool<{ path: string; includeCompleted?: boolean }>({
+    name: "get_tasks",
+    category: "task",
+    displayName: "Get Tasks",
+    summary: "Extract tasks from notes",
+    writes: false,
+    description:
+      "Extract all tasks (- [ ] and - [x] checkboxes) from a note or all notes in a folder. Returns task text, status, file path, and line number.",
+    input_schema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "File or folder path. Use '' for entire vault." },
+        includeCompleted: { type: "boolean", description: "Include completed tasks (default true)" },
+      },
+      required: ["path"],
+    },
+    progress: (t, input) => t.toolGettingTasks(asString(input.path, "vault")),
+    handler: (ctx, input) => ctx.vault.getTasks(input.path, input.includeCompleted !== false),
+  }),
+  defineTool<{ path: string; line: number }>({
+    name: "toggle_task",
+    category: "task",
+    displayName: "Toggle Task",
+    summary: "Toggle task checkbox",
+    writes: true,
+    description:
+      "Toggle a task checkbox between done and undone at a specific line in a note.",
+    input_schema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "File path relative to vault root" },
+        line: { type: "number", description: "Line number (1-based) of the task to toggle" },
+      },
+      required: ["path", "line"],
+    },
+    progress: (t) => t.toolTogglingTask,
+    handler: (ctx, input) => ctx.vault.toggleTask(input.path, input.line),
+    preview: (ctx, input) => previewEdit(ctx, input.path, (before) => {
+      const lines = before.split("\n");
+      const match = lines[input.line - 1]?.match(/^(\s*-\s*\[)([ xX])(\]\s*.*)/);
+      if (!match) return null;
+      lines[input.line - 1] = match[1] + (match[2] === " " ? "x" : " ") + match[3];
+      return lines.join("\n");
+    }),
+    touches: (_ctx, input) => [input.path],
+  }),
+];
@@ -0,0 +1,98 @@
+import type { I18n } from "../i18n";
+import type { VaultTools } from "../vault";
+
+/** Tool schema as sent to the model APIs */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  input_schema: {
+    type: "object";
+    properties: Record<string, unknown>;
+    required: string[];
+  };
+}
+
+export type ToolCategory = "vault" | "web" | "knowledge" | "graph" | "task" | "daily" | "calendar" | "memory";
+
+export interface CreateEventParams {
+  title: string;
+  date: string;
+  startTime?: string;
+  endTime?: string;
+  allDay?: boolean;
+  endDate?: string;
+  type?: "single" | "recurring" | "rrule";
+  daysOfWeek?: string[];
+  startRecur?: string;
+  endRecur?: string;
+  rrule?: string;
+  body?: string;
+}
+
+/** Calendar operations the tools need — implemented by the plugin's and the server's calendar managers */
+export interface CalendarTools {
+  checkCalendarStatus(): Promise<string>;
+  getEvents(date?: string, startDate?: string, endDate?: string): Promise<string>;
+  getUpcomingEvents(days?: number): Promise<string>;
+  createEvent(params: CreateEventParams): Promise<string>;
+  /** Path createEvent would use for this title and date */
+  getEventPath(title: string, date: string): Promise<string>;
+  updateEvent(path: string, properties: Record<string, unknown>): Promise<string>;
+  completeEvent(path: string, completed: boolean, date?: string): Promise<string>;
+  deleteEvent(path: string): Promise<string>;
+}
+
+/** Everything a tool handler can act on */
+export interface ToolContext {
+  vault: VaultTools;
+  calendar: CalendarTools;
+}
+
+/** What happens when the model calls a tool: run it, ask the user first, or refuse */
+export type ToolPolicy = "auto" | "confirm" | "deny";
+
+/** The user's answer to a "confirm" tool call */
+export interface ToolDecision {
+  approved: boolean;
+  /** Optional note passed back to the model with a rejection — the user's words or e.g. a timeout */
+  reason?: string;
+}
+
+/** What a write tool is about to change, shown to the user before it runs */
+export interface ToolPreview {
+  /** Vault path the call changes, when known up front */
+  path?: string;
+  /** One-line summary shown above the diff, e.g. a move target or event time */
+  detail?: string;
+  /** Content before and after the call; null on a side where the file does not exist */
+  change?: { before: string | null; after: string | null };
+}
+
+/**
+ * One tool, declared once: the schema the model sees, how settings and the chat
+ * UI present it, whether it changes the vault, and the code that runs it.
+ * `I` is the input shape the schema guarantees after validation.
+ */
+export interface ToolSpec<I = Record<string, unknown>> extends ToolDefinition {
+  category: ToolCategory;
+  /** Settings toggle label */
+  displayName: string;
+  /** One-line settings description (the model-facing `description` is shown as a tooltip) */
+  summary: string;
+  /** Creates, modifies or deletes vault content */
+  writes: boolean;
+  /** In-progress label for the chat UI; receives the raw, unvalidated input */
+  progress: (t: I18n, input: Record<string, unknown>) => string;
+  handler: (ctx: ToolContext, input: I) => Promise<string>;
+  /** Describe the change a write tool would make, without making it */
+  preview?: (ctx: ToolContext, input: I) => Promise<ToolPreview | null>;
+  /** Vault paths a write tool may create, modify or delete — snapshotted so the call can be undone */
+  touches?: (ctx: ToolContext, input: I) => string[] | Promise<string[]>;
+}
+
+/** One file a tool call changed; null on a side where the file does not exist */
+export interface FileChange {
+  path: string;
+  before: string | null;
+  after: string | null;
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import type { ToolDefinition } from "./types";
+import { formatToolInputErrors, validateToolInput } from "./validate";
+
+const createEvent: ToolDefinition = {
+  name: "create_event",
+  description: "Create a calendar event",
+  input_schema: {
+    type: "object",
+    properties: {
+      title: { type: "string" },
+      date: { type: "string" },
+      allDay: { type: "boolean" },
+      reminderMinutes: { type: "integer" },
+      type: { type: "string", enum: ["single", "recurring", "rrule"] },
+      daysOfWeek: { type: "array", items: { type: "string", enum: ["M", "T", "W", "R", "F", "S", "U"] } },
+      metadata: { type: "object" },
+    },
+    required: ["title", "date"],
+  },
+};
+
+describe("validateToolInput", () => {
+  it("accepts valid input and ignores unknown properties", () => {
+    expect(validateToolInput(createEvent, {
+      title: "Dentist",
+      date: "2026-03-01",
+      allDay: false,
+      reminderMinutes: 30,
+      type: "recurring",
+      daysOfWeek: ["M", "F"],
+      metadata: { room: 4 },
+      color: "blue",
+    })).toEqual([]);
+  });
+
+  it("rejects input that isn't an object", () => {
+    expect(validateToolInput(createEvent, null)).toEqual([{ field: "(input)", message: "expected object, got null" }]);
+    expect(validateToolInput(createEvent, ["Dentist"])).toEqual([{ field: "(input)", message: "expected object, got array" }]);
+  });
+
+  it("reports missing required properties, treating null as missing", () => {
+    expect(validateToolInput(createEvent, { date: null })).toEqual([
+      { field: "title", message: "missing required string" },
+      { field: "date", message: "missing required string" },
+    ]);
+  });
+
+  it("reports wrong primitive types", () => {
+    expect(validateToolInput(createEvent, { title: 42, date: "2026-03-01", allDay: "yes" })).toEqual([
+      { field: "title", message: "expected string, got number" },
+      { field: "allDay", message: "expected boolean, got string" },
+    ]);
+  });
+
+  it("tells integers from other numbers", () => {
+    const errors = (reminderMinutes: unknown) =>
+      validateToolInput(createEvent, { title: "Dentist", date: "2026-03-01", reminderMinutes });
+    expect(errors(1.5)).toEqual([{ field: "reminderMinutes", message: "expected integer, got 1.5" }]);
+    expect(errors(Number.NaN)).toEqual([{ field: "reminderMinutes", message: "expected integer, got number" }]);
+    expect(errors("30")).toEqual([{ field: "reminderMinutes", message: "expected integer, got string" }]);
+  });
+
+  it("checks enums and array items by index", () => {
+    expect(validateToolInput(createEvent, {
+      title: "Gym",
+      date: "2026-03-01",
+      type: "weekly",
+      daysOfWeek: ["M", "Friday", 3],
+      metadata: [],
+    })).toEqual([
+      { field: "type", message: "must be one of \"single\", \"recurring\", \"rrule\"" },
+      { field: "daysOfWeek[1]", message: "must be one of \"M\", \"T\", \"W\", \"R\", \"F\", \"S\", \"U\"" },
+      { field: "daysOfWeek[2]", message: "expected string, got number" },
+      { field: "daysOfWeek[2]", message: "must be one of \"M\", \"T\", \"W\", \"R\", \"F\", \"S\", \"U\"" },
+      { field: "metadata", message: "expected object, got array" },
+    ]);
+  });
+});
+
+describe("formatToolInputErrors", () => {
+  it("lists each problem, then the expected shape with optional properties marked", () => {
+    const text = formatToolInputErrors(createEvent, validateToolInput(createEvent, { title: 1 }));
+    expect(text.split("\n")).toEqual([
+      "Invalid input for create_event:",
+      "- date: missing required string",
+      "- title: expected string, got number",
+      "Expected: { title: string, date: string, allDay?: boolean, reminderMinutes?: integer, type?: string, "
+        + "daysOfWeek?: array, metadata?: object }",
+      "Fix the arguments and call create_event again.",
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+import type { ToolDefinition } from "./types";
+
+interface PropertySchema {
+  type?: string;
+  enum?: unknown[];
+  items?: PropertySchema;
+}
+
+export interface ToolInputError {
+  /** Property path, e.g. "date" or "daysOfWeek[2]" */
+  field: string;
+  message: string;
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function checkValue(field: string, value: unknown, schema: PropertySchema, errors: ToolInputError[]): void {
+  const actual = describeType(value);
+  switch (schema.type) {
+    case "string":
+    case "boolean":
+      if (actual !== schema.type) errors.push({ field, message: `expected ${schema.type}, got ${actual}` });
+      break;
+    case "number":
+    case "integer":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        errors.push({ field, message: `expected ${schema.type}, got ${actual}` });
+      } else if (schema.type === "integer" && !Number.isInteger(value)) {
+        errors.push({ field, message: `expected integer, got ${value}` });
+      }
+      break;
+    case "object":
+      if (actual !== "object") errors.push({ field, message: `expected object, got ${actual}` });
+      break;
+    case "array":
+      if (!Array.isArray(value)) {
+        errors.push({ field, message: `expected array, got ${actual}` });
+      } else if (schema.items) {
+        value.forEach((item, i) => checkValue(`${field}[${i}]`, item, schema.items!, errors));
+      }
+      break;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({ field, message: `must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}` });
+  }
+}
+
+/**
+ * Check tool input against the subset of JSON Schema our tool definitions use:
+ * required properties, primitive/object/array types, array item types and enums.
+ * Unknown properties are ignored — models sometimes add harmless extras.
+ */
+export function validateToolInput(def: ToolDefinition, input: unknown): ToolInputError[] {
+  if (describeType(input) !== "object") {
+    return [{ field: "(input)", message: `expected object, got ${describeType(input)}` }];
+  }
+  const args = input as Record<string, unknown>;
+  const errors: ToolInputError[] = [];
+  const properties = def.input_schema.properties as Record<string, PropertySchema>;
+
+  for (const name of def.input_schema.required) {
+    if (args[name] === undefined || args[name] === null) {
+      const type = properties[name]?.type;
+      errors.push({ field: name, message: `missing required ${type ?? "property"}` });
+    }
+  }
+  for (const [name, value] of Object.entries(args)) {
+    const schema = properties[name];
+    if (!schema || value === undefined || value === null) continue;
+    checkValue(name, value, schema, errors);
+  }
+  return errors;
+}
+
+/** Error text the model can act on: what was wrong with each argument, then what the tool expects */
+export function formatToolInputErrors(def: ToolDefinition, errors: ToolInputError[]): string {
+  const expected = Object.entries(def.input_schema.properties as Record<string, PropertySchema>)
+    .map(([name, schema]) => {
+      const optional = def.input_schema.required.includes(name) ? "" : "?";
+      return `${name}${optional}: ${schema.type ?? "any"}`;
+    })
+    .join(", ");
+  return [
+    `Invalid input for ${def.name}:`,
+    ...errors.map((e) => `- ${e.field}: ${e.message}`),
+    `Expected: { ${expected} }`,
+    `Fix the arguments and call ${def.name} again.`,
+  ].join("\n");
+}
+
+// ─── Lenient readers for raw (unvalidated) input ──────────────
+
+export function asString(value: unknown, fallback = ""): string {
+  return typeof value === "string" ? value : fallback;
+}
+
+export function asNumber(value: unknown, fallback = 0): number {
+  return typeof value === "number" ? value : fallback;
+}
@@ -0,0 +1,186 @@
+import { defineTool } from "./registry";
+import { asNumber, asString } from "./validate";
+
+export const VAULT_TOOL_SPECS = [
+  defineTool<{ query: string }>({
+    name: "search_vault",
+    category: "vault",
+    displayName: "Search Vault",
+    summary: "Search notes by keyword",
+    writes: false,
+    description:
+      "Search for notes in the vault by keyword. Returns matching file paths and line content. Use this to find relevant notes before reading them.",
+    input_schema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "The keyword or phrase to search for across all notes",
+        },
+      },
+      required: ["query"],
+    },
+    progress: (t, input) => t.toolSearching(asString(input.query)),
+    handler: (ctx, input) => ctx.vault.searchVault(input.query),
+  }),
+  defineTool<{ path: string }>({
+    name: "read_note",
+    category: "vault",
+    displayName: "Read Note",
+    summary: "Read full content of a note",
+    writes: false,
+    description:
+      "Read the full content of a specific note. Use this after search_vault to read relevant notes, or when you know the exact path.",
+    input_schema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "The file path relative to vault root, e.g. 'ideas/side-projects/ai-tutor.md'",
+        },
+      },
+      required: ["path"],
+    },
+    progress: (t, input) => t.toolReading(asString(input.path)),
+    handler: (ctx, input) => ctx.vault.readNote(input.path),
+  }),
+  defineTool<{ path: string; content: string }>({
+    name: "write_note",
+    category: "vault",
+    displayName: "Write Note",
+    summary: "Create or overwrite notes",
+    writes: true,
+    description:
+      "Create a new note or overwrite an existing note. Creates parent folders automatically. " +
+      "Use for notes in vault domains (projects/, areas/, resources/, people/). " +
+      "Do NOT use for calendar events (use create_event) or daily notes (use create_daily_note). " +
+      "File paths: lowercase, hyphenated, no diacritics. IMPORTANT: Always ask user first.",
+    input_schema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "File path relative to vault root. Use lowercase hyphenated slugs: 'people/family/ha-trang.md', 'areas/career/goals.md'",
+        },
+        content: {
+          type: "string",
+          description: "The full markdown content to write. Use [[wiki links]] for cross-references.",
+        },
+      },
+      required: ["path", "content"],
+    },
+    progress: (t, input) => t.toolWriting(asString(input.path)),
+    handler: (ctx, input) => ctx.vault.writeNote(input.path, input.content),
+    preview: async (ctx, input) => ({
+      path: input.path,
+      change: { before: await ctx.vault.readFile(input.path), after: input.content },
+    }),
+    touches: (_ctx, input) => [input.path],
+  }),
+  defineTool<{ from: string; to: string }>({
+    name: "move_note",
+    category: "vault",
+    displayName: "Move Note",
+    summary: "Move or rename notes",
+    writes: true,
+    description:
+      "Move or rename a note to a new path. Creates target folders automatically. IMPORTANT: Always ask the user for confirmation before moving.",
+    input_schema: {
+      type: "object",
+      properties: {
+        from: { type: "string", description: "Current file path" },
+        to: { type: "string", description: "New file path" },
+      },
+      required: ["from", "to"],
+    },
+    progress: (t, input) => t.toolMoving(asString(input.from), asString(input.to)),
+    handler: (ctx, input) => ctx.vault.moveNote(input.from, input.to),
+    preview: async (_ctx, input) => ({ path: input.from, detail: `→ ${input.to}` }),
+    touches: (_ctx, input) => [input.from, input.to],
+  }),
+  defineTool<{ path: string }>({
+    name: "list_folder",
+    category: "vault",
+    displayName: "List Folder",
+    summary: "Browse vault folder structure",
+    writes: false,
+    description:
+      "List files and subfolders in a specific folder. Use this to explore vault structure.",
+    input_schema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "Folder path relative to vault root, e.g. 'ideas/' or '' for root",
+        },
+      },
+      required: ["path"],
+    },
+    progress: (t, input) => t.toolListing(asString(input.path, "/")),
+    handler: (ctx, input) => ctx.vault.listFolder(input.path),
+  }),
+  defineTool<{ days: number }>({
+    name: "get_recent_notes",
+    category: "vault",
+    displayName: "Recent Notes",
+    summary: "Get recently modified notes",
+    writes: false,
+    description:
+      "Get recently modified notes within a time period. Useful for reviews and understanding recent activity.",
+    input_schema: {
+      type: "object",
+      properties: {
+        days: {
+          type: "number",
+          description: "Number of days to look back, e.g. 7 for last week",
+        },
+      },
+      required: ["days"],
+    },
+    progress: (t, input) => t.toolRecentNotes(asNumber(input.days)),
+    handler: (ctx, input) => ctx.vault.getRecentNotes(input.days),
+  }),
+  defineTool<{ path: string }>({
+    name: "get_snapshots",
+    category: "vault",
+    displayName: "Get Snapshots",
+    summary: "List previous versions of a note",
+    writes: false,
+    description:
+      "List available snapshots (previous versions) for a note. Snapshots are automatically created when write_note overwrites an existing file. Use this to help the user recover or compare old content.",
+    input_schema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "The note path to list snapshots for (e.g. 'areas/career/goals.md')",
+        },
+      },
+      required: ["path"],
+    },
+    progress: (t, input) => t.toolListingSnapshots(asString(input.path)),
+    handler: (ctx, input) => ctx.vault.getSnapshots(input.path),
+  }),
+  defineTool<{ path: string }>({
+    name: "read_snapshot",
+    category: "vault",
+    displayName: "Read Snapshot",
+    summary: "Read a previous version of a note",
+    writes: false,
+    description:
+      "Read the content of a specific snapshot (previous version of a note). Use get_snapshots first to find available snapshot paths.",
+    input_schema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description:
+            "The full snapshot path returned by get_snapshots (e.g. 'system/snapshots/areas--career--goals.md/2026-02-14T10-30-45.md')",
+        },
+      },
+      required: ["path"],
+    },
+    progress: (t) => t.toolReadingSnapshot,
+    handler: (ctx, input) => ctx.vault.readSnapshot(input.path),
+  }),
+];
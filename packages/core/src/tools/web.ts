@@ -0,0 +1,50 @@
+import { defineTool } from "./registry";
+import { asString } from "./validate";
+
+export const WEB_TOOL_SPECS = [
+  defineTool<{ query: string }>({
+    name: "web_search",
+    category: "web",
+    displayName: "Web Search",
+    summary: "Search the web via DuckDuckGo",
+    writes: false,
+    description:
+      "Search the web for information using DuckDuckGo. Returns top results with titles, URLs, and snippets. Use for research, fact-checking, or finding current information.",
+    input_schema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "The search query",
+        },
+      },
+      required: ["query"],
+    },
+    progress: (t, input) => t.toolWebSearch(asString(input.query)),
+    handler: (ctx, input) => ctx.vault.webSearch(input.query),
+  }),
+  defineTool<{ url: string }>({
+    name: "web_fetch",
+    category: "web",
+    displayName: "Web Fetch",
+    summary: "Fetch and read a web page",
+    writes: false,
+    description:
+      "Fetch and read the text content of a web page. Use after web_search to read a specific result in detail.",
+    input_schema: {
+      type: "object",
+      properties: {
+        url: {
+          type: "string",
+          description: "The full URL to fetch (must start with http:// or https://)",
+        },
+      },
+      required: ["url"],
+    },
+    progress: (t, input) => {
+      const url = asString(input.url);
+      return t.toolFetching(url.length > 40 ? url.slice(0, 40) + "..." : url);
+    },
+    handler: (ctx, input) => ctx.vault.webFetch(input.url),
+  }),
+];
@@ -1,6 +1,8 @@
 import type { Language } from "./i18n";
+import type { ToolPolicy } from "./tools/types";
 
-export type AIProvider = "claude" | "openai" | "gemini" | "groq";
+// Provider id — built-ins are "claude" | "openai" | "gemini" | "groq", more can be registered (see providers/)
+export type AIProvider = string;
 
 // Any model ID string — known defaults below, but dynamic models from API are also supported
 export type AIModel = string;
@@ -10,6 +12,8 @@ export type ChatMode = "quick" | "dive";
 export interface ModelEntry {
   id: string;
   name: string;
+  // Context window in tokens, when the provider reports it or the user sets it
+  contextLimit?: number;
 }
 
 export interface ModelGroup {
@@ -28,6 +32,9 @@ export interface LifeCompanionSettings {
   openaiApiKey: string;
   geminiApiKey: string;
   groqApiKey: string;
+  // Custom OpenAI-compatible endpoint (Ollama, LM Studio, vLLM, OpenRouter…)
+  customBaseUrl: string;
+  customApiKey: string;
   // Web search
   braveSearchApiKey: string;
   // Model selection per mode
@@ -37,6 +44,8 @@ export interface LifeCompanionSettings {
   enabledModels: AIModel[];
   // Enabled tools
   enabledTools: string[];
+  // Per-tool auto / confirm / deny overrides; unset tools ask first when they write
+  toolPolicies: Record<string, ToolPolicy>;
   // UI language
   language: Language;
   // Saved conversations
@@ -49,9 +58,12 @@ export interface LifeCompanionSettings {
   // Snapshots
   snapshotsEnabled: boolean;
   maxSnapshotsPerFile: number;
-  // Vault Sync (Syncthing)
-  syncDeviceId: string;      // Remote server's Syncthing Device ID
+  // Vault Sync
+  syncMethod: "syncthing" | "native";  // Syncthing daemon, or the server's own sync API
   syncEnabled: boolean;       // Whether sync is configured and active
+  syncDeviceId: string;      // Remote server's Syncthing Device ID
+  syncServerUrl: string;      // Native sync: server address, e.g. http://192.168.1.20:3456
+  syncToken: string;          // Native sync: API_TOKEN or a web chat login token
   // Tabs
   openTabs: string[];
   activeTabId: string | null;
@@ -65,6 +77,8 @@ export const DEFAULT_SETTINGS: LifeCompanionSettings = {
   openaiApiKey: "",
   geminiApiKey: "",
   groqApiKey: "",
+  customBaseUrl: "",
+  customApiKey: "",
   braveSearchApiKey: "",
   quickModel: "gemini-3-flash-preview",
   diveModel: "claude-sonnet-4-5",
@@ -79,11 +93,12 @@ export const DEFAULT_SETTINGS: LifeCompanionSettings = {
     "get_tasks", "toggle_task",
     "get_daily_note", "create_daily_note",
     "check_calendar_status", "get_events", "create_event",
-    "update_event", "delete_event", "get_upcoming_events",
+    "update_event", "delete_event", "complete_event", "get_upcoming_events",
     "save_memory", "recall_memory",
     "gather_retro_data", "save_retro",
-    "get_goals", "update_goal",
+    "get_goals", "update_goal", "schedule_job",
   ],
+  toolPolicies: {},
   language: "en",
   savedConversations: [],
   customModels: {},
@@ -91,8 +106,11 @@ export const DEFAULT_SETTINGS: LifeCompanionSettings = {
   calendarStartDay: 1, // Monday
   snapshotsEnabled: true,
   maxSnapshotsPerFile: 3,
-  syncDeviceId: "",
+  syncMethod: "syncthing",
   syncEnabled: false,
+  syncDeviceId: "",
+  syncServerUrl: "",
+  syncToken: "",
   openTabs: [],
   activeTabId: null,
 };
@@ -118,131 +136,44 @@ export const MODEL_CONTEXT_LIMITS: Record<string, number> = {
   "llama-3.1-8b-instant": 128000,
 };
 
-export const SUMMARIZE_MODEL_PREFERENCE: Record<AIProvider, string[]> = {
-  claude: ["claude-haiku-4-5", "claude-sonnet-4-5"],
-  openai: ["gpt-4.1-nano", "gpt-4.1-mini", "gpt-5-nano"],
-  gemini: ["gemini-2.5-flash", "gemini-3-flash-preview"],
-  groq: ["llama-3.1-8b-instant", "llama-3.3-70b-versatile"],
-};
-
-export function getProvider(model: AIModel): AIProvider {
-  if (model.startsWith("claude-")) return "claude";
-  if (model.startsWith("gpt-") || model.startsWith("o3") || model.startsWith("o4") || model.startsWith("o1")) return "openai";
-  if (model.startsWith("gemini-")) return "gemini";
-  if (model.startsWith("llama-") || model.startsWith("mixtral-")) return "groq";
-  return "claude";
+/** Context window for a model — per-model limits in `customModels` win over the built-in table */
+export function getContextLimit(model: AIModel, customModels?: Record<string, ModelEntry[]>): number {
+  for (const models of Object.values(customModels || {})) {
+    const entry = models.find((m) => m.id === model);
+    if (entry?.contextLimit) return entry.contextLimit;
+  }
+  return MODEL_CONTEXT_LIMITS[model] || 200000;
 }
 
-export const MODEL_GROUPS: ModelGroup[] = [
-  {
-    label: "Claude",
-    provider: "claude",
-    models: [
-      { id: "claude-haiku-4-5", name: "Haiku 4.5 — Fast" },
-      { id: "claude-sonnet-4-5", name: "Sonnet 4.5 — Balanced" },
-      { id: "claude-opus-4-6", name: "Opus 4.6 — Most capable" },
-    ],
-  },
-  {
-    label: "OpenAI",
-    provider: "openai",
-    models: [
-      { id: "gpt-5-nano", name: "GPT-5 Nano — Fastest" },
-      { id: "gpt-5-mini", name: "GPT-5 Mini — Fast" },
-      { id: "gpt-5", name: "GPT-5 — Capable" },
-      { id: "gpt-5.2", name: "GPT-5.2 — Flagship" },
-      { id: "gpt-4.1-nano", name: "GPT-4.1 Nano — Legacy fast" },
-      { id: "gpt-4.1-mini", name: "GPT-4.1 Mini — Legacy" },
-      { id: "gpt-4.1", name: "GPT-4.1 — Legacy" },
-      { id: "o4-mini", name: "o4 Mini — Fast reasoning" },
-      { id: "o3", name: "o3 — Best reasoning" },
-    ],
-  },
-  {
-    label: "Gemini",
-    provider: "gemini",
-    models: [
-      { id: "gemini-2.5-flash", name: "2.5 Flash — Fast & cheap" },
-      { id: "gemini-2.5-pro", name: "2.5 Pro — Capable" },
-      { id: "gemini-3-flash-preview", name: "3 Flash — Latest fast" },
-      { id: "gemini-3-pro-preview", name: "3 Pro — Latest flagship" },
-    ],
-  },
-  {
-    label: "Groq",
-    provider: "groq",
-    models: [
-      { id: "llama-3.3-70b-versatile", name: "Llama 3.3 70B — Balanced" },
-      { id: "llama-3.1-8b-instant", name: "Llama 3.1 8B — Fastest" },
-    ],
-  },
-];
-
-export function getEffectiveModelGroups(customModels?: Record<string, ModelEntry[]>): ModelGroup[] {
-  if (!customModels || Object.keys(customModels).length === 0) return MODEL_GROUPS;
-  return MODEL_GROUPS.map(group => {
-    const custom = customModels[group.provider];
-    if (custom && custom.length > 0) {
-      return { ...group, models: custom };
-    }
-    return group;
-  });
-}
+/** USD per million tokens, from the providers' public price lists */
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  "claude-haiku-4-5": { input: 1, output: 5 },
+  "claude-sonnet-4-5": { input: 3, output: 15 },
+  "claude-opus-4-6": { input: 5, output: 25 },
+  "gpt-5.2": { input: 1.75, output: 14 },
+  "gpt-5": { input: 1.25, output: 10 },
+  "gpt-5-mini": { input: 0.25, output: 2 },
+  "gpt-5-nano": { input: 0.05, output: 0.4 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "o4-mini": { input: 1.1, output: 4.4 },
+  "o3": { input: 2, output: 8 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-3-flash-preview": { input: 0.5, output: 3 },
+  "gemini-3-pro-preview": { input: 2, output: 12 },
+  "llama-3.3-70b-versatile": { input: 0.59, output: 0.79 },
+  "llama-3.1-8b-instant": { input: 0.05, output: 0.08 },
+};
 
-export interface ToolInfo {
-  name: string;
-  displayName: string;
-  description: string;
-  category: "vault" | "web" | "knowledge" | "graph" | "task" | "daily" | "calendar" | "memory";
+/** API cost in USD at list prices; null for models without a known price (custom, local) */
+export function estimateCost(model: AIModel, inputTokens: number, outputTokens: number): number | null {
+  const price = MODEL_PRICING[model];
+  if (!price) return null;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
 }
 
-export const ALL_TOOLS: ToolInfo[] = [
-  { name: "search_vault", displayName: "Search Vault", description: "Search notes by keyword", category: "vault" },
-  { name: "read_note", displayName: "Read Note", description: "Read full content of a note", category: "vault" },
-  { name: "write_note", displayName: "Write Note", description: "Create or overwrite notes", category: "vault" },
-  { name: "move_note", displayName: "Move Note", description: "Move or rename notes", category: "vault" },
-  { name: "list_folder", displayName: "List Folder", description: "Browse vault folder structure", category: "vault" },
-  { name: "get_recent_notes", displayName: "Recent Notes", description: "Get recently modified notes", category: "vault" },
-  { name: "get_snapshots", displayName: "Get Snapshots", description: "List previous versions of a note", category: "vault" },
-  { name: "read_snapshot", displayName: "Read Snapshot", description: "Read a previous version of a note", category: "vault" },
-  { name: "web_search", displayName: "Web Search", description: "Search the web via DuckDuckGo", category: "web" },
-  { name: "web_fetch", displayName: "Web Fetch", description: "Fetch and read a web page", category: "web" },
-  // Knowledge
-  { name: "append_note", displayName: "Append Note", description: "Append content to a note", category: "knowledge" },
-  { name: "read_properties", displayName: "Read Properties", description: "Read frontmatter properties", category: "knowledge" },
-  { name: "update_properties", displayName: "Update Properties", description: "Set frontmatter properties", category: "knowledge" },
-  { name: "get_tags", displayName: "Get Tags", description: "List all vault tags", category: "knowledge" },
-  { name: "search_by_tag", displayName: "Search by Tag", description: "Find notes by tag", category: "knowledge" },
-  { name: "get_vault_stats", displayName: "Vault Stats", description: "Get vault statistics", category: "knowledge" },
-  // Graph
-  { name: "get_backlinks", displayName: "Backlinks", description: "Get notes linking to a note", category: "graph" },
-  { name: "get_outgoing_links", displayName: "Outgoing Links", description: "Get links from a note", category: "graph" },
-  // Tasks
-  { name: "get_tasks", displayName: "Get Tasks", description: "Extract tasks from notes", category: "task" },
-  { name: "toggle_task", displayName: "Toggle Task", description: "Toggle task checkbox", category: "task" },
-  // Daily
-  { name: "get_daily_note", displayName: "Get Daily Note", description: "Read today's daily note", category: "daily" },
-  { name: "create_daily_note", displayName: "Create Daily Note", description: "Create a daily note", category: "daily" },
-  // Calendar
-  { name: "check_calendar_status", displayName: "Calendar Status", description: "Check Full Calendar plugin status", category: "calendar" },
-  { name: "get_events", displayName: "Get Events", description: "Get calendar events for a date/range", category: "calendar" },
-  { name: "create_event", displayName: "Create Event", description: "Create a calendar event", category: "calendar" },
-  { name: "update_event", displayName: "Update Event", description: "Update an event's properties", category: "calendar" },
-  { name: "delete_event", displayName: "Delete Event", description: "Delete a calendar event", category: "calendar" },
-  { name: "get_upcoming_events", displayName: "Upcoming Events", description: "Get events for next N days", category: "calendar" },
-  // Memory & Goals
-  { name: "save_memory", displayName: "Save Memory", description: "Save facts, preferences, and context", category: "memory" },
-  { name: "recall_memory", displayName: "Recall Memory", description: "Search or browse saved memories", category: "memory" },
-  { name: "gather_retro_data", displayName: "Gather Retro Data", description: "Collect data for retrospective", category: "memory" },
-  { name: "save_retro", displayName: "Save Retro", description: "Save a retrospective review", category: "memory" },
-  { name: "get_goals", displayName: "Get Goals", description: "Read current goals", category: "memory" },
-  { name: "update_goal", displayName: "Update Goal", description: "Update goal status and progress", category: "memory" },
-];
-
-export const TOOL_DISPLAY_NAMES: Record<string, string> = Object.fromEntries(
-  ALL_TOOLS.map((t) => [t.name, t.displayName])
-);
-
 // ─── Attachments ──────────────────────────────────────────────
 
 export type AttachmentType = "image" | "pdf" | "text";
@@ -330,6 +261,8 @@ export interface SavedConversation {
   id: string;
   title: string;
   messages: ChatMessage[];
+  /** Model history as last sent — compacted, with attachment context; missing in older saves */
+  history?: SimpleMessage[];
   mode: ChatMode;
   model: AIModel;
   createdAt: number;
@@ -0,0 +1,37 @@
+// ─── Vault storage abstraction (platform-agnostic) ─────────────
+
+/** Paths are vault-relative with forward slashes; "" is the vault root */
+export interface VaultEntry {
+  name: string;
+  path: string;
+  isFolder: boolean;
+}
+
+export interface VaultStat {
+  isFolder: boolean;
+  size: number;
+  /** Last modification time, in ms since epoch */
+  mtime: number;
+}
+
+/**
+ * Minimal file access the shared vault tools need. The plugin backs this with
+ * Obsidian's `Vault`, the server with `fs/promises` rooted at the vault path.
+ */
+export interface VaultBackend {
+  /** File content, or null if the file does not exist */
+  read(path: string): Promise<string | null>;
+  /** Create or overwrite a file, creating parent folders as needed */
+  write(path: string, content: string): Promise<void>;
+  /** Direct children of a folder, or null if the folder does not exist */
+  list(path: string): Promise<VaultEntry[] | null>;
+  /** File or folder metadata, or null if nothing exists at `path` */
+  stat(path: string): Promise<VaultStat | null>;
+  /** Move a file, creating the destination folder as needed */
+  rename(from: string, to: string): Promise<void>;
+  delete(path: string): Promise<void>;
+  /** Parsed YAML frontmatter, or null if the note has none */
+  readFrontmatter(path: string): Promise<Record<string, unknown> | null>;
+  /** Merge `properties` into the note's frontmatter */
+  updateFrontmatter(path: string, properties: Record<string, unknown>): Promise<void>;
+}
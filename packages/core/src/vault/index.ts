@@ -0,0 +1,10 @@
+export * from "./backend";
+export * from "./search";
+export {
+  SCHEDULED_ACTIONS,
+  VaultTools,
+  type EmbeddingKeys,
+  type ScheduledAction,
+  type ScheduledJob,
+  type TaskItem,
+} from "./vault-tools";
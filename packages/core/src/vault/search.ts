@@ -0,0 +1,67 @@
+// ─── BM25 + Vietnamese Normalization ──────────────────────────
+
+/** Strip diacritics so "ghi chú" matches "ghi chu" */
+export function normalizeVi(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+export function tokenize(text: string): string[] {
+  return normalizeVi(text).split(/[\s\p{P}]+/u).filter((t) => t.length > 0);
+}
+
+export function scoreBM25(query: string, docs: { id: string; text: string }[]): Map<string, number> {
+  const k1 = 1.5, b = 0.75;
+  const qTokens = tokenize(query);
+  if (qTokens.length === 0) return new Map();
+
+  const docTokens = docs.map((d) => tokenize(d.text));
+  const N = docs.length;
+  const avgDl = docTokens.reduce((s, t) => s + t.length, 0) / (N || 1);
+
+  const df = new Map<string, number>();
+  for (const qt of new Set(qTokens)) {
+    df.set(qt, docTokens.filter((dt) => dt.includes(qt)).length);
+  }
+
+  const scores = new Map<string, number>();
+  for (let i = 0; i < docs.length; i++) {
+    const tf = new Map<string, number>();
+    for (const t of docTokens[i]) tf.set(t, (tf.get(t) || 0) + 1);
+
+    let score = 0;
+    for (const qt of qTokens) {
+      const freq = tf.get(qt) || 0;
+      if (freq === 0) continue;
+      const idf = Math.log((N - (df.get(qt) || 0) + 0.5) / ((df.get(qt) || 0) + 0.5) + 1);
+      score += idf * (freq * (k1 + 1)) / (freq + k1 * (1 - b + b * docTokens[i].length / avgDl));
+    }
+    scores.set(docs[i].id, score);
+  }
+  return scores;
+}
+
+// ─── Cosine Similarity + Score Normalization ──────────────────
+
+export function cosineSim(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  const d = Math.sqrt(na) * Math.sqrt(nb);
+  return d === 0 ? 0 : dot / d;
+}
+
+/** Min-max scale scores into [0, 1] so BM25 and cosine can be blended */
+export function normScores(scores: Map<string, number>): Map<string, number> {
+  const vals = [...scores.values()];
+  const min = Math.min(...vals), max = Math.max(...vals);
+  const range = max - min;
+  const result = new Map<string, number>();
+  for (const [id, s] of scores) {
+    result.set(id, range === 0 ? (s > 0 ? 1 : 0) : (s - min) / range);
+  }
+  return result;
+}
@@ -1,9 +1,9 @@
-import { readFile, writeFile, readdir, stat, mkdir, rename, unlink, access } from "fs/promises";
-import { join, relative, dirname } from "path";
-import matter from "gray-matter";
+import type { HttpClient } from "../http";
+import type { VaultBackend } from "./backend";
+import { cosineSim, normalizeVi, normScores, scoreBM25 } from "./search";
 
 interface MemoryVectorEntry {
-  id: string;
+  id: string;       // "YYYY-MM-DD HH:MM" matching markdown heading
   content: string;
   type: string;
   vector: number[] | null;
@@ -11,27 +11,83 @@ interface MemoryVectorEntry {
 
 interface MemoryVectorStore {
   version: 1;
-  model: string;
+  model: string;   // e.g. "openai:1536" or "gemini:768" — invalidate if changed
   entries: MemoryVectorEntry[];
 }
 
-interface EmbeddingKeys {
+export interface EmbeddingKeys {
   openai?: string;
   gemini?: string;
 }
 
-export class ServerVaultTools {
+/** A `- [ ]` checkbox line found by findTasks */
+export interface TaskItem {
+  path: string;
+  /** 1-based, as toggleTask expects */
+  line: number;
+  text: string;
+  done: boolean;
+}
+
+interface MemoryBlock {
+  /** Heading text, "YYYY-MM-DD HH:MM" */
+  id: string;
+  date: string;
+  type: string;
+  body: string;
+}
+
+/** Split system/memories.md into its `## date time` / `Type: x` / body blocks */
+function parseMemoryBlocks(content: string): MemoryBlock[] {
+  return content.split(/^## /m).slice(1).map((block) => {
+    const lines = block.trim().split("\n");
+    const id = (lines[0] || "").trim();
+    return {
+      id,
+      date: id.split(" ")[0],
+      type: (lines[1] || "").replace("Type: ", "").trim(),
+      body: lines.slice(2).join("\n").trim(),
+    };
+  });
+}
+
+/** Built-in actions a scheduled job can run instead of a prompt */
+export const SCHEDULED_ACTIONS = ["briefing", "recap", "goals", "deadlines"] as const;
+export type ScheduledAction = (typeof SCHEDULED_ACTIONS)[number];
+
+/** A proactive job in system/schedules.json — run by the Telegram server */
+export interface ScheduledJob {
+  id: string;
+  /** Five-field cron expression, e.g. "0 9 * * 1" for Mondays at 9:00 */
+  cron: string;
+  /** IANA timezone; the user's own when unset */
+  timezone?: string;
+  /** Run through the AI with read-only tools; the answer is sent to the user */
+  prompt?: string;
+  action?: ScheduledAction;
+  /** false keeps the job in the file without running it */
+  enabled?: boolean;
+}
+
+const INLINE_TAG_REGEX = /(?:^|\s)(#[a-zA-Z\u00C0-\u024F][\w/-]*)/g;
+
+/**
+ * Vault, knowledge, memory and goal tools shared by the plugin and the server.
+ * All file access goes through a VaultBackend and all network access through an HttpClient.
+ */
+export class VaultTools {
   private embeddingKeys: EmbeddingKeys = {};
   private vectorCache: MemoryVectorStore | null = null;
   private readonly VECTORS_PATH = "system/memory-vectors.json";
   private readonly MEMORIES_PATH = "system/memories.md";
   private readonly GOALS_PATH = "system/goals.md";
+  readonly SCHEDULES_PATH = "system/schedules.json";
   private readonly SNAPSHOTS_DIR = "system/snapshots";
   private snapshotsEnabled = true;
   private maxSnapshotsPerFile = 3;
   private braveSearchApiKey = "";
 
-  constructor(private vaultPath: string) {}
+  constructor(protected backend: VaultBackend, protected http: HttpClient) {}
 
   setEmbeddingKeys(keys: EmbeddingKeys) {
     this.embeddingKeys = {
@@ -49,40 +105,48 @@ export class ServerVaultTools {
     this.braveSearchApiKey = key;
   }
 
-  private resolve(p: string): string {
-    const resolved = join(this.vaultPath, p);
-    if (!resolved.startsWith(this.vaultPath + "/") && resolved !== this.vaultPath) {
-      throw new Error(`Path traversal blocked: ${p}`);
+  /** Recursively list all .md files, skipping hidden folders */
+  protected async getAllMarkdownFiles(dir = ""): Promise<string[]> {
+    const entries = await this.backend.list(dir);
+    if (!entries) return [];
+    const results: string[] = [];
+    for (const entry of entries) {
+      if (entry.isFolder) {
+        if (entry.name.startsWith(".") || entry.name === "node_modules") continue;
+        results.push(...(await this.getAllMarkdownFiles(entry.path)));
+      } else if (entry.name.endsWith(".md")) {
+        results.push(entry.path);
+      }
     }
-    return resolved;
+    return results;
   }
 
-  private async fileExists(p: string): Promise<boolean> {
-    try {
-      await access(this.resolve(p));
-      return true;
-    } catch (e) {
-      console.debug("fileExists check failed", e);
-      return false;
+  /** Markdown files with their mtime, for the "recently modified" tools */
+  private async getMarkdownFilesWithMtime(): Promise<{ path: string; mtime: number }[]> {
+    const files: { path: string; mtime: number }[] = [];
+    for (const path of await this.getAllMarkdownFiles()) {
+      const s = await this.backend.stat(path);
+      if (s) files.push({ path, mtime: s.mtime });
     }
+    return files;
   }
 
-  private async ensureDir(filePath: string): Promise<void> {
-    await mkdir(dirname(this.resolve(filePath)), { recursive: true });
+  /** Raw note content, null when the file does not exist — for change previews */
+  readFile(path: string): Promise<string | null> {
+    return this.backend.read(path);
   }
 
-  private async readVaultFile(p: string): Promise<string | null> {
-    try {
-      return await readFile(this.resolve(p), "utf8");
-    } catch (e) {
-      console.debug("readVaultFile failed", e);
-      return null;
-    }
+  readFrontmatter(path: string): Promise<Record<string, unknown> | null> {
+    return this.backend.readFrontmatter(path);
   }
 
-  private async writeVaultFile(p: string, content: string): Promise<void> {
-    await this.ensureDir(p);
-    await writeFile(this.resolve(p), content, "utf8");
+  /** Put a file back to recorded content — null deletes it (undo of a file the tool created) */
+  async restoreFile(path: string, content: string | null): Promise<void> {
+    if (content !== null) {
+      await this.backend.write(path, content);
+    } else if (await this.backend.stat(path)) {
+      await this.backend.delete(path);
+    }
   }
 
   // ─── Snapshot Backup ─────────────────────────────────────────
@@ -90,70 +154,44 @@ export class ServerVaultTools {
   private async saveSnapshot(path: string, content: string): Promise<void> {
     const encoded = path.replace(/\//g, "--");
     const timestamp = new Date().toISOString().replace(/:/g, "-").replace(/\.\d+Z$/, "");
-    const snapshotDir = this.resolve(`${this.SNAPSHOTS_DIR}/${encoded}`);
-    const snapshotFile = join(snapshotDir, `${timestamp}.md`);
+    const folderPath = `${this.SNAPSHOTS_DIR}/${encoded}`;
 
-    await mkdir(snapshotDir, { recursive: true });
-    await writeFile(snapshotFile, content, "utf8");
+    await this.backend.write(`${folderPath}/${timestamp}.md`, content);
 
-    // Enforce retention
-    const files = (await readdir(snapshotDir))
-      .filter((f) => f.endsWith(".md"))
-      .sort();
+    // Enforce retention: keep only maxSnapshotsPerFile (timestamped names sort chronologically)
+    const files = ((await this.backend.list(folderPath)) || [])
+      .filter((f) => !f.isFolder && f.name.endsWith(".md"))
+      .sort((a, b) => a.name.localeCompare(b.name));
 
     while (files.length > this.maxSnapshotsPerFile) {
       const oldest = files.shift()!;
-      await unlink(join(snapshotDir, oldest));
+      await this.backend.delete(oldest.path);
     }
   }
 
   async getSnapshots(path: string): Promise<string> {
     const encoded = path.replace(/\//g, "--");
-    const dirPath = this.resolve(`${this.SNAPSHOTS_DIR}/${encoded}`);
-    try {
-      const files = (await readdir(dirPath))
-        .filter((f) => f.endsWith(".md"))
-        .sort()
-        .reverse();
-      if (files.length === 0) return `No snapshots found for: ${path}`;
-
-      const list = await Promise.all(files.map(async (f, i) => {
-        const s = await stat(join(dirPath, f));
-        const date = f.replace(".md", "").replace(/-(\d{2})-(\d{2})-(\d{2})$/, " $1:$2:$3");
-        return `${i + 1}. ${date} (${s.size} bytes) — ${this.SNAPSHOTS_DIR}/${encoded}/${f}`;
-      }));
-      return `Snapshots for ${path}:\n${list.join("\n")}`;
-    } catch (e) {
-      console.debug("getSnapshots failed", e);
-      return `No snapshots found for: ${path}`;
-    }
+    const entries = await this.backend.list(`${this.SNAPSHOTS_DIR}/${encoded}`);
+    const files = (entries || [])
+      .filter((f) => !f.isFolder && f.name.endsWith(".md"))
+      .sort((a, b) => b.name.localeCompare(a.name));
+
+    if (files.length === 0) return `No snapshots found for: ${path}`;
+
+    const list = await Promise.all(files.map(async (f, i) => {
+      const s = await this.backend.stat(f.path);
+      const date = f.name.replace(/\.md$/, "").replace(/-(\d{2})-(\d{2})-(\d{2})$/, " $1:$2:$3");
+      return `${i + 1}. ${date} (${s?.size ?? 0} bytes) — ${f.path}`;
+    }));
+    return `Snapshots for ${path}:\n${list.join("\n")}`;
   }
 
   async readSnapshot(snapshotPath: string): Promise<string> {
-    const content = await this.readVaultFile(snapshotPath);
+    const content = await this.backend.read(snapshotPath);
     if (content === null) return `Snapshot not found: ${snapshotPath}`;
     return content;
   }
 
-  /** Recursively list all .md files in vault */
-  private async getAllMarkdownFiles(dir?: string): Promise<string[]> {
-    const base = dir || this.vaultPath;
-    const results: string[] = [];
-    try {
-      const entries = await readdir(base, { withFileTypes: true });
-      for (const entry of entries) {
-        const fullPath = join(base, entry.name);
-        if (entry.isDirectory()) {
-          if (entry.name === ".obsidian" || entry.name === ".trash" || entry.name === "node_modules") continue;
-          results.push(...(await this.getAllMarkdownFiles(fullPath)));
-        } else if (entry.name.endsWith(".md")) {
-          results.push(relative(this.vaultPath, fullPath));
-        }
-      }
-    } catch (e) { console.debug("getAllMarkdownFiles: directory doesn't exist", e); }
-    return results;
-  }
-
   // ─── Embedding Support ────────────────────────────────────────
 
   private getEmbeddingProvider(): "openai" | "gemini" | null {
@@ -172,11 +210,12 @@ export class ServerVaultTools {
   private async loadVectorStore(): Promise<MemoryVectorStore> {
     if (this.vectorCache) return this.vectorCache;
     const modelId = this.getEmbeddingModelId() || "none";
-    const raw = await this.readVaultFile(this.VECTORS_PATH);
+    const raw = await this.backend.read(this.VECTORS_PATH);
     if (raw) {
       try {
         const parsed = JSON.parse(raw);
         if (parsed?.version === 1 && Array.isArray(parsed.entries)) {
+          // If embedding provider changed, invalidate all vectors
           if (parsed.model && parsed.model !== modelId) {
             for (const entry of parsed.entries) entry.vector = null;
             parsed.model = modelId;
@@ -193,7 +232,7 @@ export class ServerVaultTools {
 
   private async saveVectorStore(): Promise<void> {
     if (!this.vectorCache) return;
-    await this.writeVaultFile(this.VECTORS_PATH, JSON.stringify(this.vectorCache));
+    await this.backend.write(this.VECTORS_PATH, JSON.stringify(this.vectorCache));
   }
 
   private async getEmbedding(text: string): Promise<number[] | null> {
@@ -214,32 +253,36 @@ export class ServerVaultTools {
 
   private async getOpenAIEmbedding(text: string): Promise<number[] | null> {
     try {
-      const res = await fetch("https://api.openai.com/v1/embeddings", {
+      const res = await this.http({
+        url: "https://api.openai.com/v1/embeddings",
         method: "POST",
         headers: {
           Authorization: `Bearer ${this.embeddingKeys.openai}`,
           "Content-Type": "application/json",
         },
         body: JSON.stringify({ model: "text-embedding-3-large", input: text, dimensions: 1536 }),
+        throw: false,
       });
-      if (!res.ok) return null;
-      const data = await res.json() as { data?: { embedding?: number[] }[] };
+      if (res.status !== 200) return null;
+      const data = res.json as { data?: { embedding?: number[] }[] } | null;
       return data?.data?.[0]?.embedding || null;
     } catch (e) { console.debug("getOpenAIEmbedding failed", e); return null; }
   }
 
   private async getOpenAIEmbeddings(texts: string[]): Promise<(number[] | null)[]> {
     try {
-      const res = await fetch("https://api.openai.com/v1/embeddings", {
+      const res = await this.http({
+        url: "https://api.openai.com/v1/embeddings",
         method: "POST",
         headers: {
           Authorization: `Bearer ${this.embeddingKeys.openai}`,
           "Content-Type": "application/json",
         },
         body: JSON.stringify({ model: "text-embedding-3-large", input: texts, dimensions: 1536 }),
+        throw: false,
       });
-      if (!res.ok) return texts.map(() => null);
-      const data = await res.json() as { data?: { index: number; embedding: number[] }[] };
+      if (res.status !== 200) return texts.map(() => null);
+      const data = res.json as { data?: { index: number; embedding: number[] }[] } | null;
       const results: (number[] | null)[] = new Array(texts.length).fill(null);
       for (const item of data?.data || []) {
         if (item.index < texts.length) results[item.index] = item.embedding;
@@ -250,21 +293,21 @@ export class ServerVaultTools {
 
   private async getGeminiEmbedding(text: string): Promise<number[] | null> {
     try {
-      const res = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/text-embedding-004:embedContent?key=${this.embeddingKeys.gemini}`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ model: "models/text-embedding-004", content: { parts: [{ text }] } }),
-        },
-      );
-      if (!res.ok) return null;
-      const data = await res.json() as { embedding?: { values?: number[] } };
+      const res = await this.http({
+        url: `https://generativelanguage.googleapis.com/v1beta/models/text-embedding-004:embedContent?key=${this.embeddingKeys.gemini}`,
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ model: "models/text-embedding-004", content: { parts: [{ text }] } }),
+        throw: false,
+      });
+      if (res.status !== 200) return null;
+      const data = res.json as { embedding?: { values?: number[] } } | null;
       return data?.embedding?.values || null;
     } catch (e) { console.debug("getGeminiEmbedding failed", e); return null; }
   }
 
   private async getGeminiEmbeddings(texts: string[]): Promise<(number[] | null)[]> {
+    // Gemini batchEmbedContents supports up to 100 per request
     const results: (number[] | null)[] = new Array(texts.length).fill(null);
     try {
       for (let i = 0; i < texts.length; i += 100) {
@@ -273,123 +316,62 @@ export class ServerVaultTools {
           model: "models/text-embedding-004",
           content: { parts: [{ text }] },
         }));
-        const res = await fetch(
-          `https://generativelanguage.googleapis.com/v1beta/models/text-embedding-004:batchEmbedContents?key=${this.embeddingKeys.gemini}`,
-          {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ requests }),
-          },
-        );
-        if (!res.ok) continue;
-        const data = await res.json() as { embeddings?: { values?: number[] }[] };
+        const res = await this.http({
+          url: `https://generativelanguage.googleapis.com/v1beta/models/text-embedding-004:batchEmbedContents?key=${this.embeddingKeys.gemini}`,
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ requests }),
+          throw: false,
+        });
+        if (res.status !== 200) continue;
+        const data = res.json as { embeddings?: { values?: number[] }[] } | null;
         const embeddings = data?.embeddings || [];
         for (let j = 0; j < embeddings.length; j++) {
-          if (embeddings[j]?.values) results[i + j] = embeddings[j].values;
+          const values = embeddings[j]?.values;
+          if (values) results[i + j] = values;
         }
       }
       return results;
     } catch (e) { console.debug("getGeminiEmbeddings failed", e); return results; }
   }
 
-  // ─── BM25 + Vietnamese Normalization ──────────────────────────
-
-  private normalizeVi(text: string): string {
-    return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
-  }
-
-  private tokenize(text: string): string[] {
-    return this.normalizeVi(text).split(/[\s\p{P}]+/u).filter((t) => t.length > 0);
-  }
-
-  private scoreBM25(query: string, docs: { id: string; text: string }[]): Map<string, number> {
-    const k1 = 1.5, b = 0.75;
-    const qTokens = this.tokenize(query);
-    if (qTokens.length === 0) return new Map();
-
-    const docTokens = docs.map((d) => this.tokenize(d.text));
-    const N = docs.length;
-    const avgDl = docTokens.reduce((s, t) => s + t.length, 0) / (N || 1);
-
-    const df = new Map<string, number>();
-    for (const qt of new Set(qTokens)) {
-      df.set(qt, docTokens.filter((dt) => dt.includes(qt)).length);
-    }
-
-    const scores = new Map<string, number>();
-    for (let i = 0; i < docs.length; i++) {
-      const tf = new Map<string, number>();
-      for (const t of docTokens[i]) tf.set(t, (tf.get(t) || 0) + 1);
-
-      let score = 0;
-      for (const qt of qTokens) {
-        const freq = tf.get(qt) || 0;
-        if (freq === 0) continue;
-        const idf = Math.log((N - (df.get(qt) || 0) + 0.5) / ((df.get(qt) || 0) + 0.5) + 1);
-        score += idf * (freq * (k1 + 1)) / (freq + k1 * (1 - b + b * docTokens[i].length / avgDl));
-      }
-      scores.set(docs[i].id, score);
-    }
-    return scores;
-  }
-
-  private cosineSim(a: number[], b: number[]): number {
-    if (a.length !== b.length) return 0;
-    let dot = 0, na = 0, nb = 0;
-    for (let i = 0; i < a.length; i++) {
-      dot += a[i] * b[i];
-      na += a[i] * a[i];
-      nb += b[i] * b[i];
-    }
-    const d = Math.sqrt(na) * Math.sqrt(nb);
-    return d === 0 ? 0 : dot / d;
-  }
-
-  private normScores(scores: Map<string, number>): Map<string, number> {
-    const vals = [...scores.values()];
-    const min = Math.min(...vals), max = Math.max(...vals);
-    const range = max - min;
-    const result = new Map<string, number>();
-    for (const [id, s] of scores) {
-      result.set(id, range === 0 ? (s > 0 ? 1 : 0) : (s - min) / range);
-    }
-    return result;
-  }
-
   // ─── Vault Tools ──────────────────────────────────────────────
 
   async searchVault(query: string): Promise<string> {
     const files = await this.getAllMarkdownFiles();
     const queryLower = query.toLowerCase();
-    const queryNorm = this.normalizeVi(query);
+    const queryNorm = normalizeVi(query);
 
     const scored: { path: string; heading: string; score: number; matches: string[] }[] = [];
 
     for (const filePath of files) {
-      const content = await this.readVaultFile(filePath);
+      const content = await this.backend.read(filePath);
       if (!content) continue;
       const lines = content.split("\n");
       const matches: string[] = [];
       let score = 0;
 
+      // Extract first heading (H1 or first # line)
       const headingLine = lines.find((l) => /^#{1,2}\s/.test(l));
       const heading = headingLine ? headingLine.replace(/^#+\s*/, "").trim() : "";
 
-      const pathNorm = this.normalizeVi(filePath);
-      if (pathNorm.includes(queryNorm)) {
+      // Filename match (highest priority) — normalize Vietnamese diacritics
+      if (normalizeVi(filePath).includes(queryNorm)) {
         score += 100;
         matches.push("[filename match]");
       }
 
-      if (heading && this.normalizeVi(heading).includes(queryNorm)) {
+      // Heading match (high priority)
+      if (heading && normalizeVi(heading).includes(queryNorm)) {
         score += 50;
       }
 
+      // Content matches — search both original and normalized
       for (let i = 0; i < lines.length; i++) {
         const line = lines[i];
-        if (line.toLowerCase().includes(queryLower) || this.normalizeVi(line).includes(queryNorm)) {
+        if (line.toLowerCase().includes(queryLower) || normalizeVi(line).includes(queryNorm)) {
           matches.push(`L${i + 1}: ${line.trim()}`);
-          score += line.startsWith("#") ? 10 : 1;
+          score += line.startsWith("#") ? 10 : 1; // headings worth more
         }
       }
 
@@ -402,6 +384,7 @@ export class ServerVaultTools {
       return `No results found for "${query}".`;
     }
 
+    // Sort by relevance score descending
     scored.sort((a, b) => b.score - a.score);
 
     return scored
@@ -414,19 +397,19 @@ export class ServerVaultTools {
   }
 
   async readNote(path: string): Promise<string> {
-    const content = await this.readVaultFile(path);
+    const content = await this.backend.read(path);
     if (content === null) return `File not found: ${path}`;
     return content;
   }
 
   async writeNote(path: string, content: string): Promise<string> {
-    const oldContent = await this.readVaultFile(path);
+    const oldContent = await this.backend.read(path);
     if (oldContent !== null && this.snapshotsEnabled) {
       await this.saveSnapshot(path, oldContent).catch((e) =>
         console.warn("Snapshot save failed:", e)
       );
     }
-    await this.writeVaultFile(path, content);
+    await this.backend.write(path, content);
     if (oldContent !== null) {
       return this.snapshotsEnabled
         ? `Updated: ${path} (snapshot saved — use get_snapshots to view previous versions)`
@@ -436,55 +419,36 @@ export class ServerVaultTools {
   }
 
   async moveNote(from: string, to: string): Promise<string> {
-    if (!(await this.fileExists(from))) return `File not found: ${from}`;
-    await mkdir(dirname(this.resolve(to)), { recursive: true });
-    await rename(this.resolve(from), this.resolve(to));
+    if (!(await this.backend.stat(from))) return `File not found: ${from}`;
+    await this.backend.rename(from, to);
     return `Moved: ${from} → ${to}`;
   }
 
   async listFolder(path: string): Promise<string> {
-    const targetPath = path || ".";
-    const fullPath = targetPath === "." ? this.vaultPath : this.resolve(targetPath);
-    try {
-      const entries = await readdir(fullPath, { withFileTypes: true });
-      const items: string[] = [];
-      for (const entry of entries) {
-        if (entry.name.startsWith(".")) continue;
-        if (entry.isDirectory()) {
-          items.push(`📁 ${entry.name}/`);
-        } else {
-          items.push(`📄 ${entry.name}`);
-        }
-      }
-      return items.length > 0 ? items.join("\n") : "(empty folder)";
-    } catch (e) {
-      console.debug("listFolder failed", e);
-      return `Folder not found: ${path}`;
+    const targetPath = path === "/" || path === "." ? "" : path;
+    const entries = await this.backend.list(targetPath);
+    if (!entries) return `Folder not found: ${path}`;
+
+    const items: string[] = [];
+    for (const entry of entries) {
+      if (entry.name.startsWith(".")) continue;
+      items.push(entry.isFolder ? `📁 ${entry.name}/` : `📄 ${entry.name}`);
     }
+    return items.length > 0 ? items.join("\n") : "(empty folder)";
   }
 
   async getRecentNotes(days: number): Promise<string> {
     const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
-    const files = await this.getAllMarkdownFiles();
-
-    const recent: { path: string; mtime: number }[] = [];
-    for (const f of files) {
-      try {
-        const s = await stat(this.resolve(f));
-        if (s.mtimeMs > cutoff) {
-          recent.push({ path: f, mtime: s.mtimeMs });
-        }
-      } catch (e) { console.debug("getRecentNotes: stat failed", e); continue; }
-    }
-
-    recent.sort((a, b) => b.mtime - a.mtime);
+    const recent = (await this.getMarkdownFilesWithMtime())
+      .filter((f) => f.mtime > cutoff)
+      .sort((a, b) => b.mtime - a.mtime)
+      .slice(0, 30);
 
     if (recent.length === 0) {
       return `No notes modified in the last ${days} days.`;
     }
 
     return recent
-      .slice(0, 30)
       .map((f) => {
         const date = new Date(f.mtime).toISOString().split("T")[0];
         return `${date} — ${f.path}`;
@@ -495,65 +459,46 @@ export class ServerVaultTools {
   // ─── Knowledge Tools ─────────────────────────────────────────
 
   async appendNote(path: string, content: string): Promise<string> {
-    const existing = await this.readVaultFile(path);
+    const existing = await this.backend.read(path);
     if (existing === null) return `File not found: ${path}. Use write_note to create it first, or search_vault to find the correct path.`;
-    await this.writeVaultFile(path, existing + "\n" + content);
+    await this.backend.write(path, existing + "\n" + content);
     return `Appended to: ${path}`;
   }
 
   async readProperties(path: string): Promise<string> {
-    const content = await this.readVaultFile(path);
-    if (content === null) return `File not found: ${path}`;
-    try {
-      const { data } = matter(content);
-      if (Object.keys(data).length === 0) return "No frontmatter properties found.";
-      return JSON.stringify(data, null, 2);
-    } catch (e) {
-      console.debug("readProperties: frontmatter parse failed", e);
-      return "No frontmatter properties found.";
-    }
+    if (!(await this.backend.stat(path))) return `File not found: ${path}`;
+    const fm = await this.backend.readFrontmatter(path);
+    if (!fm || Object.keys(fm).length === 0) return "No frontmatter properties found.";
+    return JSON.stringify(fm, null, 2);
   }
 
   async updateProperties(path: string, properties: Record<string, unknown>): Promise<string> {
-    const content = await this.readVaultFile(path);
-    if (content === null) return `File not found: ${path}`;
-    const parsed = matter(content);
-    for (const [key, value] of Object.entries(properties)) {
-      parsed.data[key] = value;
-    }
-    const updated = matter.stringify(parsed.content, parsed.data);
-    await this.writeVaultFile(path, updated);
+    if (!(await this.backend.stat(path))) return `File not found: ${path}`;
+    await this.backend.updateFrontmatter(path, properties);
     return `Updated properties on: ${path}`;
   }
 
+  /** Frontmatter plus inline tags of one note, each with a leading "#" */
+  protected async getNoteTags(path: string): Promise<string[]> {
+    const content = await this.backend.read(path);
+    if (!content) return [];
+    const fm = await this.backend.readFrontmatter(path).catch((e) => {
+      console.debug("getNoteTags: frontmatter parse failed", e);
+      return null;
+    });
+    const fmTags = (Array.isArray(fm?.tags) ? fm.tags.map(String) : [])
+      .map((t: string) => t.startsWith("#") ? t : "#" + t);
+    const inline = (content.match(INLINE_TAG_REGEX) || []).map((m) => m.trim());
+    return [...inline, ...fmTags];
+  }
+
   async getTags(): Promise<string> {
-    const files = await this.getAllMarkdownFiles();
     const tagCounts: Record<string, number> = {};
-
-    for (const f of files) {
-      const content = await this.readVaultFile(f);
-      if (!content) continue;
-
-      // Frontmatter tags
-      try {
-        const { data } = matter(content);
-        const fmTags = Array.isArray(data.tags) ? data.tags.map(String) : [];
-        for (const t of fmTags) {
-          const tag = t.startsWith("#") ? t : "#" + t;
-          tagCounts[tag] = (tagCounts[tag] || 0) + 1;
-        }
-      } catch (e) { console.debug("getTags: frontmatter parse failed", e); }
-
-      // Inline tags
-      const tagMatches = content.match(/(?:^|\s)(#[a-zA-Z\u00C0-\u024F][\w/-]*)/g);
-      if (tagMatches) {
-        for (const m of tagMatches) {
-          const tag = m.trim();
-          tagCounts[tag] = (tagCounts[tag] || 0) + 1;
-        }
+    for (const f of await this.getAllMarkdownFiles()) {
+      for (const tag of await this.getNoteTags(f)) {
+        tagCounts[tag] = (tagCounts[tag] || 0) + 1;
       }
     }
-
     if (Object.keys(tagCounts).length === 0) return "No tags found in vault.";
     return Object.entries(tagCounts)
       .sort((a, b) => b[1] - a[1])
@@ -563,27 +508,10 @@ export class ServerVaultTools {
 
   async searchByTag(tag: string): Promise<string> {
     const normalized = tag.startsWith("#") ? tag : "#" + tag;
-    const files = await this.getAllMarkdownFiles();
     const results: string[] = [];
-
-    for (const f of files) {
-      const content = await this.readVaultFile(f);
-      if (!content) continue;
-
-      // Check frontmatter tags
-      let found = false;
-      try {
-        const { data } = matter(content);
-        const fmTags = (Array.isArray(data.tags) ? data.tags.map(String) : []).map((t: string) => t.startsWith("#") ? t : "#" + t);
-        if (fmTags.includes(normalized)) found = true;
-      } catch (e) { console.debug("searchByTag: frontmatter parse failed", e); }
-
-      // Check inline tags
-      if (!found && content.includes(normalized)) found = true;
-
-      if (found) results.push(f);
+    for (const f of await this.getAllMarkdownFiles()) {
+      if ((await this.getNoteTags(f)).includes(normalized)) results.push(f);
     }
-
     return results.length > 0 ? results.join("\n") : `No notes found with tag ${normalized}`;
   }
 
@@ -596,22 +524,16 @@ export class ServerVaultTools {
     let recentCount = 0;
 
     for (const f of files) {
-      try {
-        const s = await stat(this.resolve(f));
-        totalSize += s.size;
-        if (now - s.mtimeMs < 7 * 24 * 60 * 60 * 1000) recentCount++;
-      } catch (e) { console.debug("getVaultStats: stat failed", e); continue; }
+      const s = await this.backend.stat(f);
+      if (!s) continue;
+      totalSize += s.size;
+      if (now - s.mtime < 7 * 24 * 60 * 60 * 1000) recentCount++;
 
       const parts = f.split("/");
       for (let i = 1; i < parts.length; i++) {
         folders.add(parts.slice(0, i).join("/"));
       }
-
-      const content = await this.readVaultFile(f);
-      if (content) {
-        const tagMatches = content.match(/(?:^|\s)(#[a-zA-Z\u00C0-\u024F][\w/-]*)/g);
-        if (tagMatches) tagMatches.forEach((m) => tagSet.add(m.trim()));
-      }
+      for (const tag of await this.getNoteTags(f)) tagSet.add(tag);
     }
 
     return [
@@ -626,19 +548,15 @@ export class ServerVaultTools {
   // ─── Graph Tools ────────────────────────────────────────────────
 
   async getBacklinks(path: string): Promise<string> {
-    const files = await this.getAllMarkdownFiles();
     const targetName = path.replace(/\.md$/, "").split("/").pop() || "";
+    // Matches [[target]] and [[target|alias]]
+    const linkPattern = new RegExp(`\\[\\[${targetName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(\\|[^\\]]*)?\\]\\]`, "i");
     const backlinks: string[] = [];
 
-    for (const f of files) {
+    for (const f of await this.getAllMarkdownFiles()) {
       if (f === path) continue;
-      const content = await this.readVaultFile(f);
-      if (!content) continue;
-      // Check for [[target]] or [[target|alias]] links
-      const linkPattern = new RegExp(`\\[\\[${targetName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(\\|[^\\]]*)?\\]\\]`, "i");
-      if (linkPattern.test(content)) {
-        backlinks.push(f);
-      }
+      const content = await this.backend.read(f);
+      if (content && linkPattern.test(content)) backlinks.push(f);
     }
 
     return backlinks.length > 0
@@ -647,16 +565,15 @@ export class ServerVaultTools {
   }
 
   async getOutgoingLinks(path: string): Promise<string> {
-    const content = await this.readVaultFile(path);
+    const content = await this.backend.read(path);
     if (content === null) return `File not found: ${path}`;
     const linkRegex = /\[\[([^\]|]+)(?:\|[^\]]*)?\]\]/g;
     const links: string[] = [];
     let match;
     while ((match = linkRegex.exec(content)) !== null) {
       const target = match[1];
-      // Check if target file exists
       const targetPath = target.endsWith(".md") ? target : target + ".md";
-      const exists = await this.fileExists(targetPath);
+      const exists = await this.backend.stat(targetPath);
       links.push(`[[${target}]] (${exists ? "exists" : "missing"})`);
     }
     if (links.length === 0) return "No outgoing links found.";
@@ -666,49 +583,46 @@ export class ServerVaultTools {
   // ─── Task Tools ─────────────────────────────────────────────────
 
   async getTasks(path: string, includeCompleted = true): Promise<string> {
+    const tasks = await this.findTasks(path, includeCompleted);
+    if (tasks === null) return `Path not found: ${path}`;
+
+    return tasks.length > 0
+      ? tasks.slice(0, 100).map((t) => `${t.done ? "[x]" : "[ ]"} ${t.text} — ${t.path}:${t.line}`).join("\n")
+      : "No tasks found.";
+  }
+
+  /** Checkbox tasks in a file, a folder, or the whole vault (empty path); null when the path doesn't exist */
+  async findTasks(path: string, includeCompleted = true): Promise<TaskItem[] | null> {
     let files: string[];
     if (!path) {
       files = await this.getAllMarkdownFiles();
     } else {
-      const fullPath = this.resolve(path);
-      try {
-        const s = await stat(fullPath);
-        if (s.isDirectory()) {
-          const all = await this.getAllMarkdownFiles();
-          files = all.filter((f) => f.startsWith(path));
-        } else {
-          files = [path];
-        }
-      } catch (e) {
-        console.debug("getTasks: path not found", e);
-        return `Path not found: ${path}`;
-      }
+      const s = await this.backend.stat(path);
+      if (!s) return null;
+      files = s.isFolder
+        ? (await this.getAllMarkdownFiles()).filter((f) => f.startsWith(path))
+        : [path];
     }
 
-    const results: string[] = [];
+    const tasks: TaskItem[] = [];
     for (const f of files.slice(0, 50)) {
-      const content = await this.readVaultFile(f);
+      const content = await this.backend.read(f);
       if (!content) continue;
       const lines = content.split("\n");
       for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        const match = line.match(/^(\s*)-\s*\[([ xX])\]\s*(.*)/);
+        const match = lines[i].match(/^(\s*)-\s*\[([ xX])\]\s*(.*)/);
         if (match) {
           const done = match[2] !== " ";
           if (!includeCompleted && done) continue;
-          const status = done ? "[x]" : "[ ]";
-          results.push(`${status} ${match[3].trim()} — ${f}:${i + 1}`);
+          tasks.push({ path: f, line: i + 1, text: match[3].trim(), done });
         }
       }
     }
-
-    return results.length > 0
-      ? results.slice(0, 100).join("\n")
-      : "No tasks found.";
+    return tasks;
   }
 
   async toggleTask(path: string, line: number): Promise<string> {
-    const content = await this.readVaultFile(path);
+    const content = await this.backend.read(path);
     if (content === null) return `File not found: ${path}`;
     const lines = content.split("\n");
     const idx = line - 1;
@@ -717,13 +631,13 @@ export class ServerVaultTools {
     if (!taskMatch) return `Line ${line} is not a task.`;
     const newStatus = taskMatch[2] === " " ? "x" : " ";
     lines[idx] = taskMatch[1] + newStatus + taskMatch[3];
-    await this.writeVaultFile(path, lines.join("\n"));
+    await this.backend.write(path, lines.join("\n"));
     return `Toggled task at line ${line}: ${newStatus === "x" ? "done" : "undone"}`;
   }
 
   // ─── Daily Tools ────────────────────────────────────────────────
 
-  private getDailyNotePath(dateStr?: string): string {
+  getDailyNotePath(dateStr?: string): string {
     const date = dateStr ? new Date(dateStr + "T00:00:00") : new Date();
     const yyyy = date.getFullYear();
     const mm = String(date.getMonth() + 1).padStart(2, "0");
@@ -733,23 +647,26 @@ export class ServerVaultTools {
 
   async getDailyNote(date?: string): Promise<string> {
     const path = this.getDailyNotePath(date);
-    const content = await this.readVaultFile(path);
+    const content = await this.backend.read(path);
     if (content === null) return `Daily note not found: ${path}`;
     return content;
   }
 
   async createDailyNote(date?: string, content?: string): Promise<string> {
     const path = this.getDailyNotePath(date);
-    if (await this.fileExists(path)) return `Daily note already exists: ${path}. Use read or append instead.`;
+    if (await this.backend.stat(path)) return `Daily note already exists: ${path}. Use read or append instead.`;
 
+    await this.backend.write(path, content || this.getDailyNoteTemplate(date));
+    return `Created daily note: ${path}`;
+  }
+
+  /** Body of a new daily note created without content: a date heading */
+  getDailyNoteTemplate(date?: string): string {
     const dateObj = date ? new Date(date + "T00:00:00") : new Date();
     const heading = dateObj.toLocaleDateString("en-US", {
       weekday: "long", year: "numeric", month: "long", day: "numeric",
     });
-    const body = content || `# ${heading}\n\n`;
-
-    await this.writeVaultFile(path, body);
-    return `Created daily note: ${path}`;
+    return `# ${heading}\n\n`;
   }
 
   // ─── Web Tools ────────────────────────────────────────────────
@@ -759,6 +676,7 @@ export class ServerVaultTools {
       try {
         return await this.braveSearch(query);
       } catch (e) {
+        // Fallback to DuckDuckGo on Brave failure (quota exceeded, invalid key, etc.)
         console.warn("Brave Search failed, falling back to DuckDuckGo:", (e as Error).message);
       }
     }
@@ -772,23 +690,25 @@ export class ServerVaultTools {
       text_decorations: "false",
     });
 
-    const res = await fetch(`https://api.search.brave.com/res/v1/web/search?${params.toString()}`, {
+    const res = await this.http({
+      url: `https://api.search.brave.com/res/v1/web/search?${params.toString()}`,
       method: "GET",
       headers: {
         "Accept": "application/json",
         "Accept-Encoding": "gzip",
         "X-Subscription-Token": this.braveSearchApiKey,
       },
+      throw: false,
     });
 
-    if (!res.ok) {
+    if (res.status !== 200) {
       throw new Error(`Brave API error: HTTP ${res.status}`);
     }
 
-    const data = await res.json() as { web?: { results?: { title: string; url: string; description?: string }[] } };
+    const data = res.json as { web?: { results?: { title: string; url: string; description?: string }[] } } | null;
     const results: string[] = [];
 
-    if (data.web?.results) {
+    if (data?.web?.results) {
       for (let i = 0; i < Math.min(data.web.results.length, 8); i++) {
         const r = data.web.results[i];
         const snippet = r.description || "";
@@ -802,13 +722,15 @@ export class ServerVaultTools {
   }
 
   private async duckDuckGoSearch(query: string): Promise<string> {
-    const res = await fetch("https://html.duckduckgo.com/html/", {
+    const res = await this.http({
+      url: "https://html.duckduckgo.com/html/",
       method: "POST",
       headers: { "Content-Type": "application/x-www-form-urlencoded" },
       body: `q=${encodeURIComponent(query)}`,
+      throw: false,
     });
 
-    const html = await res.text();
+    const html = res.text;
     const results: string[] = [];
 
     const linkRegex = /<a[^>]+class="result__a"[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/g;
@@ -864,11 +786,11 @@ export class ServerVaultTools {
     }
 
     try {
-      const res = await fetch(url);
-      if (!res.ok) return `Failed to fetch ${url}: HTTP ${res.status}`;
+      const res = await this.http({ url, method: "GET", headers: {}, throw: false });
+      if (res.status !== 200) return `Failed to fetch ${url}: HTTP ${res.status}`;
 
-      const contentType = res.headers.get("content-type") || "";
-      let text = await res.text();
+      const contentType = res.headers?.["content-type"] || "";
+      let text = res.text;
 
       if (contentType.includes("text/html")) {
         text = text
@@ -908,15 +830,15 @@ export class ServerVaultTools {
     const timeStr = now.toTimeString().slice(0, 5);
     const entry = `\n## ${dateStr} ${timeStr}\nType: ${memoryType}\n${content}\n`;
 
-    const existing = await this.readVaultFile(this.MEMORIES_PATH);
+    const existing = await this.backend.read(this.MEMORIES_PATH);
     if (existing !== null) {
-      await this.writeVaultFile(this.MEMORIES_PATH, existing + entry);
+      await this.backend.write(this.MEMORIES_PATH, existing + entry);
     } else {
       const header = "# Memories\n\n> Auto-managed by Life Companion AI. Each entry is a saved memory.\n";
-      await this.writeVaultFile(this.MEMORIES_PATH, header + entry);
+      await this.backend.write(this.MEMORIES_PATH, header + entry);
     }
 
-    // Add to vector store + embed
+    // Add to vector store + embed inline
     const id = `${dateStr} ${timeStr}`;
     const store = await this.loadVectorStore();
     store.entries.push({ id, content, type: memoryType, vector: null });
@@ -934,23 +856,10 @@ export class ServerVaultTools {
 
   async recallMemory(query?: string, days?: number, limit?: number): Promise<string> {
     const maxEntries = limit || 10;
-    const content = await this.readVaultFile(this.MEMORIES_PATH);
+    const content = await this.backend.read(this.MEMORIES_PATH);
     if (content === null) return "No memories saved yet.";
 
-    const entries: { date: string; type: string; content: string }[] = [];
-    const blocks = content.split(/^## /m).slice(1);
-
-    for (const block of blocks) {
-      const lines = block.trim().split("\n");
-      const dateLine = lines[0] || "";
-      const typeLine = lines[1] || "";
-      const bodyLines = lines.slice(2).join("\n").trim();
-      const dateStr = dateLine.split(" ")[0];
-      const memType = typeLine.replace("Type: ", "").trim();
-      entries.push({ date: dateStr, type: memType, content: bodyLines });
-    }
-
-    let filtered = entries;
+    let filtered = parseMemoryBlocks(content);
 
     if (days) {
       const cutoff = new Date();
@@ -960,8 +869,9 @@ export class ServerVaultTools {
     }
 
     if (query) {
-      const docs = filtered.map((e, i) => ({ id: String(i), text: `${e.type} ${e.content}` }));
-      const bm25 = this.normScores(this.scoreBM25(query, docs));
+      // Hybrid ranking: BM25 keyword score blended with embedding similarity when available
+      const docs = filtered.map((e, i) => ({ id: String(i), text: `${e.type} ${e.body}` }));
+      const bm25 = normScores(scoreBM25(query, docs));
 
       let cosineScores: Map<string, number> | null = null;
       if (this.getEmbeddingProvider()) {
@@ -972,10 +882,10 @@ export class ServerVaultTools {
             const raw = new Map<string, number>();
             for (let i = 0; i < filtered.length; i++) {
               const e = filtered[i];
-              const ve = store.entries.find((v) => v.content === e.content && v.type === e.type);
-              raw.set(String(i), ve?.vector ? this.cosineSim(qVec, ve.vector) : 0);
+              const ve = store.entries.find((v) => v.content === e.body && v.type === e.type);
+              raw.set(String(i), ve?.vector ? cosineSim(qVec, ve.vector) : 0);
             }
-            cosineScores = this.normScores(raw);
+            cosineScores = normScores(raw);
           }
         } catch (e) { console.debug("recallMemory: embedding fallback to BM25 only", e); }
       }
@@ -998,7 +908,7 @@ export class ServerVaultTools {
       return query ? `No memories found matching "${query}".` : "No memories found.";
     }
 
-    return filtered.map((e) => `## ${e.date}\nType: ${e.type}\n${e.content}`).join("\n\n");
+    return filtered.map((e) => `## ${e.date}\nType: ${e.type}\n${e.body}`).join("\n\n");
   }
 
   async gatherRetroData(startDate: string, endDate: string): Promise<string> {
@@ -1011,8 +921,7 @@ export class ServerVaultTools {
     const current = new Date(start);
     while (current <= end) {
       const dateStr = current.toISOString().slice(0, 10);
-      const path = `daily/${dateStr}.md`;
-      const content = await this.readVaultFile(path);
+      const content = await this.backend.read(`daily/${dateStr}.md`);
       if (content) {
         dailyNotes.push(`### ${dateStr}\n${content.slice(0, 500)}`);
       }
@@ -1023,20 +932,17 @@ export class ServerVaultTools {
     }
 
     // 2. Memories in range
-    const memContent = await this.readVaultFile(this.MEMORIES_PATH);
+    const memContent = await this.backend.read(this.MEMORIES_PATH);
     if (memContent) {
-      const memBlocks = memContent.split(/^## /m).slice(1);
-      const inRange = memBlocks.filter((block) => {
-        const dateStr = block.trim().split(" ")[0];
-        return dateStr >= startDate && dateStr <= endDate;
-      });
+      const inRange = parseMemoryBlocks(memContent)
+        .filter((m) => m.date >= startDate && m.date <= endDate);
       if (inRange.length > 0) {
-        sections.push(`## Memories\n${inRange.map((b) => `## ${b.trim()}`).join("\n\n")}`);
+        sections.push(`## Memories\n${inRange.map((m) => `## ${m.id}\nType: ${m.type}\n${m.body}`).join("\n\n")}`);
       }
     }
 
     // 3. Goals
-    const goalsContent = await this.readVaultFile(this.GOALS_PATH);
+    const goalsContent = await this.backend.read(this.GOALS_PATH);
     if (goalsContent) {
       sections.push(`## Current Goals\n${goalsContent}`);
     }
@@ -1044,21 +950,13 @@ export class ServerVaultTools {
     // 4. Recently modified notes in range
     const startMs = start.getTime();
     const endMs = end.getTime() + 24 * 60 * 60 * 1000;
-    const allFiles = await this.getAllMarkdownFiles();
-    const recentFiles: { path: string; mtime: number }[] = [];
-    for (const f of allFiles) {
-      if (f.startsWith("daily/") || f.startsWith("system/")) continue;
-      try {
-        const s = await stat(this.resolve(f));
-        if (s.mtimeMs >= startMs && s.mtimeMs <= endMs) {
-          recentFiles.push({ path: f, mtime: s.mtimeMs });
-        }
-      } catch (e) { console.debug("gatherRetroData: stat failed", e); continue; }
-    }
-    recentFiles.sort((a, b) => b.mtime - a.mtime);
+    const recentFiles = (await this.getMarkdownFilesWithMtime())
+      .filter((f) => f.mtime >= startMs && f.mtime <= endMs)
+      .filter((f) => !f.path.startsWith("daily/") && !f.path.startsWith("system/"))
+      .sort((a, b) => b.mtime - a.mtime)
+      .slice(0, 15);
     if (recentFiles.length > 0) {
       const noteList = recentFiles
-        .slice(0, 15)
         .map((f) => `- ${new Date(f.mtime).toISOString().slice(0, 10)} — ${f.path}`)
         .join("\n");
       sections.push(`## Modified Notes\n${noteList}`);
@@ -1074,13 +972,25 @@ export class ServerVaultTools {
   async saveRetro(period: string, content: string): Promise<string> {
     const dateStr = new Date().toISOString().slice(0, 10);
     const path = `system/retro/${dateStr}-${period}.md`;
-    const existed = await this.fileExists(path);
-    await this.writeVaultFile(path, content);
+    const existed = !!(await this.backend.stat(path));
+    await this.backend.write(path, content);
     return existed ? `Updated retro: ${path}` : `Created retro: ${path}`;
   }
 
+  /** Retros saved on `date` (YYYY-MM-DD), joined; empty when there are none */
+  async getRetros(date: string): Promise<string> {
+    const entries = (await this.backend.list("system/retro")) ?? [];
+    const parts: string[] = [];
+    for (const entry of entries) {
+      if (entry.isFolder || !entry.name.startsWith(date)) continue;
+      const content = await this.backend.read(entry.path);
+      if (content) parts.push(content.trim());
+    }
+    return parts.join("\n\n");
+  }
+
   async getGoals(): Promise<string> {
-    const content = await this.readVaultFile(this.GOALS_PATH);
+    const content = await this.backend.read(this.GOALS_PATH);
     if (content === null) {
       return "No goals file found. Use update_goal to create your first goal.";
     }
@@ -1092,12 +1002,12 @@ export class ServerVaultTools {
     updates: { status?: string; progress?: string; target?: string },
   ): Promise<string> {
     const dateStr = new Date().toISOString().slice(0, 10);
-    const content = await this.readVaultFile(this.GOALS_PATH);
+    const content = await this.backend.read(this.GOALS_PATH);
+    const newGoal = `## \u{1F3AF} ${title}\n- Target: ${updates.target || "TBD"}\n- Status: ${updates.status || "In Progress"}\n- Progress: ${updates.progress || "(no progress notes yet)"}\n- Last updated: ${dateStr}\n`;
 
     if (content === null) {
-      const newGoal = `## \u{1F3AF} ${title}\n- Target: ${updates.target || "TBD"}\n- Status: ${updates.status || "In Progress"}\n- Progress: ${updates.progress || "(no progress notes yet)"}\n- Last updated: ${dateStr}\n`;
       const header = "# Goals\n\n> Track your life goals here. Managed by Life Companion AI.\n\n";
-      await this.writeVaultFile(this.GOALS_PATH, header + newGoal);
+      await this.backend.write(this.GOALS_PATH, header + newGoal);
       return `Created goals file with goal: ${title}`;
     }
 
@@ -1106,11 +1016,11 @@ export class ServerVaultTools {
     const match = content.match(goalPattern);
 
     if (!match || match.index === undefined) {
-      const newGoal = `\n## \u{1F3AF} ${title}\n- Target: ${updates.target || "TBD"}\n- Status: ${updates.status || "In Progress"}\n- Progress: ${updates.progress || "(no progress notes yet)"}\n- Last updated: ${dateStr}\n`;
-      await this.writeVaultFile(this.GOALS_PATH, content + newGoal);
+      await this.backend.write(this.GOALS_PATH, content + "\n" + newGoal);
       return `Added new goal: ${title}`;
     }
 
+    // Edit only this goal's block — up to the next "## " heading
     const startIdx = match.index;
     const rest = content.slice(startIdx);
     const nextHeading = rest.indexOf("\n## ", 1);
@@ -1129,32 +1039,59 @@ export class ServerVaultTools {
     goalBlock = goalBlock.replace(/- Last updated: .+/, `- Last updated: ${dateStr}`);
 
     const newContent = content.slice(0, startIdx) + goalBlock + content.slice(endIdx);
-    await this.writeVaultFile(this.GOALS_PATH, newContent);
+    await this.backend.write(this.GOALS_PATH, newContent);
     return `Updated goal: ${title}`;
   }
 
+  // ─── Scheduled Jobs ─────────────────────────────────────────────
+
+  /** Jobs from system/schedules.json; null when the file doesn't exist. Throws on invalid JSON. */
+  async getScheduledJobs(): Promise<ScheduledJob[] | null> {
+    const content = await this.backend.read(this.SCHEDULES_PATH);
+    if (content === null) return null;
+    const parsed: unknown = JSON.parse(content);
+    if (!Array.isArray(parsed)) throw new Error(`${this.SCHEDULES_PATH} must contain a JSON array of jobs`);
+    return parsed as ScheduledJob[];
+  }
+
+  /** Add a job, or replace the one with the same id */
+  async scheduleJob(job: ScheduledJob): Promise<string> {
+    if (!/^\S+(\s+\S+){4}$/.test(job.cron.trim())) {
+      return `Invalid cron expression "${job.cron}" — use five fields: minute hour day-of-month month day-of-week, e.g. "0 9 * * 1".`;
+    }
+    if (!job.prompt === !job.action) {
+      return `Give a job either a prompt or an action (${SCHEDULED_ACTIONS.join(", ")}), not both.`;
+    }
+
+    let jobs: ScheduledJob[];
+    try {
+      jobs = (await this.getScheduledJobs()) ?? [];
+    } catch (e) {
+      return `Could not read ${this.SCHEDULES_PATH}: ${(e as Error).message}. Fix the file before adding jobs.`;
+    }
+    const existed = jobs.some((j) => j.id === job.id);
+    const next = [...jobs.filter((j) => j.id !== job.id), { ...job, cron: job.cron.trim() }];
+    await this.backend.write(this.SCHEDULES_PATH, JSON.stringify(next, null, 2) + "\n");
+    return `${existed ? "Updated" : "Scheduled"} job "${job.id}" (${job.cron.trim()}${job.enabled === false ? ", disabled" : ""}).`;
+  }
+
+  /** Embed every memory that has no vector yet (new install or embedding provider changed) */
   async backfillEmbeddings(): Promise<string> {
     if (!this.getEmbeddingProvider()) return "No API key.";
-    const content = await this.readVaultFile(this.MEMORIES_PATH);
+    const content = await this.backend.read(this.MEMORIES_PATH);
     if (content === null) return "No memories.";
 
-    const blocks = content.split(/^## /m).slice(1);
     const store = await this.loadVectorStore();
 
     const toEmbed: { idx: number; text: string }[] = [];
-    for (const block of blocks) {
-      const lines = block.trim().split("\n");
-      const id = (lines[0] || "").trim();
-      const memType = (lines[1] || "").replace("Type: ", "").trim();
-      const body = lines.slice(2).join("\n").trim();
-
-      let entry = store.entries.find((e) => e.id === id);
+    for (const block of parseMemoryBlocks(content)) {
+      let entry = store.entries.find((e) => e.id === block.id);
       if (!entry) {
-        entry = { id, content: body, type: memType, vector: null };
+        entry = { id: block.id, content: block.body, type: block.type, vector: null };
         store.entries.push(entry);
       }
       if (!entry.vector) {
-        toEmbed.push({ idx: store.entries.indexOf(entry), text: body });
+        toEmbed.push({ idx: store.entries.indexOf(entry), text: block.body });
       }
     }
 
@@ -1162,7 +1099,8 @@ export class ServerVaultTools {
       const batch = toEmbed.slice(i, i + 50);
       const vectors = await this.getEmbeddings(batch.map((b) => b.text));
       for (let j = 0; j < batch.length; j++) {
-        if (vectors[j]) store.entries[batch[j].idx].vector = vectors[j];
+        const vector = vectors[j];
+        if (vector) store.entries[batch[j].idx].vector = vector;
       }
     }
 
@@ -1170,14 +1108,15 @@ export class ServerVaultTools {
     return `Backfilled ${toEmbed.length} memories.`;
   }
 
+  // ─── Context helpers (system prompt, briefings) ───────────────
+
   async getRecentMemories(limit: number = 10): Promise<string> {
     return this.recallMemory(undefined, undefined, limit);
   }
 
   async getPendingDailyTasks(): Promise<string> {
     const today = new Date().toISOString().slice(0, 10);
-    const path = `daily/${today}.md`;
-    const content = await this.readVaultFile(path);
+    const content = await this.backend.read(`daily/${today}.md`);
     if (content === null) return "";
 
     const pending: string[] = [];
@@ -1189,22 +1128,12 @@ export class ServerVaultTools {
   }
 
   async getPreferenceContext(): Promise<string> {
-    const content = await this.readVaultFile(this.MEMORIES_PATH);
+    const content = await this.backend.read(this.MEMORIES_PATH);
     if (content === null) return "";
 
-    const blocks = content.split(/^## /m).slice(1);
-    const preferences: string[] = [];
-
-    for (const block of blocks) {
-      const lines = block.trim().split("\n");
-      const typeLine = lines[1] || "";
-      const memType = typeLine.replace("Type: ", "").trim();
-      if (memType !== "preference") continue;
-      const body = lines.slice(2).join(" ").trim();
-      if (body) preferences.push(`- ${body}`);
-    }
-
-    if (preferences.length === 0) return "";
+    const preferences = parseMemoryBlocks(content)
+      .filter((m) => m.type === "preference" && m.body)
+      .map((m) => `- ${m.body.replace(/\n/g, " ")}`);
     return preferences.join("\n");
   }
 }
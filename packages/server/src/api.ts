@@ -0,0 +1,510 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import express from "express";
+import {
+  getToolPolicy,
+  listTools,
+  previewTool,
+  toSavedConversation,
+  type AIClient,
+  type ChatMode,
+  type ConversationState,
+  type ToolDecision,
+} from "@life-companion/core";
+import { availableModels, runChatTurn } from "./chat";
+import { serverPrivateFiles, type ServerConfig } from "./config";
+import { VaultSync } from "./sync";
+import { PROFILE_SETTINGS, SERVER_SETTINGS, validateSettings, type SettingsStore } from "./settings";
+import { MIN_WEB_PASSWORD_LENGTH, newConversation, type UserRegistry, type UserSession } from "./users";
+
+/** Server-sent event names of a streamed reply */
+type ChatEvent = "text" | "thinking" | "tool_use" | "tool_result" | "approval" | "done" | "error";
+
+interface PendingApproval {
+  /** The chat whose message asked for the tool — only it may answer */
+  chatId: string;
+  resolve: (decision: ToolDecision) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/** Conversation ids are timestamps; anything else could reach outside the conversations folder */
+const CONVERSATION_ID = /^[\w-]+$/;
+
+/** How long a web chat login lasts */
+const LOGIN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Slows down password guessing */
+const FAILED_LOGIN_DELAY_MS = 1000;
+
+/** Largest file a sync client may push — attachments included */
+const SYNC_MAX_FILE_SIZE = "50mb";
+
+/** Keeps idle sync streams open through proxies */
+const SYNC_HEARTBEAT_MS = 30_000;
+
+function sha256(text: string): Buffer {
+  return createHash("sha256").update(text).digest();
+}
+
+function sign(secret: string, payload: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+/** "<chat id>.<expiry>.<signature>", signed with API_TOKEN — changing the token logs everyone out */
+function createLoginToken(secret: string, chatId: string): string {
+  const payload = `${Buffer.from(chatId).toString("base64url")}.${Date.now() + LOGIN_TTL_MS}`;
+  return `${payload}.${sign(secret, payload)}`;
+}
+
+/** The chat id a login token was issued to; null when it is forged or expired */
+function verifyLoginToken(secret: string, token: string): string | null {
+  const [chatId, expires, signature] = token.split(".");
+  if (!chatId || !expires || !signature) return null;
+  const expected = Buffer.from(sign(secret, `${chatId}.${expires}`));
+  const given = Buffer.from(signature);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+  if (Number(expires) < Date.now()) return null;
+  return Buffer.from(chatId, "base64url").toString();
+}
+
+/** Express 4 doesn't catch rejected handlers — pass the error on to the error middleware */
+function route(handler: (req: express.Request, res: express.Response) => Promise<void>): express.RequestHandler {
+  return (req, res, next) => {
+    handler(req, res).catch(next);
+  };
+}
+
+/** The active conversation is shared with Telegram; others are read from the vault */
+async function findConversation(session: UserSession, id: string): Promise<ConversationState | null> {
+  if (session.conversation.id === id) return session.conversation;
+  if (!CONVERSATION_ID.test(id)) return null;
+  return session.conversations.load(id);
+}
+
+/**
+ * HTTP API for scripts, shortcuts and the web chat, mounted at /api/v1. Requests
+ * carry `Authorization: Bearer <token>`: API_TOKEN itself acts as the admin user,
+ * a token from POST /login or /join as the user who logged in. Replies stream as
+ * server-sent events; a "confirm" tool sends an `approval` event and waits for
+ * POST /approvals/:id, like the Approve/Reject buttons in Telegram.
+ */
+export function createApiRouter(
+  config: ServerConfig,
+  aiClient: AIClient,
+  users: UserRegistry,
+  settings: SettingsStore,
+): express.Router {
+  const router = express.Router();
+  const approvals = new Map<string, PendingApproval>();
+  /** One per vault, shared by every device syncing it */
+  const syncs = new Map<string, VaultSync>();
+  const secret = config.apiToken ?? "";
+  const expectedToken = sha256(secret);
+
+  const settle = (id: string, decision: ToolDecision) => {
+    const pending = approvals.get(id);
+    if (!pending) return false;
+    approvals.delete(id);
+    clearTimeout(pending.timer);
+    pending.resolve(decision);
+    return true;
+  };
+
+  /** Why a requested mode or model can't be used; null when both are fine or unset */
+  const checkSettings = (mode?: string, model?: string): string | null => {
+    if (mode !== undefined && mode !== "quick" && mode !== "dive") return "mode must be \"quick\" or \"dive\"";
+    if (model !== undefined && !availableModels(aiClient, config).some((m) => m.id === model)) {
+      return `Unknown or unavailable model: ${model}`;
+    }
+    return null;
+  };
+
+  router.use(express.json({ limit: "1mb" }));
+
+  // ─── Login (no token needed) ────────────────────────────
+
+  router.post("/login", route(async (req, res) => {
+    const { token, name, password } = (req.body ?? {}) as { token?: unknown; name?: unknown; password?: unknown };
+    let chatId: string | null = null;
+    if (typeof token === "string" && secret && timingSafeEqual(sha256(token), expectedToken)) {
+      chatId = config.telegramChatId;
+    } else if (typeof name === "string" && typeof password === "string") {
+      chatId = users.verifyWebPassword(name, password)?.chatId ?? null;
+    }
+    if (!chatId) {
+      await new Promise((resolve) => setTimeout(resolve, FAILED_LOGIN_DELAY_MS));
+      res.status(401).json({ error: "Wrong name or password" });
+      return;
+    }
+    res.json({ token: createLoginToken(secret, chatId) });
+  }));
+
+  /** Redeem a /invite code from the web chat — for people who don't use Telegram */
+  router.post("/join", route(async (req, res) => {
+    const { code, password } = (req.body ?? {}) as { code?: unknown; password?: unknown };
+    if (typeof password !== "string" || password.length < MIN_WEB_PASSWORD_LENGTH) {
+      res.status(400).json({ error: `Choose a password of at least ${MIN_WEB_PASSWORD_LENGTH} characters` });
+      return;
+    }
+    const user = typeof code === "string" ? await users.redeemInvite(code.trim()) : null;
+    if (!user) {
+      await new Promise((resolve) => setTimeout(resolve, FAILED_LOGIN_DELAY_MS));
+      res.status(400).json({ error: "That invite code is invalid or has expired" });
+      return;
+    }
+    await users.setWebPassword(user.chatId, password);
+    console.debug(`${user.name} joined from the web chat (vault ${user.vaultPath})`);
+    res.status(201).json({ token: createLoginToken(secret, user.chatId), name: user.name });
+  }));
+
+  router.use((req, res, next) => {
+    const token = req.get("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1] ?? "";
+    const chatId = !secret ? null
+      : timingSafeEqual(sha256(token), expectedToken) ? config.telegramChatId
+        : verifyLoginToken(secret, token);
+    if (!chatId) {
+      res.status(401).json({ error: "Missing or invalid API token" });
+      return;
+    }
+    users.session(chatId).then((session) => {
+      if (!session) {
+        res.status(401).json({ error: "This login's user no longer exists" });
+        return;
+      }
+      res.locals.session = session;
+      next();
+    }, next);
+  });
+
+  // ─── Authenticated ──────────────────────────────────────
+
+  router.get("/me", route(async (_req, res) => {
+    const { user } = res.locals.session as UserSession;
+    res.json({ name: user.name, admin: user.admin, language: user.language, model: user.model, timezone: user.timezone });
+  }));
+
+  router.get("/conversations", route(async (_req, res) => {
+    const session = res.locals.session as UserSession;
+    const saved = await session.conversations.list();
+    res.json(saved.map((c) => ({
+      id: c.id,
+      title: c.title,
+      mode: c.mode,
+      model: c.model,
+      messageCount: c.messages.length,
+      createdAt: c.createdAt,
+      updatedAt: c.updatedAt,
+      active: c.id === session.conversation.id,
+    })));
+  }));
+
+  router.post("/conversations", route(async (req, res) => {
+    const session = res.locals.session as UserSession;
+    const { mode, model, title } = (req.body ?? {}) as { mode?: string; model?: string; title?: string };
+    const invalid = checkSettings(mode, model);
+    if (invalid) {
+      res.status(400).json({ error: invalid });
+      return;
+    }
+
+    const conversation = newConversation(session.user, (mode as ChatMode | undefined) ?? session.conversation.mode);
+    if (model) conversation.model = model;
+    if (title) conversation.title = String(title);
+    await session.conversations.save(conversation);
+    res.status(201).json(toSavedConversation(conversation));
+  }));
+
+  router.get("/conversations/:id", route(async (req, res) => {
+    const conversation = await findConversation(res.locals.session as UserSession, req.params.id);
+    if (!conversation) {
+      res.status(404).json({ error: "Conversation not found" });
+      return;
+    }
+    res.json(toSavedConversation(conversation));
+  }));
+
+  router.patch("/conversations/:id", route(async (req, res) => {
+    const session = res.locals.session as UserSession;
+    const { mode, model } = (req.body ?? {}) as { mode?: string; model?: string };
+    const invalid = checkSettings(mode, model);
+    if (invalid) {
+      res.status(400).json({ error: invalid });
+      return;
+    }
+    const conversation = await findConversation(session, req.params.id);
+    if (!conversation) {
+      res.status(404).json({ error: "Conversation not found" });
+      return;
+    }
+
+    if (mode) conversation.mode = mode as ChatMode;
+    if (model) {
+      conversation.model = model;
+      // New conversations start on the last model picked, as with /model in Telegram
+      await users.update(session.user.chatId, { model });
+    }
+    await session.conversations.save(conversation);
+    res.json(toSavedConversation(conversation));
+  }));
+
+  router.post("/conversations/:id/messages", route(async (req, res) => {
+    const session = res.locals.session as UserSession;
+    const text = typeof req.body?.text === "string" ? req.body.text.trim() : "";
+    if (!text) {
+      res.status(400).json({ error: "text is required" });
+      return;
+    }
+    const conversation = await findConversation(session, req.params.id);
+    if (!conversation) {
+      res.status(404).json({ error: "Conversation not found" });
+      return;
+    }
+    if (session.processing) {
+      res.status(409).json({ error: "Still processing the previous message" });
+      return;
+    }
+
+    session.processing = true;
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    const send = (event: ChatEvent, data: unknown) => {
+      if (!res.writableEnded) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    // Stop the model when the client goes away; its pending approvals are rejected
+    const abort = new AbortController();
+    const waiting = new Set<string>();
+    res.on("close", () => {
+      abort.abort();
+      for (const id of waiting) settle(id, { approved: false, reason: "the client disconnected" });
+    });
+
+    try {
+      const { text: reply, usage } = await runChatTurn(aiClient, config, session, conversation, {
+        text,
+        abortSignal: abort.signal,
+        onText: (chunk) => send("text", { text: chunk }),
+        onThinking: (chunk) => send("thinking", { text: chunk }),
+        onToolUse: (name, input) => send("tool_use", { name, input }),
+        onToolResult: (name, result) => send("tool_result", { name, result }),
+        approveToolUse: async (name, input) => {
+          const id = randomBytes(8).toString("hex");
+          const preview = await previewTool({ vault: session.vaultTools, calendar: session.calendarManager }, name, input);
+          return new Promise<ToolDecision>((resolve) => {
+            const timer = setTimeout(() => {
+              settle(id, { approved: false, reason: `no answer within ${config.toolApprovalTimeoutSec}s` });
+            }, config.toolApprovalTimeoutSec * 1000);
+            approvals.set(id, { chatId: session.user.chatId, resolve, timer });
+            waiting.add(id);
+            send("approval", { id, name, input, preview });
+          });
+        },
+      });
+      send("done", { text: reply, usage, conversationId: conversation.id });
+    } catch (error) {
+      console.error("API message error:", (error as Error).message);
+      send("error", { error: (error as Error).message });
+    } finally {
+      session.processing = false;
+      res.end();
+    }
+  }));
+
+  router.post("/approvals/:id", route(async (req, res) => {
+    const { approved, reason } = (req.body ?? {}) as { approved?: unknown; reason?: unknown };
+    if (typeof approved !== "boolean") {
+      res.status(400).json({ error: "approved must be true or false" });
+      return;
+    }
+    const decision: ToolDecision = { approved, reason: typeof reason === "string" && reason ? reason : undefined };
+    // Another user's approval answers the same as an unknown id, so ids can't be probed
+    const session = res.locals.session as UserSession;
+    if (approvals.get(req.params.id)?.chatId !== session.user.chatId || !settle(req.params.id, decision)) {
+      res.status(404).json({ error: "No pending approval with that id" });
+      return;
+    }
+    res.status(204).end();
+  }));
+
+  router.get("/tools", route(async (_req, res) => {
+    res.json(listTools().map((t) => ({
+      name: t.name,
+      displayName: t.displayName,
+      summary: t.summary,
+      category: t.category,
+      writes: t.writes,
+      policy: getToolPolicy(t.name, config.toolPolicies),
+    })));
+  }));
+
+  router.get("/models", route(async (_req, res) => {
+    const session = res.locals.session as UserSession;
+    res.json(availableModels(aiClient, config).map((m) => ({ ...m, active: m.id === session.conversation.model })));
+  }));
+
+  // ─── Vault sync ─────────────────────────────────────────
+
+  const vaultSync = (session: UserSession): VaultSync => {
+    let sync = syncs.get(session.user.vaultPath);
+    if (!sync) {
+      sync = new VaultSync(session.user.vaultPath, serverPrivateFiles(config));
+      syncs.set(session.user.vaultPath, sync);
+    }
+    return sync;
+  };
+
+  /** The `path` query parameter, or a 400 when it's missing or outside what syncs */
+  const syncPath = (req: express.Request, res: express.Response): string | null => {
+    const path = vaultSync(res.locals.session as UserSession).syncPath(req.query.path);
+    if (!path) res.status(400).json({ error: "path must be a vault-relative file outside dot folders and server files" });
+    return path;
+  };
+
+  /** `baseHash` query parameter — empty or missing means the client had no copy */
+  const baseHash = (req: express.Request): string | null =>
+    typeof req.query.baseHash === "string" && req.query.baseHash ? req.query.baseHash : null;
+
+  router.get("/sync/manifest", route(async (_req, res) => {
+    res.json({ files: await vaultSync(res.locals.session as UserSession).manifest() });
+  }));
+
+  router.get("/sync/file", route(async (req, res) => {
+    const path = syncPath(req, res);
+    if (!path) return;
+    const file = await vaultSync(res.locals.session as UserSession).read(path);
+    if (!file) {
+      res.status(404).json({ error: "File not found" });
+      return;
+    }
+    res.set({ "Content-Type": "application/octet-stream", "X-Content-Hash": file.hash }).send(file.content);
+  }));
+
+  router.put("/sync/file", express.raw({ type: () => true, limit: SYNC_MAX_FILE_SIZE }), route(async (req, res) => {
+    const path = syncPath(req, res);
+    if (!path) return;
+    const content = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    const result = await vaultSync(res.locals.session as UserSession).write(path, content, baseHash(req));
+    if (result.conflict) {
+      res.status(409).json({
+        error: "The file changed on the server since your last sync",
+        hash: result.hash,
+        conflictPath: result.conflictPath,
+      });
+      return;
+    }
+    res.json({ hash: result.hash });
+  }));
+
+  router.delete("/sync/file", route(async (req, res) => {
+    const path = syncPath(req, res);
+    if (!path) return;
+    if (!await vaultSync(res.locals.session as UserSession).remove(path, baseHash(req))) {
+      res.status(409).json({ error: "The file changed on the server since your last sync — it was kept" });
+      return;
+    }
+    res.status(204).end();
+  }));
+
+  /** Server-sent `change` events — { path, hash }, hash null for a deletion */
+  router.get("/sync/events", route(async (_req, res) => {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), SYNC_HEARTBEAT_MS);
+    let unsubscribe: (() => void) | null = null;
+    res.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe?.();
+    });
+    // The first subscriber waits for the vault to be hashed
+    unsubscribe = await vaultSync(res.locals.session as UserSession).subscribe((change) => {
+      res.write(`event: change\ndata: ${JSON.stringify(change)}\n\n`);
+    });
+    if (res.writableEnded || res.destroyed) unsubscribe();
+    else res.write("event: ready\ndata: {}\n\n");
+  }));
+
+  // ─── Settings ───────────────────────────────────────────
+
+  /** Everything the settings page needs; server settings only for the admin */
+  router.get("/settings", route(async (_req, res) => {
+    const { user } = res.locals.session as UserSession;
+    res.json({
+      profile: {
+        fields: PROFILE_SETTINGS,
+        values: { name: user.name, language: user.language, model: user.model, timezone: user.timezone },
+      },
+      server: user.admin ? { fields: SERVER_SETTINGS, ...settings.values() } : null,
+      models: availableModels(aiClient, { ...config, enabledModels: [] }),
+      tools: listTools().map((t) => ({ name: t.name, displayName: t.displayName, category: t.category, writes: t.writes })),
+    });
+  }));
+
+  router.put("/settings/profile", route(async (req, res) => {
+    const session = res.locals.session as UserSession;
+    const { values, errors } = validateSettings(PROFILE_SETTINGS, (req.body ?? {}) as Record<string, unknown>);
+    if (Object.values(values).includes(null)) errors.push("Profile settings can't be reset");
+    const { name, model } = values as { name?: string; model?: string };
+    const invalid = checkSettings(undefined, model);
+    if (invalid) errors.push(invalid);
+    if (name && users.list().some((u) => u.chatId !== session.user.chatId && u.name.toLowerCase() === name.toLowerCase())) {
+      errors.push(`Someone else is already called ${name}`);
+    }
+    if (errors.length > 0) {
+      res.status(400).json({ error: errors.join("\n") });
+      return;
+    }
+
+    await users.update(session.user.chatId, values);
+    // Switch the open conversation too, as /model does in Telegram
+    if (model && session.conversation.model !== model) {
+      session.conversation.model = model;
+      await session.conversations.save(session.conversation);
+    }
+    const { user } = session;
+    res.json({ name: user.name, language: user.language, model: user.model, timezone: user.timezone });
+  }));
+
+  router.put("/settings/server", route(async (req, res) => {
+    if (!(res.locals.session as UserSession).user.admin) {
+      res.status(403).json({ error: "Only the admin can change server settings" });
+      return;
+    }
+    const input = (req.body ?? {}) as Record<string, unknown>;
+    // The default model has to be one the server can actually use, under the new model list
+    const { defaultModel, enabledModels } = input;
+    if (typeof defaultModel === "string") {
+      const offered = availableModels(aiClient, {
+        ...config,
+        enabledModels: Array.isArray(enabledModels) ? enabledModels as string[] : config.enabledModels,
+      });
+      if (!offered.some((m) => m.id === defaultModel.trim())) {
+        res.status(400).json({ error: `Unknown or unavailable model: ${defaultModel}` });
+        return;
+      }
+    }
+    const errors = await settings.update(input);
+    if (errors.length > 0) {
+      res.status(400).json({ error: errors.join("\n") });
+      return;
+    }
+    res.json({ fields: SERVER_SETTINGS, ...settings.values() });
+  }));
+
+  router.use((error: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+    console.error("API error:", error);
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    res.status(500).json({ error: error.message });
+  });
+
+  return router;
+}
@@ -0,0 +1,117 @@
+import type TelegramBot from "node-telegram-bot-api";
+import { diffLines, getTool, type I18n, type ToolDecision, type ToolPreview } from "@life-companion/core";
+
+const MAX_EXCERPT_LINES = 15;
+const MAX_EXCERPT_CHARS = 1500;
+
+interface PendingApproval {
+  chatId: number;
+  messageId: number;
+  text: string;
+  t: I18n;
+  resolve: (decision: ToolDecision) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/** Plain-text summary of a pending tool call: tool, target path, detail and a change excerpt */
+function formatApprovalRequest(t: I18n, name: string, preview: ToolPreview | null): string {
+  const lines = [`🔐 ${t.approvalTitle(getTool(name)?.displayName ?? name)}`];
+  if (preview?.path) lines.push(`📄 ${preview.path}`);
+  if (preview?.detail) lines.push(preview.detail.length > 500 ? preview.detail.slice(0, 500) + "…" : preview.detail);
+
+  const change = preview?.change;
+  if (change) {
+    let excerpt: string[];
+    if (change.after === null) {
+      excerpt = [t.diffDeletedFile];
+    } else if (change.before === null) {
+      excerpt = [t.diffNewFile, ...change.after.split("\n")];
+    } else {
+      excerpt = diffLines(change.before, change.after, 0)
+        .filter((line) => line.type === "add" || line.type === "remove")
+        .map((line) => `${line.type === "add" ? "+" : "-"} ${line.text}`);
+    }
+    let text = excerpt.slice(0, MAX_EXCERPT_LINES).join("\n");
+    if (excerpt.length > MAX_EXCERPT_LINES) text += "\n…";
+    if (text.length > MAX_EXCERPT_CHARS) text = text.slice(0, MAX_EXCERPT_CHARS) + "…";
+    lines.push("", text);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Approve/Reject inline keyboards for tool calls. Each request posts a message and
+ * resolves when a button is pressed — or as a rejection once the timeout passes,
+ * so an unanswered request never leaves the tool loop hanging.
+ */
+export class TelegramApprovals {
+  private pending = new Map<string, PendingApproval>();
+  private nextId = 1;
+
+  constructor(
+    private bot: TelegramBot,
+    /** Strings in the language of the chat being asked */
+    private i18nFor: (chatId: number) => I18n,
+    /** Read per request, so a settings change applies to the next one */
+    private timeoutMs: () => number,
+  ) {}
+
+  async request(chatId: number, name: string, preview: ToolPreview | null): Promise<ToolDecision> {
+    const id = String(this.nextId++);
+    const t = this.i18nFor(chatId);
+    const text = formatApprovalRequest(t, name, preview);
+    const sent = await this.bot.sendMessage(chatId, text, {
+      reply_markup: {
+        inline_keyboard: [[
+          { text: `✅ ${t.approvalApprove}`, callback_data: `approve:${id}` },
+          { text: `❌ ${t.approvalReject}`, callback_data: `reject:${id}` },
+        ]],
+      },
+    });
+
+    const timeoutMs = this.timeoutMs();
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        const seconds = Math.round(timeoutMs / 1000);
+        void this.settle(id, { approved: false, reason: `no answer within ${seconds}s` }, `⌛ ${t.approvalTimedOut}`);
+      }, timeoutMs);
+      this.pending.set(id, { chatId, messageId: sent.message_id, text, t, resolve, timer });
+    });
+  }
+
+  /** Handle an inline-button press; returns false when the query is not an approval answer */
+  async handleCallback(query: TelegramBot.CallbackQuery): Promise<boolean> {
+    const match = query.data?.match(/^(approve|reject):(\d+)$/);
+    if (!match) return false;
+
+    const entry = this.pending.get(match[2]);
+    if (!entry || query.message?.chat.id !== entry.chatId) {
+      const t = this.i18nFor(query.message?.chat.id ?? query.from.id);
+      await this.bot.answerCallbackQuery(query.id, { text: t.approvalExpired }).catch(() => {});
+      return true;
+    }
+
+    const approved = match[1] === "approve";
+    await this.bot.answerCallbackQuery(query.id).catch(() => {});
+    await this.settle(
+      match[2],
+      { approved },
+      approved ? `✅ ${entry.t.approvalApproved}` : `❌ ${entry.t.approvalRejected}`,
+    );
+    return true;
+  }
+
+  private async settle(id: string, decision: ToolDecision, status: string) {
+    const entry = this.pending.get(id);
+    if (!entry) return;
+    this.pending.delete(id);
+    clearTimeout(entry.timer);
+    entry.resolve(decision);
+
+    // Replace the buttons with the outcome so the chat shows what was decided
+    await this.bot.editMessageText(`${entry.text}\n\n${status}`, {
+      chat_id: entry.chatId,
+      message_id: entry.messageId,
+    }).catch((e) => console.debug("Failed to update approval message", e));
+  }
+}
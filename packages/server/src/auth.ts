@@ -183,6 +183,8 @@ export function buildAuthConfig(
     openaiApiKey?: string;
     geminiApiKey?: string;
     groqApiKey?: string;
+    customBaseUrl?: string;
+    customApiKey?: string;
   },
   oauthToken?: string,
 ): AuthConfig {
@@ -192,5 +194,7 @@ export function buildAuthConfig(
     openaiApiKey: config.openaiApiKey,
     geminiApiKey: config.geminiApiKey,
     groqApiKey: config.groqApiKey,
+    customBaseUrl: config.customBaseUrl,
+    customApiKey: config.customApiKey,
   };
 }
@@ -0,0 +1,115 @@
+import { buildCheckInPrompt, resolveProvider, type AIClient } from "@life-companion/core";
+import type { ServerConfig } from "./config";
+import type { UserSession } from "./users";
+
+export type CheckInKind = "morning" | "evening";
+
+/** YYYY-MM-DD in the user's timezone, `offsetDays` from today */
+function localDate(timeZone: string, offsetDays = 0): string {
+  return new Date(Date.now() + offsetDays * 86400000).toLocaleDateString("en-CA", { timeZone });
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.slice(0, max) + "\n..." : text;
+}
+
+/** What the model writes the check-in from; sections with nothing in them are left out */
+async function gatherContext({ user, vaultTools, calendarManager }: UserSession, kind: CheckInKind): Promise<string> {
+  const today = localDate(user.timezone);
+  const parts = [
+    `## Now\n${new Date().toLocaleString("en-GB", { timeZone: user.timezone, dateStyle: "full", timeStyle: "short" })}`,
+  ];
+  const add = async (title: string, read: () => Promise<string>, empty?: RegExp) => {
+    try {
+      const text = (await read()).trim();
+      if (text && !empty?.test(text)) parts.push(`## ${title}\n${text}`);
+    } catch (e) { console.debug(`Failed to read ${title} for the ${kind} check-in`, e); }
+  };
+
+  await add("Profile", async () => truncate((await vaultTools.readFile("system/profile.md")) ?? "", 1500));
+  await add("Preferences", () => vaultTools.getPreferenceContext());
+  if (kind === "morning") {
+    await add("Upcoming events (2 days)", () => calendarManager.getUpcomingEvents(2), /^No events/);
+    await add("Today's pending tasks", () => vaultTools.getPendingDailyTasks());
+    await add("Yesterday's retro", async () => truncate(await vaultTools.getRetros(localDate(user.timezone, -1)), 1500));
+  } else {
+    await add("Today's events", () => calendarManager.getEvents(today), /^No events/);
+    await add("Today's daily note", async () => truncate((await vaultTools.readFile(vaultTools.getDailyNotePath(today))) ?? "", 2000));
+    await add("Today's retro", async () => truncate(await vaultTools.getRetros(today), 1500));
+  }
+  await add("Goals", async () => truncate(await vaultTools.getGoals(), 800), /^No goals/);
+  return parts.join("\n\n");
+}
+
+/** The plain template, used when the model call fails */
+export async function templateBriefing({ vaultTools, calendarManager }: UserSession): Promise<string> {
+  const parts: string[] = [];
+  try {
+    const events = await calendarManager.getUpcomingEvents(3);
+    if (events && !events.includes("No events")) parts.push(`📅 **Upcoming Events:**\n${events}`);
+  } catch (e) { console.debug("Failed to get upcoming events for briefing", e); }
+  try {
+    const tasks = await vaultTools.getPendingDailyTasks();
+    if (tasks) parts.push(`✅ **Today's Tasks:**\n${tasks}`);
+  } catch (e) { console.debug("Failed to get pending tasks for briefing", e); }
+  try {
+    const goals = await vaultTools.getGoals();
+    if (goals && !goals.includes("No goals")) parts.push(`🎯 **Goals:**\n${goals.slice(0, 400)}`);
+  } catch (e) { console.debug("Failed to get goals for briefing", e); }
+
+  return parts.length > 0
+    ? `☀️ **Daily Briefing**\n\n${parts.join("\n\n")}`
+    : "☀️ Good morning! No events or tasks today.";
+}
+
+/** The plain template, used when the model call fails */
+export async function templateRecap({ user, vaultTools, calendarManager }: UserSession): Promise<string> {
+  const today = localDate(user.timezone);
+  const parts: string[] = [];
+
+  try {
+    const dailyNote = await vaultTools.getDailyNote(today);
+    if (dailyNote && !dailyNote.includes("not found")) {
+      // Count completed tasks
+      const completedCount = (dailyNote.match(/- \[x\]/gi) || []).length;
+      const pendingCount = (dailyNote.match(/- \[ \]/g) || []).length;
+      if (completedCount > 0 || pendingCount > 0) {
+        parts.push(`✅ Tasks: ${completedCount} done, ${pendingCount} pending`);
+      }
+    }
+  } catch (e) { console.debug("Failed to read daily note for recap", e); }
+
+  try {
+    const events = await calendarManager.getEvents(today);
+    if (events && !events.includes("No events")) {
+      parts.push(`📅 **Today's Events:**\n${events}`);
+    }
+  } catch (e) { console.debug("Failed to get events for recap", e); }
+
+  return parts.length > 0
+    ? `🌙 **Evening Recap**\n\n${parts.join("\n\n")}`
+    : "🌙 Good evening! Have a restful night.";
+}
+
+/**
+ * The morning briefing or evening recap, written by the user's model in their
+ * language from their profile, calendar, tasks, goals and retros. Falls back
+ * to the template when the model call fails or returns nothing.
+ */
+export async function writeCheckIn(
+  aiClient: AIClient,
+  config: ServerConfig,
+  session: UserSession,
+  kind: CheckInKind,
+): Promise<string> {
+  try {
+    const context = await gatherContext(session, kind);
+    const model = session.conversation.model;
+    const provider = resolveProvider(model, { custom: config.customModels });
+    const response = await aiClient.summarize(context, buildCheckInPrompt(kind, session.user.language), provider, model);
+    if (response.text.trim()) return response.text.trim();
+  } catch (e) {
+    console.warn(`AI ${kind} check-in failed for ${session.user.name}, sending the template:`, (e as Error).message);
+  }
+  return kind === "morning" ? templateBriefing(session) : templateRecap(session);
+}
@@ -1,4 +1,4 @@
-import { readFileSync } from "fs";
+import { readFileSync, watch, type FSWatcher } from "fs";
 import { readFile, writeFile, readdir, unlink, mkdir, access } from "fs/promises";
 import { join, basename } from "path";
 import matter from "gray-matter";
@@ -30,8 +30,19 @@ const RRULE_DOW_MAP: Record<string, number> = {
   SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6,
 };
 
+/** Called with the event's new state after it changes, or null once it is deleted */
+export type EventChangeCallback = (filePath: string, event: CalendarEvent | null) => void;
+
+/** Let Syncthing finish writing (temp file, rename, mtime fix-up) before reading */
+const WATCH_DEBOUNCE_MS = 2000;
+
 export class ServerCalendarManager {
   private eventsDir: string;
+  private onEventChanged: EventChangeCallback | null = null;
+  private watcher: FSWatcher | null = null;
+  private watchTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  /** Last content reported per event file, so our own writes aren't reported twice by the watcher */
+  private knownContent = new Map<string, string>();
 
   constructor(private vaultPath: string, eventsDir?: string) {
     this.eventsDir = eventsDir || this.detectEventsDir() || "calendar";
@@ -69,6 +80,70 @@ export class ServerCalendarManager {
     }
   }
 
+  // ─── Change Notifications ───────────────────────────────
+
+  onEventChange(callback: EventChangeCallback) {
+    this.onEventChanged = callback;
+  }
+
+  /** Read an event file and report it if its content changed since the last report */
+  private async notifyChange(filePath: string) {
+    let content: string | null = null;
+    try {
+      content = await readFile(this.resolve(filePath), "utf8");
+    } catch (e) { console.debug(`notifyChange: ${filePath} is gone`, e); }
+
+    if (content === null) {
+      if (!this.knownContent.delete(filePath)) return;
+      this.onEventChanged?.(filePath, null);
+      return;
+    }
+    if (this.knownContent.get(filePath) === content) return;
+    this.knownContent.set(filePath, content);
+    try {
+      this.onEventChanged?.(filePath, this.parseEvent(filePath, matter(content).data));
+    } catch (e) {
+      console.debug(`notifyChange: could not parse ${filePath}`, e);
+    }
+  }
+
+  /**
+   * Watch the events directory and its subfolders for files added, edited or
+   * removed outside the server (Obsidian via Syncthing or native sync). Events
+   * already on disk are recorded without being reported — planning for them
+   * runs from getAllEvents() when the scheduler starts.
+   */
+  async watchEvents() {
+    if (this.watcher) return;
+    const dirPath = this.resolve(this.eventsDir);
+    await mkdir(dirPath, { recursive: true });
+
+    for (const filePath of await this.eventFiles()) {
+      const content = await readFile(this.resolve(filePath), "utf8").catch(() => null);
+      if (content !== null) this.knownContent.set(filePath, content);
+    }
+
+    this.watcher = watch(dirPath, { recursive: true }, (_type, fileName) => {
+      const name = fileName?.toString().split("\\").join("/");
+      if (!name || name.split("/").some((s) => s.startsWith(".")) || !name.endsWith(".md")) return;
+      const filePath = `${this.eventsDir}/${name}`;
+      clearTimeout(this.watchTimers.get(filePath));
+      this.watchTimers.set(filePath, setTimeout(() => {
+        this.watchTimers.delete(filePath);
+        void this.notifyChange(filePath);
+      }, WATCH_DEBOUNCE_MS));
+    });
+    this.watcher.on("error", (e) => console.error("Events watcher failed:", e));
+    console.debug(`Watching events directory: ${this.eventsDir}`);
+  }
+
+  stopWatching() {
+    this.watcher?.close();
+    this.watcher = null;
+    for (const timer of this.watchTimers.values()) clearTimeout(timer);
+    this.watchTimers.clear();
+  }
+
   // ─── Check Status ───────────────────────────────────────
 
   async checkCalendarStatus(): Promise<string> {
@@ -107,23 +182,31 @@ export class ServerCalendarManager {
     };
   }
 
-  private async getAllEvents(): Promise<CalendarEvent[]> {
-    const dirPath = this.resolve(this.eventsDir);
-    const events: CalendarEvent[] = [];
+  /** Vault paths of every event file, subfolders included (like the plugin), dot folders skipped */
+  private async eventFiles(): Promise<string[]> {
     try {
-      const entries = await readdir(dirPath, { withFileTypes: true });
-      for (const entry of entries) {
-        if (!entry.isFile() || !entry.name.endsWith(".md")) continue;
-        const filePath = `${this.eventsDir}/${entry.name}`;
-        try {
-          const content = await readFile(join(dirPath, entry.name), "utf8");
-          const { data } = matter(content);
-          if (data.title) {
-            events.push(this.parseEvent(filePath, data));
-          }
-        } catch (e) { console.debug("getAllEvents: skip unparseable file", e); }
-      }
-    } catch (e) { console.debug("getAllEvents: directory doesn't exist", e); }
+      const names = await readdir(this.resolve(this.eventsDir), { recursive: true });
+      return names
+        .map((name) => name.split("\\").join("/"))
+        .filter((name) => name.endsWith(".md") && !name.split("/").some((s) => s.startsWith(".")))
+        .map((name) => `${this.eventsDir}/${name}`);
+    } catch (e) {
+      console.debug("eventFiles: directory doesn't exist", e);
+      return [];
+    }
+  }
+
+  async getAllEvents(): Promise<CalendarEvent[]> {
+    const events: CalendarEvent[] = [];
+    for (const filePath of await this.eventFiles()) {
+      try {
+        const content = await readFile(this.resolve(filePath), "utf8");
+        const { data } = matter(content);
+        if (data.title) {
+          events.push(this.parseEvent(filePath, data));
+        }
+      } catch (e) { console.debug("getAllEvents: skip unparseable file", e); }
+    }
     return events;
   }
 
@@ -207,6 +290,26 @@ export class ServerCalendarManager {
     return event.completedDates?.includes(dateStr) ?? false;
   }
 
+  /**
+   * Dates from startDate to endDate (inclusive) the event falls on, minus
+   * completed and skipped ones. Callers pass dates in the user's timezone; the
+   * walk counts calendar days in UTC so the server's own timezone and its DST
+   * changes can't skip or repeat a day.
+   */
+  getOccurrences(event: CalendarEvent, startDate: string, endDate: string): string[] {
+    const dates: string[] = [];
+    const cur = new Date(startDate + "T00:00:00Z");
+    const end = new Date(endDate + "T00:00:00Z");
+    while (cur <= end) {
+      const ds = cur.toISOString().slice(0, 10);
+      if (this.eventOccursOnDate(event, ds) && !this.isCompletedOn(event, ds) && !event.skipDates?.includes(ds)) {
+        dates.push(ds);
+      }
+      cur.setUTCDate(cur.getUTCDate() + 1);
+    }
+    return dates;
+  }
+
   /** Create a per-date copy of event with resolved completed state */
   private resolveForDate(event: CalendarEvent, dateStr: string): CalendarEvent {
     if (event.type === "single") return event;
@@ -288,6 +391,12 @@ export class ServerCalendarManager {
 
   // ─── Tool: create_event ─────────────────────────────────
 
+  /** Where create_event puts an event: "<events dir>/<date> <title>.md" */
+  async getEventPath(title: string, date: string): Promise<string> {
+    const slug = title.replace(/[/\\:*?"<>|]/g, "-").replace(/\s+/g, " ").trim();
+    return `${this.eventsDir}/${date} ${slug}.md`;
+  }
+
   async createEvent(params: {
     title: string;
     date: string;
@@ -302,9 +411,7 @@ export class ServerCalendarManager {
     rrule?: string;
     body?: string;
   }): Promise<string> {
-    const slug = params.title.replace(/[/\\:*?"<>|]/g, "-").replace(/\s+/g, " ").trim();
-    const fileName = `${params.date} ${slug}.md`;
-    const filePath = `${this.eventsDir}/${fileName}`;
+    const filePath = await this.getEventPath(params.title, params.date);
     const fullPath = this.resolve(filePath);
 
     try {
@@ -345,6 +452,7 @@ export class ServerCalendarManager {
     const content = matter.stringify(params.body || "", fm);
     await mkdir(this.resolve(this.eventsDir), { recursive: true });
     await writeFile(fullPath, content, "utf8");
+    await this.notifyChange(filePath);
 
     return `Created event: ${filePath}`;
   }
@@ -372,6 +480,7 @@ export class ServerCalendarManager {
 
     const updated = matter.stringify(parsed.content, parsed.data);
     await writeFile(fullPath, updated, "utf8");
+    await this.notifyChange(path);
     return `Updated event: ${path}`;
   }
 
@@ -409,6 +518,7 @@ export class ServerCalendarManager {
 
     const updated = matter.stringify(parsed.content, parsed.data);
     await writeFile(fullPath, updated, "utf8");
+    await this.notifyChange(path);
     return completed ? `Marked completed: ${path}` : `Marked incomplete: ${path}`;
   }
 
@@ -417,6 +527,8 @@ export class ServerCalendarManager {
   async deleteEvent(path: string): Promise<string> {
     try {
       await unlink(this.resolve(path));
+      this.knownContent.delete(path);
+      this.onEventChanged?.(path, null);
       return `Deleted event: ${path}`;
     } catch (e) {
       console.debug("deleteEvent: file not found", e);
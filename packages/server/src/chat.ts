@@ -0,0 +1,186 @@
+import {
+  buildSystemPrompt,
+  compactConversation,
+  getEffectiveModelGroups,
+  resolveProvider,
+  withAttachmentContext,
+  VAULT_TOOLS, WEB_TOOLS, KNOWLEDGE_TOOLS, GRAPH_TOOLS,
+  TASK_TOOLS, DAILY_TOOLS, CALENDAR_TOOLS, MEMORY_TOOLS,
+  type AIClient,
+  type Attachment,
+  type ChatMode,
+  type ConversationState,
+  type SendMessageOptions,
+  type TokenUsage,
+  type ToolDefinition,
+} from "@life-companion/core";
+import type { ServerConfig } from "./config";
+import type { UserSession } from "./users";
+
+export interface ModelChoice {
+  id: string;
+  name: string;
+  /** Provider label, e.g. "Claude" */
+  label: string;
+}
+
+/** One user message and where its reply goes — streamed through the callbacks as it is written */
+export interface ChatTurn {
+  text: string;
+  attachments?: Attachment[];
+  /** Asked before "confirm" tools run; without it every allowed tool runs */
+  approveToolUse?: SendMessageOptions["approveToolUse"];
+  abortSignal?: AbortSignal;
+  onText?: (chunk: string) => void;
+  onThinking?: (chunk: string) => void;
+  onToolUse?: (name: string, input: Record<string, unknown>) => void;
+  onToolResult?: (name: string, result: string) => void;
+}
+
+/** Models from ENABLED_MODELS (or all) whose provider has credentials, in picker order */
+export function availableModels(aiClient: AIClient, config: ServerConfig): ModelChoice[] {
+  const enabled = config.enabledModels;
+  return getEffectiveModelGroups({ custom: config.customModels })
+    .filter((group) => aiClient.hasCredentials(group.provider))
+    .flatMap((group) => group.models
+      .filter((m) => enabled.length === 0 || enabled.includes(m.id))
+      .map((m) => ({ id: m.id, name: m.name, label: group.label })));
+}
+
+/** Dive mode gets every tool; quick mode only the groups the message hints at */
+export function selectTools(message: string, mode: ChatMode): ToolDefinition[] {
+  const ALL = [
+    ...VAULT_TOOLS, ...KNOWLEDGE_TOOLS, ...GRAPH_TOOLS,
+    ...TASK_TOOLS, ...DAILY_TOOLS, ...CALENDAR_TOOLS,
+    ...MEMORY_TOOLS, ...WEB_TOOLS,
+  ];
+
+  if (mode === "dive") return ALL;
+
+  // Quick mode: include tools based on message content
+  const msgLower = message.toLowerCase();
+  const tools: ToolDefinition[] = [...VAULT_TOOLS, ...MEMORY_TOOLS];
+
+  if (msgLower.match(/search|tìm|web|google|internet/)) tools.push(...WEB_TOOLS);
+  if (msgLower.match(/tag|nhãn|label/)) tools.push(...KNOWLEDGE_TOOLS);
+  if (msgLower.match(/task|todo|việc|công việc|nhiệm vụ/)) tools.push(...TASK_TOOLS);
+  if (msgLower.match(/calendar|lịch|event|sự kiện|hẹn/)) tools.push(...CALENDAR_TOOLS);
+  if (msgLower.match(/daily|hôm nay|ngày/)) tools.push(...DAILY_TOOLS);
+  if (msgLower.match(/link|backlink|graph/)) tools.push(...GRAPH_TOOLS);
+
+  // Deduplicate
+  const seen = new Set<string>();
+  return tools.filter((t) => {
+    if (seen.has(t.name)) return false;
+    seen.add(t.name);
+    return true;
+  });
+}
+
+/** Calendar, memories, tasks and goals for the system prompt */
+export async function buildBriefingContext({ vaultTools, calendarManager }: UserSession): Promise<string> {
+  const parts: string[] = [];
+  try {
+    const events = await calendarManager.getUpcomingEvents(3);
+    if (events && !events.includes("No events")) {
+      parts.push(`### Upcoming Events (3 days)\n${events}`);
+    }
+  } catch (e) { console.debug("Failed to get calendar events for context", e); }
+  try {
+    const memories = await vaultTools.getRecentMemories(10);
+    if (memories && !memories.startsWith("No memories")) {
+      parts.push(`### Recent Memories\n${memories}`);
+    }
+  } catch (e) { console.debug("Failed to get recent memories for context", e); }
+  try {
+    const tasks = await vaultTools.getPendingDailyTasks();
+    if (tasks) parts.push(`### Today's Pending Tasks\n${tasks}`);
+  } catch (e) { console.debug("Failed to get pending tasks for context", e); }
+  try {
+    const goals = await vaultTools.getGoals();
+    if (goals && !goals.includes("No goals file")) {
+      parts.push(`### Goals\n${goals.length > 600 ? goals.slice(0, 600) + "\n..." : goals}`);
+    }
+  } catch (e) { console.debug("Failed to get goals for context", e); }
+  return parts.join("\n\n");
+}
+
+/**
+ * Answer one message in `conversation` the way every chat surface does: system
+ * prompt from the user's vault, tools for the mode, then the exchange is added
+ * to the history, compacted as the context fills up, and saved.
+ */
+export async function runChatTurn(
+  aiClient: AIClient,
+  config: ServerConfig,
+  session: UserSession,
+  conversation: ConversationState,
+  turn: ChatTurn,
+): Promise<{ text: string; usage: TokenUsage }> {
+  const { vaultTools } = session;
+  const { text } = turn;
+  const attachments = turn.attachments ?? [];
+
+  const profile = await vaultTools.readNote("system/profile.md").catch(() => "");
+  const index = await vaultTools.readNote("system/index.md").catch(() => "");
+  const briefingContext = await buildBriefingContext(session);
+  const preferencesContext = await vaultTools.getPreferenceContext();
+  const systemPrompt = buildSystemPrompt(
+    profile, index, conversation.mode, briefingContext, preferencesContext,
+  );
+
+  const provider = resolveProvider(conversation.model, { custom: config.customModels });
+  let fullResponse = "";
+  const response = await aiClient.sendMessage({
+    userMessage: text,
+    attachments,
+    mode: conversation.mode,
+    model: conversation.model,
+    provider,
+    systemPrompt,
+    conversationHistory: conversation.history,
+    toolExecutor: session.toolExecutor,
+    tools: selectTools(text, conversation.mode),
+    toolPolicies: config.toolPolicies,
+    approveToolUse: turn.approveToolUse,
+    abortSignal: turn.abortSignal,
+    onText: (chunk) => {
+      fullResponse += chunk;
+      turn.onText?.(chunk);
+    },
+    onThinking: (chunk) => turn.onThinking?.(chunk),
+    onToolUse: (name, input) => turn.onToolUse?.(name, input),
+    onToolResult: (name, result) => turn.onToolResult?.(name, result),
+  });
+
+  // Update conversation history
+  if (conversation.messages.length === 0) {
+    conversation.title = text.length > 50 ? text.slice(0, 50) + "..." : text;
+  }
+  conversation.messages.push(
+    {
+      role: "user",
+      content: text,
+      timestamp: Date.now(),
+      attachmentRefs: attachments.length > 0
+        ? attachments.map((a) => ({ name: a.name, type: a.type, mimeType: a.mimeType }))
+        : undefined,
+    },
+    { role: "assistant", content: fullResponse, timestamp: Date.now() },
+  );
+  conversation.history.push({ role: "user", content: withAttachmentContext(text, attachments) });
+  conversation.history.push({ role: "assistant", content: fullResponse });
+  conversation.totalInputTokens += response.usage.inputTokens;
+  conversation.totalOutputTokens += response.usage.outputTokens;
+  conversation.lastKnownInputTokens = response.usage.inputTokens;
+  conversation.updatedAt = Date.now();
+
+  // Summarize or trim older turns as the context fills up, like the plugin
+  await compactConversation(
+    aiClient, conversation, provider, response.usage.inputTokens, { custom: config.customModels },
+  );
+  await session.conversations.save(conversation)
+    .catch((e) => console.error(`Failed to save conversation for ${session.user.name}:`, e));
+
+  return { text: fullResponse, usage: response.usage };
+}
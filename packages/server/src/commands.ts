@@ -0,0 +1,115 @@
+import type { UserSession } from "./users";
+
+/** A Telegram command answered straight from the vault and calendar — no model round-trip */
+export interface VaultCommand {
+  command: string;
+  /** Shown in Telegram's command autocomplete */
+  description: string;
+  /** Set when an argument is required; sent back as-is when it's missing */
+  usage?: string;
+  run(session: UserSession, arg: string): Promise<string>;
+}
+
+/** Listings are numbered for /done; longer ones are cut off */
+const MAX_LISTED_TASKS = 30;
+
+/** Today's date (YYYY-MM-DD) and time (HH:MM) in the user's timezone */
+function localNow(timeZone: string): { date: string; time: string } {
+  const now = new Date();
+  return {
+    date: now.toLocaleDateString("en-CA", { timeZone }),
+    time: now.toLocaleTimeString("en-GB", { timeZone, hour: "2-digit", minute: "2-digit" }),
+  };
+}
+
+export const VAULT_COMMANDS: VaultCommand[] = [
+  {
+    command: "search",
+    description: "Search notes",
+    usage: "/search <query>",
+    run: async ({ vaultTools }, query) => {
+      const results = await vaultTools.searchVault(query);
+      return results.replace(/^## /gm, "📄 ");
+    },
+  },
+  {
+    command: "note",
+    description: "Show a note",
+    usage: "/note <path>",
+    run: async ({ vaultTools }, path) => {
+      // Accept paths without the .md extension, as they appear in [[links]]
+      const notePath = /\.\w+$/.test(path) ? path : `${path}.md`;
+      const content = await vaultTools.readNote(notePath);
+      return content.startsWith("File not found") ? content : `📄 ${notePath}\n\n${content}`;
+    },
+  },
+  {
+    command: "tasks",
+    description: "Open tasks, in a note or folder if given",
+    run: async (session, path) => {
+      const tasks = await session.vaultTools.findTasks(path, false);
+      if (tasks === null) return `Path not found: ${path}`;
+      session.lastTasks = tasks.slice(0, MAX_LISTED_TASKS);
+      if (tasks.length === 0) return "No open tasks. 🎉";
+
+      const lines = session.lastTasks.map((t, i) => `${i + 1}. ${t.text} — ${t.path}`);
+      if (tasks.length > MAX_LISTED_TASKS) lines.push(`…and ${tasks.length - MAX_LISTED_TASKS} more`);
+      return `${lines.join("\n")}\n\n/done <number> to check one off.`;
+    },
+  },
+  {
+    command: "done",
+    description: "Toggle a task from the last /tasks list",
+    usage: "/done <number from /tasks>",
+    run: async (session, arg) => {
+      const task = session.lastTasks[Number(arg) - 1];
+      if (!task) return "No such task — send /tasks for a fresh list.";
+
+      // The note may have been edited since the listing; find the task by its text again
+      const current = (await session.vaultTools.findTasks(task.path)) ?? [];
+      const match = current
+        .filter((t) => t.text === task.text)
+        .sort((a, b) => Math.abs(a.line - task.line) - Math.abs(b.line - task.line))[0];
+      if (!match) return `"${task.text}" is no longer in ${task.path}.`;
+
+      await session.vaultTools.toggleTask(match.path, match.line);
+      task.line = match.line;
+      task.done = !match.done;
+      return task.done ? `✅ ${task.text}` : `↩️ Reopened: ${task.text}`;
+    },
+  },
+  {
+    command: "events",
+    description: "Upcoming events (default 7 days)",
+    run: async ({ calendarManager }, arg) => {
+      const days = Math.min(Math.max(parseInt(arg, 10) || 7, 1), 90);
+      return calendarManager.getUpcomingEvents(days);
+    },
+  },
+  {
+    command: "goals",
+    description: "Show your goals",
+    run: ({ vaultTools }) => vaultTools.getGoals(),
+  },
+  {
+    command: "memory",
+    description: "Search saved memories",
+    usage: "/memory <query>",
+    run: async ({ vaultTools }, query) => {
+      const memories = await vaultTools.recallMemory(query);
+      return memories.replace(/^## /gm, "🧠 ");
+    },
+  },
+  {
+    command: "capture",
+    description: "Add a line to today's daily note",
+    usage: "/capture <text>",
+    run: async ({ vaultTools, user }, text) => {
+      const { date, time } = localNow(user.timezone);
+      const path = vaultTools.getDailyNotePath(date);
+      await vaultTools.createDailyNote(date); // no-op when it already exists
+      await vaultTools.appendNote(path, `- ${time} ${text}`);
+      return `📝 Added to ${path}`;
+    },
+  },
+];
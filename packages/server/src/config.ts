@@ -1,52 +1,136 @@
-import type { ChatMode } from "@life-companion/core";
+import { dirname, join, resolve } from "path";
+import type { ChatMode, ModelEntry, ToolPolicy } from "@life-companion/core";
+import { SERVER_CONFIG_PATH } from "./settings";
 
 export interface ServerConfig {
   telegramBotToken: string;
+  /** Admin chat — always registered, uses vaultPath */
   telegramChatId: string;
+  /** Public https address of this server; set to receive Telegram updates by webhook instead of polling */
+  telegramWebhookUrl?: string;
+  /** Sent back by Telegram with every webhook call; derived from the bot token when unset */
+  telegramWebhookSecret?: string;
   vaultPath: string;
+  /** Registered chats (chat id → vault, language, model, timezone) */
+  usersFile: string;
+  /** Where invited people's vaults go — next to the admin's vault, so its tools and sync don't reach them */
+  usersPath: string;
   port: number;
+  /** Bearer token for the /api/v1 HTTP API; the API is off when unset */
+  apiToken?: string;
   // Auth
   claudeAccessToken?: string;
   claudeApiKey?: string;
   openaiApiKey?: string;
   geminiApiKey?: string;
   groqApiKey?: string;
+  // Custom OpenAI-compatible endpoint (Ollama, LM Studio, vLLM, OpenRouter…)
+  customBaseUrl?: string;
+  customApiKey?: string;
+  customModels: ModelEntry[];
   // Claude Code credentials file (for auto-refresh OAuth tokens)
   claudeCredentialsPath?: string;
   // Web search
   braveSearchApiKey?: string;
+  // Voice messages — "openai" | "groq" | "local" (whisper.cpp server); picked from the keys when unset
+  transcriber?: string;
+  whisperUrl?: string;
+  transcribeModel?: string;
+  /** Vault folder to keep voice notes in; empty to discard them after transcribing */
+  voiceNotesFolder: string;
+  /** Vault folder for photos and documents the user asks to keep; empty to never save them */
+  attachmentsFolder: string;
   // Scheduling
   morningBriefingHour: number;
   eveningRecapHour: number;
   timezone: string;
   // AI preferences
   defaultModel: string;
+  /** Models offered by /model; empty offers every model whose provider has credentials */
+  enabledModels: string[];
   chatMode: ChatMode;
   language: string;
+  // Tool approval — write tools ask via inline buttons unless overridden here
+  toolPolicies: Record<string, ToolPolicy>;
+  toolApprovalTimeoutSec: number;
 }
 
 export function loadConfig(): ServerConfig {
+  const vaultPath = env("VAULT_PATH", "/data/vault");
   return {
     telegramBotToken: env("TELEGRAM_BOT_TOKEN"),
     telegramChatId: env("TELEGRAM_CHAT_ID"),
-    vaultPath: env("VAULT_PATH", "/data/vault"),
+    telegramWebhookUrl: process.env.TELEGRAM_WEBHOOK_URL || undefined,
+    telegramWebhookSecret: process.env.TELEGRAM_WEBHOOK_SECRET || undefined,
+    vaultPath,
+    usersFile: process.env.USERS_FILE || join(vaultPath, "system/users.json"),
+    usersPath: process.env.USERS_PATH || join(dirname(resolve(vaultPath)), "users"),
     port: parseInt(env("PORT", "3456")),
+    apiToken: process.env.API_TOKEN || undefined,
     claudeAccessToken: process.env.CLAUDE_ACCESS_TOKEN,
     claudeApiKey: process.env.CLAUDE_API_KEY,
     openaiApiKey: process.env.OPENAI_API_KEY,
     geminiApiKey: process.env.GEMINI_API_KEY,
     groqApiKey: process.env.GROQ_API_KEY,
+    customBaseUrl: process.env.CUSTOM_BASE_URL,
+    customApiKey: process.env.CUSTOM_API_KEY,
+    customModels: parseModelList(process.env.CUSTOM_MODELS),
     claudeCredentialsPath: process.env.CLAUDE_CREDENTIALS_PATH,
     braveSearchApiKey: process.env.BRAVE_SEARCH_API_KEY,
+    transcriber: process.env.TRANSCRIBER,
+    whisperUrl: process.env.WHISPER_URL,
+    transcribeModel: process.env.TRANSCRIBE_MODEL,
+    voiceNotesFolder: process.env.VOICE_NOTES_FOLDER ?? "",
+    attachmentsFolder: process.env.ATTACHMENTS_FOLDER ?? "attachments",
     morningBriefingHour: parseInt(env("MORNING_HOUR", "7")),
     eveningRecapHour: parseInt(env("EVENING_HOUR", "21")),
     timezone: env("TZ", "Asia/Ho_Chi_Minh"),
     defaultModel: env("DEFAULT_MODEL", "claude-sonnet-4-20250514"),
+    enabledModels: (process.env.ENABLED_MODELS ?? "").split(",").map((id) => id.trim()).filter(Boolean),
     chatMode: (process.env.CHAT_MODE as ChatMode) || "quick",
     language: env("LANGUAGE", "vi"),
+    toolPolicies: parseToolPolicies(process.env.TOOL_POLICIES),
+    toolApprovalTimeoutSec: parseInt(env("TOOL_APPROVAL_TIMEOUT", "300")),
   };
 }
 
+/**
+ * Files the server keeps for itself. They may sit inside a vault (the users file
+ * does by default), but vault tools and sync clients must never read or change
+ * them — the users file holds password hashes and vault assignments, the
+ * settings file tool policies that decide which tools need approval.
+ */
+export function serverPrivateFiles(config: ServerConfig): string[] {
+  return [resolve(config.usersFile), resolve(config.vaultPath, SERVER_CONFIG_PATH)];
+}
+
+/** "llama3.1:8b=32768, qwen2.5:14b" → model entries with optional context limits */
+function parseModelList(value?: string): ModelEntry[] {
+  if (!value) return [];
+  return value.split(",").map((item) => item.trim()).filter(Boolean).map((item) => {
+    const [id, limit] = item.split("=");
+    const entry: ModelEntry = { id: id.trim(), name: id.trim() };
+    const contextLimit = parseInt(limit, 10);
+    if (contextLimit > 0) entry.contextLimit = contextLimit;
+    return entry;
+  });
+}
+
+/** "write_note=auto, delete_event=deny" → per-tool policy overrides */
+function parseToolPolicies(value?: string): Record<string, ToolPolicy> {
+  const policies: Record<string, ToolPolicy> = {};
+  if (!value) return policies;
+  for (const item of value.split(",").map((s) => s.trim()).filter(Boolean)) {
+    const [name, policy] = item.split("=").map((s) => s.trim());
+    if (policy === "auto" || policy === "confirm" || policy === "deny") {
+      policies[name] = policy;
+    } else {
+      console.warn(`Ignoring TOOL_POLICIES entry "${item}" — use auto, confirm or deny`);
+    }
+  }
+  return policies;
+}
+
 function env(key: string, fallback?: string): string {
   const val = process.env[key] || fallback;
   if (!val) throw new Error(`Missing required env var: ${key}`);
@@ -0,0 +1,68 @@
+import {
+  fromSavedConversation,
+  toSavedConversation,
+  type ConversationState,
+  type SavedConversation,
+  type VaultBackend,
+} from "@life-companion/core";
+
+const CONVERSATIONS_DIR = "system/conversations";
+
+/** Older conversations are deleted past this many — the same cap as the plugin's chat history */
+const MAX_CONVERSATIONS = 20;
+
+/** Telegram conversations as SavedConversation JSON, one file per conversation in the user's vault */
+export class ConversationStore {
+  constructor(private backend: VaultBackend) {}
+
+  async save(conv: ConversationState) {
+    await this.backend.write(
+      `${CONVERSATIONS_DIR}/${conv.id}.json`,
+      JSON.stringify(toSavedConversation(conv), null, 2),
+    );
+    await this.prune();
+  }
+
+  /** Delete all but the MAX_CONVERSATIONS most recently updated */
+  private async prune() {
+    const entries = ((await this.backend.list(CONVERSATIONS_DIR)) ?? [])
+      .filter((entry) => !entry.isFolder && entry.name.endsWith(".json"));
+    if (entries.length <= MAX_CONVERSATIONS) return;
+    for (const old of (await this.list()).slice(MAX_CONVERSATIONS)) {
+      await this.backend.delete(`${CONVERSATIONS_DIR}/${old.id}.json`)
+        .catch((e) => console.warn(`Failed to delete old conversation ${old.id}:`, e));
+    }
+  }
+
+  async load(id: string): Promise<ConversationState | null> {
+    const raw = await this.backend.read(`${CONVERSATIONS_DIR}/${id}.json`);
+    if (!raw) return null;
+    try {
+      return fromSavedConversation(JSON.parse(raw) as SavedConversation);
+    } catch (e) {
+      console.warn(`Skipping unreadable conversation ${id}:`, e);
+      return null;
+    }
+  }
+
+  /** Saved conversations, most recently updated first */
+  async list(): Promise<SavedConversation[]> {
+    const entries = (await this.backend.list(CONVERSATIONS_DIR)) ?? [];
+    const saved: SavedConversation[] = [];
+    for (const entry of entries) {
+      if (entry.isFolder || !entry.name.endsWith(".json")) continue;
+      const raw = await this.backend.read(entry.path);
+      try {
+        if (raw) saved.push(JSON.parse(raw) as SavedConversation);
+      } catch (e) {
+        console.warn(`Skipping unreadable conversation ${entry.path}:`, e);
+      }
+    }
+    return saved.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async latest(): Promise<ConversationState | null> {
+    const [newest] = await this.list();
+    return newest ? fromSavedConversation(newest) : null;
+  }
+}
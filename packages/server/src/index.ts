@@ -1,11 +1,13 @@
 import { access } from "fs/promises";
+import { fileURLToPath } from "url";
 import express from "express";
-import { AIClient, type HttpRequestOptions } from "@life-companion/core";
+import { AIClient, getProviderAdapter, type HttpRequestOptions, type HttpStreamRequestOptions } from "@life-companion/core";
+import { createApiRouter } from "./api";
 import { loadConfig } from "./config";
-import { ServerVaultTools } from "./vault-tools";
-import { ServerCalendarManager } from "./calendar-manager";
-import { createToolExecutor } from "./tool-executor";
-import { TelegramBotHandler } from "./telegram";
+import { SettingsStore } from "./settings";
+import { TELEGRAM_WEBHOOK_PATH, TelegramBotHandler } from "./telegram";
+import { createTranscriber } from "./transcriber";
+import { isTelegramChat, UserRegistry } from "./users";
 import { Scheduler } from "./scheduler";
 import { TokenManager, buildAuthConfig } from "./auth";
 
@@ -32,9 +34,38 @@ import { TokenManager, buildAuthConfig } from "./auth";
     const text = await res.text();
     let json: unknown;
     try { json = JSON.parse(text); } catch (e) { console.debug("httpClient: JSON parse failed", e); json = null; }
-    return { status: res.status, text, json };
+    return { status: res.status, text, json, headers: Object.fromEntries(res.headers) };
   };
 
+  // Streaming HttpClient — yields decoded chunks straight off the response body
+  const httpStreamClient = async (req: HttpStreamRequestOptions) => {
+    const res = await fetch(req.url, {
+      method: req.method,
+      headers: req.headers,
+      body: req.body,
+      signal: req.signal,
+    });
+    async function* decode() {
+      if (!res.body) return;
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          yield decoder.decode(value, { stream: true });
+        }
+      } finally {
+        reader.releaseLock();
+      }
+    }
+    return { status: res.status, body: decode() };
+  };
+
+  // Settings saved from the web page override .env and apply without a restart
+  const settings = new SettingsStore(config);
+  await settings.load();
+
   // OAuth token auto-refresh (if credentials file available)
   let tokenManager: TokenManager | null = null;
   let oauthToken: string | undefined;
@@ -54,14 +85,14 @@ import { TokenManager, buildAuthConfig } from "./auth";
   // Warn if no AI provider configured
   if (
     !oauthToken && !config.claudeAccessToken && !config.claudeApiKey &&
-    !config.openaiApiKey && !config.geminiApiKey && !config.groqApiKey
+    !config.openaiApiKey && !config.geminiApiKey && !config.groqApiKey && !config.customBaseUrl
   ) {
     console.warn("WARNING: No AI provider API key configured. Bot will not be able to respond.");
   }
 
   // Initialize AI client
   const authConfig = buildAuthConfig(config, oauthToken);
-  const aiClient = new AIClient(authConfig, httpClient);
+  const aiClient = new AIClient(authConfig, httpClient, httpStreamClient);
 
   // Auto-update AIClient when token refreshes
   if (tokenManager) {
@@ -71,34 +102,64 @@ import { TokenManager, buildAuthConfig } from "./auth";
     });
   }
 
-  // Initialize vault tools & calendar
-  const vaultTools = new ServerVaultTools(config.vaultPath);
-  const calendarManager = new ServerCalendarManager(config.vaultPath);
-
-  // Set embedding keys if available
-  vaultTools.setEmbeddingKeys({
-    openai: config.openaiApiKey,
-    gemini: config.geminiApiKey,
-  });
-  if (config.braveSearchApiKey) {
-    vaultTools.setBraveSearchApiKey(config.braveSearchApiKey);
+  // Without CUSTOM_MODELS, offer whatever the custom endpoint lists — like the plugin's Connect button
+  if (config.customBaseUrl && config.customModels.length === 0) {
+    try {
+      config.customModels = await getProviderAdapter("custom")?.listModels(httpClient, authConfig) ?? [];
+    } catch (e) {
+      console.debug("Custom endpoint model list failed", e);
+    }
+    if (config.customModels.length === 0) {
+      console.warn(`WARNING: No models listed at ${config.customBaseUrl} — set CUSTOM_MODELS to use the custom endpoint.`);
+    } else {
+      console.debug(`Custom endpoint models: ${config.customModels.map((m) => m.id).join(", ")}`);
+    }
   }
 
-  // Tool executor
-  const toolExecutor = createToolExecutor(vaultTools, calendarManager);
+  // Users — each chat gets its own vault, calendar, conversation and scheduler
+  const users = new UserRegistry(config, httpClient);
+  await users.load();
 
   // Telegram bot
-  const telegramBot = new TelegramBotHandler(
-    config, aiClient, vaultTools, calendarManager, toolExecutor,
-  );
+  const transcriber = createTranscriber(config);
+  if (transcriber) console.debug(`Voice messages: ${transcriber.name}`);
+  const telegramBot = new TelegramBotHandler(config, aiClient, users, transcriber);
+
+  const schedulers = new Map<string, Scheduler>();
+  users.onSessionStart((session) => {
+    // Web-only users have no chat to send briefings and reminders to
+    if (isTelegramChat(session.user.chatId)) {
+      schedulers.get(session.user.chatId)?.stop();
+      const scheduler = new Scheduler(config, telegramBot.getBot(), aiClient, session);
+      scheduler.start();
+      schedulers.set(session.user.chatId, scheduler);
+    }
+    // Events added or edited in Obsidian arrive through sync — pick them up for reminders
+    session.calendarManager.watchEvents()
+      .catch((e) => console.error(`Failed to watch events directory for ${session.user.name}:`, e));
+  });
+  await Promise.all(users.list().map((user) => users.session(user.chatId)));
 
-  // Scheduler
-  const scheduler = new Scheduler(
-    config, telegramBot.getBot(), aiClient, vaultTools, calendarManager,
-  );
-  scheduler.start();
+  // Live settings — cron jobs follow the hours and timezones, users left on the default model follow it
+  users.onUserUpdate((user, changes) => {
+    if (changes.timezone) void schedulers.get(user.chatId)?.reschedule();
+  });
+  let defaultModel = config.defaultModel;
+  settings.onChange(() => {
+    for (const scheduler of schedulers.values()) void scheduler.reschedule();
+    if (config.defaultModel === defaultModel) return;
+    const previous = defaultModel;
+    defaultModel = config.defaultModel;
+    for (const user of users.list().filter((u) => u.model === previous)) {
+      void users.session(user.chatId).then(async (session) => {
+        if (session?.conversation.model === previous) session.conversation.model = defaultModel;
+        await users.update(user.chatId, { model: defaultModel });
+      }).catch((e) => console.error(`Failed to switch ${user.name} to ${defaultModel}:`, e));
+    }
+    console.debug(`Default model: ${previous} → ${defaultModel}`);
+  });
 
-  // Express — health check
+  // Express — health check, the HTTP API and the web chat
   const app = express();
 
   app.get("/health", (_req: express.Request, res: express.Response) => {
@@ -108,10 +169,23 @@ import { TokenManager, buildAuthConfig } from "./auth";
     });
   });
 
+  if (config.telegramWebhookUrl) {
+    app.post(TELEGRAM_WEBHOOK_PATH, express.json({ limit: "1mb" }), telegramBot.webhookHandler());
+  }
+
+  if (config.apiToken) {
+    app.use("/api/v1", createApiRouter(config, aiClient, users, settings));
+    // Static files next to dist/ — no build step, no CDN, works offline on a LAN
+    app.use(express.static(fileURLToPath(new URL("../web", import.meta.url))));
+  } else {
+    console.debug("API_TOKEN not set — the HTTP API and web chat are disabled");
+  }
+
   app.listen(config.port, () => {
+    telegramBot.start().catch((e) => console.error("Failed to start receiving Telegram updates:", (e as Error).message));
     console.debug(`Life Companion AI Server running on port ${config.port}`);
     console.debug(`Vault: ${config.vaultPath}`);
     console.debug(`Model: ${config.defaultModel}`);
-    console.debug(`Telegram bot active, chat ID: ${config.telegramChatId}`);
+    console.debug(`Telegram bot active for ${users.list().length} user(s), admin chat ID: ${config.telegramChatId}`);
   });
 })();
@@ -1,227 +1,618 @@
+import { randomBytes } from "crypto";
+import { unwatchFile, watchFile } from "fs";
+import { join } from "path";
 import * as cron from "node-cron";
 import type TelegramBot from "node-telegram-bot-api";
-import type { AIClient } from "@life-companion/core";
-import type { ServerVaultTools } from "./vault-tools";
-import type { ServerCalendarManager } from "./calendar-manager";
+import {
+  buildSystemPrompt,
+  getToolDefinitions,
+  isWriteTool,
+  resolveProvider,
+  SCHEDULED_ACTIONS,
+  type AIClient,
+  type ScheduledJob,
+  type VaultTools,
+} from "@life-companion/core";
+import { writeCheckIn } from "./briefing";
+import type { CalendarEvent, ServerCalendarManager } from "./calendar-manager";
 import type { ServerConfig } from "./config";
+import { htmlToPlain, toTelegramHtml } from "./telegram-format";
+import type { UserProfile, UserSession } from "./users";
 
 interface ReminderEntry {
+  /** Vault path of the event file */
   eventId: string;
   eventTitle: string;
   eventTimestamp: number;
   reminders: {
+    /** Identifies the reminder in its buttons; older entries get one when they are sent */
+    id?: string;
     sendAt: number;
     message: string;
     priority: "high" | "normal";
     sent: boolean;
+    /** Set by a Snooze button: the reminder is sent again at this time */
+    snoozedUntil?: number;
   }[];
 }
 
+/** When to remind about an event, relative to its start — planned once, applied to each occurrence */
+interface ReminderPlan {
+  beforeMinutes: number;
+  message: string;
+  priority: "high" | "normal";
+}
+
+type ReminderAction = "10m" | "1h" | "tomorrow" | "done" | "reschedule";
+
 const REMINDERS_PATH = "system/reminders.json";
 
+/** How far ahead recurring and rrule events get reminders; the window moves forward every night */
+const RECURRING_WINDOW_DAYS = 7;
+
+/** How long after pressing Reschedule the next message is taken as the new time */
+const RESCHEDULE_WINDOW_MS = 15 * 60 * 1000;
+
+/** How often to check system/schedules.json for edits — polling survives sync tools replacing the file */
+const SCHEDULES_POLL_MS = 5000;
+
+/** How often a scheduled job checks whether the chat turn in progress has finished */
+const TURN_POLL_MS = 1000;
+
+/** Open tasks due by this many days from now are included in deadline nudges */
+const DEADLINE_HORIZON_DAYS = 1;
+
+/** Obsidian Tasks' "📅 2025-01-31", Dataview's "due:: 2025-01-31", or plain "due: 2025-01-31" */
+const DUE_DATE_REGEX = /(?:📅|\bdue::?)\s*(\d{4}-\d{2}-\d{2})/i;
+
+/** How far `timeZone`'s wall clock is ahead of UTC at `timestamp`, in ms */
+function zoneOffset(timestamp: number, timeZone: string): number {
+  const parts = Object.fromEntries(new Intl.DateTimeFormat("en-US", {
+    timeZone, hourCycle: "h23", year: "numeric", month: "numeric", day: "numeric",
+    hour: "numeric", minute: "numeric", second: "numeric",
+  }).formatToParts(timestamp).map((p) => [p.type, Number(p.value)]));
+  const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wall - (timestamp - (timestamp % 1000));
+}
+
+/** When an event's date and start time happen on the user's clock, whatever the server's timezone */
+function eventTimestamp(date: string, startTime: string | undefined, timeZone: string): number {
+  const wall = Date.parse(`${date}T${startTime || "00:00"}Z`);
+  // The offset at the wall time itself can differ from the one at the real time around DST changes
+  const guess = wall - zoneOffset(wall, timeZone);
+  return wall - zoneOffset(guess, timeZone);
+}
+
+/** The YYYY-MM-DD an event timestamp was made from — the inverse of eventTimestamp */
+function eventDate(timestamp: number, timeZone: string): string {
+  return new Date(timestamp).toLocaleDateString("en-CA", { timeZone });
+}
+
+/** One occurrence's reminders from a plan, minus any whose time has already passed */
+function reminderEntry(filePath: string, title: string, timestamp: number, plan: ReminderPlan[]): ReminderEntry {
+  return {
+    eventId: filePath,
+    eventTitle: title,
+    eventTimestamp: timestamp,
+    reminders: plan
+      .map((r) => ({
+        id: randomBytes(4).toString("hex"),
+        sendAt: timestamp - r.beforeMinutes * 60000,
+        message: r.message,
+        priority: r.priority,
+        sent: false,
+      }))
+      .filter((r) => r.sendAt > Date.now()),
+  };
+}
+
+function reminderKeyboard(id: string): TelegramBot.InlineKeyboardButton[][] {
+  return [
+    [
+      { text: "😴 10m", callback_data: `reminder:10m:${id}` },
+      { text: "😴 1h", callback_data: `reminder:1h:${id}` },
+      { text: "😴 Tomorrow", callback_data: `reminder:tomorrow:${id}` },
+    ],
+    [
+      { text: "✅ Done", callback_data: `reminder:done:${id}` },
+      { text: "📅 Reschedule", callback_data: `reminder:reschedule:${id}` },
+    ],
+  ];
+}
+
+/**
+ * Briefings, recaps, reminders and user-defined jobs for one user, in their
+ * timezone and vault. Jobs come from system/schedules.json and are reloaded
+ * whenever it changes; the built-in "briefing" and "recap" jobs run at
+ * MORNING_HOUR / EVENING_HOUR unless the file defines a job with the same id.
+ */
 export class Scheduler {
+  private remindersQueue: Promise<void> = Promise.resolve();
+  /** A reminder pass is still sending — the next minute's check is skipped */
+  private checkingReminders = false;
+  private jobs = new Map<string, cron.ScheduledTask>();
+  /** Reminder check and recurring-event refresh, in the user's timezone */
+  private builtinTasks: cron.ScheduledTask[] = [];
+  /** Reminder plans of recurring events by file, keyed by title and time so an edit re-plans */
+  private recurringPlans = new Map<string, { key: string; plan: ReminderPlan[] }>();
+  private user: UserProfile;
+  private vaultTools: VaultTools;
+  private calendarManager: ServerCalendarManager;
+
   constructor(
     private config: ServerConfig,
     private bot: TelegramBot,
     private aiClient: AIClient,
-    private vaultTools: ServerVaultTools,
-    private calendarManager: ServerCalendarManager,
-  ) {}
+    private session: UserSession,
+  ) {
+    this.user = session.user;
+    this.vaultTools = session.vaultTools;
+    this.calendarManager = session.calendarManager;
+  }
 
   start() {
-    // Morning briefing
-    cron.schedule(`0 ${this.config.morningBriefingHour} * * *`, () => {
-      this.sendBriefing().catch((e) => console.error("Briefing failed:", e));
-    }, { timezone: this.config.timezone });
-
-    // Evening recap
-    cron.schedule(`0 ${this.config.eveningRecapHour} * * *`, () => {
-      this.sendRecap().catch((e) => console.error("Recap failed:", e));
-    }, { timezone: this.config.timezone });
-
-    // Reminder check every minute
-    cron.schedule("* * * * *", () => {
-      this.checkReminders().catch((e) => console.error("Reminder check failed:", e));
-    }, { timezone: this.config.timezone });
-
-    console.debug(
-      `Scheduler started: briefing@${this.config.morningBriefingHour}h, ` +
-      `recap@${this.config.eveningRecapHour}h (${this.config.timezone})`,
-    );
+    // Plan, re-plan or cancel reminders whenever an event file changes
+    this.calendarManager.onEventChange((filePath, event) => {
+      this.syncEventReminders(filePath, event).catch((e) => console.error("Reminder sync failed:", e));
+    });
+
+    // Events added, edited or removed while the server was down, and recurring
+    // occurrences that entered the window — planning skips what reminders.json already has
+    void this.refreshReminders(true);
+
+    // Snooze / Done / Reschedule buttons on this chat's reminders
+    this.bot.on("callback_query", this.onCallbackQuery);
+
+    void this.reschedule();
+    watchFile(this.schedulesFile, { interval: SCHEDULES_POLL_MS }, this.onSchedulesChanged);
   }
 
-  // ─── Morning Briefing ───────────────────────────────────
+  /** Stop every cron task and watcher — before a new Scheduler takes over the session */
+  stop() {
+    for (const task of this.builtinTasks) task.stop();
+    this.builtinTasks = [];
+    for (const task of this.jobs.values()) task.stop();
+    this.jobs.clear();
+    unwatchFile(this.schedulesFile, this.onSchedulesChanged);
+    this.bot.removeListener("callback_query", this.onCallbackQuery);
+  }
 
-  private async sendBriefing() {
-    const parts: string[] = [];
+  private get schedulesFile(): string {
+    return join(this.user.vaultPath, this.vaultTools.SCHEDULES_PATH);
+  }
 
-    try {
-      const events = await this.calendarManager.getUpcomingEvents(3);
-      if (events && !events.includes("No events")) {
-        parts.push(`📅 **Upcoming Events:**\n${events}`);
-      }
-    } catch (e) { console.debug("Failed to get upcoming events for briefing", e); }
+  private onSchedulesChanged = () => {
+    void this.reloadJobs();
+  };
+
+  private onCallbackQuery = (query: TelegramBot.CallbackQuery) => {
+    if (query.message?.chat.id !== Number(this.user.chatId)) return;
+    const match = query.data?.match(/^reminder:(10m|1h|tomorrow|done|reschedule):(\w+)$/);
+    if (!match) return;
+    this.handleReminderAction(query, match[1] as ReminderAction, match[2])
+      .catch((e) => console.error("Reminder action failed:", e));
+  };
+
+  // ─── Scheduled Jobs ─────────────────────────────────────
+
+  /** Restart every cron task — after the timezone or briefing hours change */
+  async reschedule() {
+    for (const task of this.builtinTasks) task.stop();
+    this.builtinTasks = [
+      // Reminder check every minute
+      cron.schedule("* * * * *", () => {
+        this.checkReminders().catch((e) => console.error("Reminder check failed:", e));
+      }, { timezone: this.user.timezone }),
+      // Recurring events: a new day brings a new occurrence into the window
+      cron.schedule("0 0 * * *", () => {
+        this.refreshReminders(false).catch((e) => console.error("Recurring reminder refresh failed:", e));
+      }, { timezone: this.user.timezone }),
+    ];
+    await this.reloadJobs();
+  }
 
-    try {
-      const tasks = await this.vaultTools.getPendingDailyTasks();
-      if (tasks) parts.push(`✅ **Today's Tasks:**\n${tasks}`);
-    } catch (e) { console.debug("Failed to get pending tasks for briefing", e); }
+  private defaultJobs(): ScheduledJob[] {
+    return [
+      { id: "briefing", cron: `0 ${this.config.morningBriefingHour} * * *`, action: "briefing" },
+      { id: "recap", cron: `0 ${this.config.eveningRecapHour} * * *`, action: "recap" },
+    ];
+  }
 
+  /** Replace the running jobs with the defaults plus schedules.json; a broken file keeps the current ones */
+  private async reloadJobs() {
+    let fileJobs: ScheduledJob[];
     try {
-      const goals = await this.vaultTools.getGoals();
-      if (goals && !goals.includes("No goals")) {
-        parts.push(`🎯 **Goals:**\n${goals.slice(0, 400)}`);
+      fileJobs = (await this.vaultTools.getScheduledJobs()) ?? [];
+    } catch (e) {
+      console.error(`Ignoring ${this.vaultTools.SCHEDULES_PATH} for ${this.user.name}:`, (e as Error).message);
+      return;
+    }
+    const overridden = new Set(fileJobs.map((job) => job.id));
+    const jobs = [...this.defaultJobs().filter((job) => !overridden.has(job.id)), ...fileJobs];
+
+    for (const task of this.jobs.values()) task.stop();
+    this.jobs.clear();
+    for (const job of jobs) {
+      if (job.enabled === false) continue;
+      const valid = job.id && cron.validate(job.cron) &&
+        (job.prompt ? !job.action : !!job.action && SCHEDULED_ACTIONS.includes(job.action));
+      if (!valid) {
+        console.warn(`Skipping scheduled job ${JSON.stringify(job)} — it needs an id, a valid cron and a prompt or action`);
+        continue;
+      }
+      try {
+        this.jobs.set(job.id, cron.schedule(job.cron, () => {
+          this.runJob(job).catch((e) => console.error(`Scheduled job ${job.id} failed:`, e));
+        }, { timezone: job.timezone || this.user.timezone }));
+      } catch (e) {
+        console.warn(`Skipping scheduled job ${job.id}:`, (e as Error).message);
       }
-    } catch (e) { console.debug("Failed to get goals for briefing", e); }
+    }
+    console.debug(`Scheduler for ${this.user.name} (${this.user.timezone}): ${[...this.jobs.keys()].join(", ") || "no jobs"}`);
+  }
 
-    const briefing = parts.length > 0
-      ? `☀️ **Morning Briefing**\n\n${parts.join("\n\n")}`
-      : "☀️ Good morning! No events or tasks today.";
+  private async runJob(job: ScheduledJob) {
+    switch (job.action) {
+      case "briefing": return this.sendBriefing();
+      case "recap": return this.sendRecap();
+      case "goals": return this.sendGoalCheckIn();
+      case "deadlines": return this.sendDeadlineNudges();
+    }
+    if (job.prompt) await this.runPromptJob(job.id, job.prompt);
+  }
 
-    await this.sendMessage(briefing);
+  /**
+   * Run a job's prompt with read-only tools — nobody is there to approve writes —
+   * and send the answer. The exchange is added to the chat's conversation so a
+   * reply to it has the context.
+   */
+  private async runPromptJob(id: string, prompt: string) {
+    const profile = await this.vaultTools.readNote("system/profile.md").catch(() => "");
+    const index = await this.vaultTools.readNote("system/index.md").catch(() => "");
+    const preferencesContext = await this.vaultTools.getPreferenceContext();
+    const userMessage = `[Scheduled job "${id}" — sent automatically, not typed by the user]\n${prompt}\n\n` +
+      "Reply with the message to send to the user now.";
+
+    const { model } = this.session.conversation;
+    const provider = resolveProvider(model, { custom: this.config.customModels });
+    const tools = getToolDefinitions().filter((t) => !isWriteTool(t.name));
+    let text = "";
+    const response = await this.aiClient.sendMessage({
+      userMessage,
+      mode: "quick",
+      model,
+      provider,
+      systemPrompt: buildSystemPrompt(profile, index, "quick", "", preferencesContext),
+      conversationHistory: [],
+      // Nobody is there to approve a change: only the offered read tools run, whatever the model asks for
+      toolExecutor: async (name, input) => tools.some((t) => t.name === name)
+        ? this.session.toolExecutor(name, input)
+        : `${name} can't run in a scheduled job — nobody is there to approve it. Suggest the change in your message instead.`,
+      tools,
+      toolPolicies: this.config.toolPolicies,
+      approveToolUse: async () => ({ approved: false, reason: "scheduled jobs run unattended" }),
+      onText: (chunk) => { text += chunk; },
+      onThinking: () => {},
+      onToolUse: () => {},
+      onToolResult: () => {},
+    });
+    if (!text.trim()) return;
+    await this.sendMessage(text);
+
+    // A chat turn in progress owns the conversation; add the job's exchange once it has finished
+    while (this.session.processing) await new Promise((resolve) => setTimeout(resolve, TURN_POLL_MS));
+    const { conversation } = this.session;
+    conversation.messages.push(
+      { role: "user", content: userMessage, timestamp: Date.now() },
+      { role: "assistant", content: text, timestamp: Date.now() },
+    );
+    conversation.history.push({ role: "user", content: userMessage }, { role: "assistant", content: text });
+    conversation.totalInputTokens += response.usage.inputTokens;
+    conversation.totalOutputTokens += response.usage.outputTokens;
+    conversation.updatedAt = Date.now();
+    await this.session.conversations.save(conversation)
+      .catch((e) => console.error(`Failed to save conversation for ${this.user.name}:`, e));
   }
 
-  // ─── Evening Recap ──────────────────────────────────────
+  // ─── Goal Check-in & Deadlines ──────────────────────────
 
-  private async sendRecap() {
-    const today = new Date().toISOString().slice(0, 10);
-    const parts: string[] = [];
+  private async sendGoalCheckIn() {
+    const goals = await this.vaultTools.getGoals();
+    if (goals.startsWith("No goals")) return;
+    await this.sendMessage(
+      `🎯 **Weekly goal check-in**\n\n${goals.length > 1500 ? goals.slice(0, 1500) + "\n..." : goals}\n\n` +
+      "How did this week go? Tell me and I'll update your progress.",
+    );
+  }
 
-    try {
-      const dailyNote = await this.vaultTools.getDailyNote(today);
-      if (dailyNote && !dailyNote.includes("not found")) {
-        // Count completed tasks
-        const completedCount = (dailyNote.match(/- \[x\]/gi) || []).length;
-        const pendingCount = (dailyNote.match(/- \[ \]/g) || []).length;
-        if (completedCount > 0 || pendingCount > 0) {
-          parts.push(`✅ Tasks: ${completedCount} done, ${pendingCount} pending`);
-        }
-      }
-    } catch (e) { console.debug("Failed to read daily note for recap", e); }
+  /** Open tasks with a due date that has passed or is coming up; silent when there are none */
+  private async sendDeadlineNudges() {
+    const today = new Date().toLocaleDateString("en-CA", { timeZone: this.user.timezone });
+    const horizon = new Date(Date.now() + DEADLINE_HORIZON_DAYS * 86400000)
+      .toLocaleDateString("en-CA", { timeZone: this.user.timezone });
+
+    const due = ((await this.vaultTools.findTasks("", false)) ?? [])
+      .map((task) => ({ task, date: task.text.match(DUE_DATE_REGEX)?.[1] }))
+      .filter((t): t is { task: typeof t.task; date: string } => !!t.date && t.date <= horizon)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    if (due.length === 0) return;
+
+    const lines = due.map(({ task, date }) => {
+      const when = date < today ? `⚠️ overdue (${date})` : date === today ? "today" : date;
+      return `- ${task.text.replace(DUE_DATE_REGEX, "").trim()} — ${when} (${task.path})`;
+    });
+    await this.sendMessage(`⏰ **Tasks due soon**\n\n${lines.join("\n")}`);
+  }
 
-    try {
-      const events = await this.calendarManager.getEvents(today);
-      if (events && !events.includes("No events")) {
-        parts.push(`📅 **Today's Events:**\n${events}`);
-      }
-    } catch (e) { console.debug("Failed to get events for recap", e); }
+  // ─── Briefing & Recap ───────────────────────────────────
 
-    const recap = parts.length > 0
-      ? `🌙 **Evening Recap**\n\n${parts.join("\n\n")}`
-      : "🌙 Good evening! Have a restful night.";
+  private async sendBriefing() {
+    await this.sendMessage(await writeCheckIn(this.aiClient, this.config, this.session, "morning"));
+  }
 
-    await this.sendMessage(recap);
+  private async sendRecap() {
+    await this.sendMessage(await writeCheckIn(this.aiClient, this.config, this.session, "evening"));
   }
 
   // ─── AI-Driven Smart Reminders ──────────────────────────
 
   private async checkReminders() {
+    // Sending can outlast a minute when Telegram is slow; don't start a second pass meanwhile
+    if (this.checkingReminders) return;
+    this.checkingReminders = true;
     try {
-      const raw = await this.vaultTools.readNote(REMINDERS_PATH).catch(() => "[]");
-      if (raw.startsWith("File not found")) return; // No reminders file yet
-      const entries: ReminderEntry[] = JSON.parse(raw);
-      const now = Date.now();
-      let changed = false;
-
-      for (const entry of entries) {
-        for (const r of entry.reminders) {
-          if (!r.sent && r.sendAt <= now) {
-            const emoji = r.priority === "high" ? "🔴" : "🔔";
-            await this.sendMessage(`${emoji} ${r.message}`);
-            r.sent = true;
-            changed = true;
+      // Collect what's due (giving older entries their button ids), then send outside the file lock
+      const due: { id: string; text: string }[] = [];
+      await this.updateReminders((entries) => {
+        const now = Date.now();
+        let changed = false;
+        for (const entry of entries) {
+          for (const r of entry.reminders) {
+            const dueAt = r.snoozedUntil ?? (r.sent ? null : r.sendAt);
+            if (dueAt === null || dueAt > now) continue;
+            if (!r.id) {
+              r.id = randomBytes(4).toString("hex");
+              changed = true;
+            }
+            due.push({ id: r.id, text: `${r.priority === "high" ? "🔴" : "🔔"} ${r.message}` });
           }
         }
+        return changed ? entries : null;
+      });
+      if (due.length === 0) return;
+
+      // Each send on its own, so one failure doesn't resend the others next minute
+      const sent = new Set<string>();
+      for (const { id, text } of due) {
+        try {
+          await this.sendMessage(text, { reply_markup: { inline_keyboard: reminderKeyboard(id) } });
+          sent.add(id);
+        } catch (e) {
+          console.error(`Failed to send reminder to ${this.user.name}, retrying next minute:`, (e as Error).message);
+        }
       }
-
-      if (changed) {
-        // Clean up: keep entries that have unsent reminders or future events
-        const active = entries.filter((e) =>
-          e.reminders.some((r) => !r.sent) || e.eventTimestamp > now,
-        );
-        await this.vaultTools.writeNote(REMINDERS_PATH, JSON.stringify(active, null, 2));
-      }
+      if (sent.size === 0) return;
+
+      await this.updateReminders((entries) => {
+        const now = Date.now();
+        for (const r of entries.flatMap((e) => e.reminders)) {
+          if (!r.id || !sent.has(r.id)) continue;
+          r.sent = true;
+          delete r.snoozedUntil;
+        }
+        // Clean up: keep entries that have unsent or snoozed reminders, or future events
+        return entries.filter((e) => e.reminders.some((r) => !r.sent || r.snoozedUntil) || e.eventTimestamp > now);
+      });
     } catch (e) {
       console.debug("Reminder check failed (no file or parse error)", e);
+    } finally {
+      this.checkingReminders = false;
+    }
+  }
+
+
+  /**
+   * A button under a sent reminder. Snoozes are saved in reminders.json so they
+   * survive a restart; Done completes the event, which cancels its other
+   * reminders; Reschedule asks for a new time and leaves the move to the model.
+   */
+  private async handleReminderAction(query: TelegramBot.CallbackQuery, action: ReminderAction, id: string) {
+    const found: { entry?: ReminderEntry; until?: number } = {};
+    await this.updateReminders((entries) => {
+      found.entry = entries.find((e) => e.reminders.some((r) => r.id === id));
+      if (!found.entry || (action !== "10m" && action !== "1h" && action !== "tomorrow")) return null;
+      found.until = this.snoozeUntil(action);
+      found.entry.reminders.find((r) => r.id === id)!.snoozedUntil = found.until;
+      return entries;
+    });
+
+    const { entry, until } = found;
+    if (!entry) {
+      await this.bot.answerCallbackQuery(query.id, { text: "This reminder is no longer active." }).catch(() => {});
+      return;
+    }
+
+    let status: string;
+    if (until !== undefined) {
+      const time = new Date(until).toLocaleString("en-GB", {
+        timeZone: this.user.timezone, weekday: "short", hour: "2-digit", minute: "2-digit",
+      });
+      status = `😴 Snoozed until ${time}`;
+    } else if (action === "done") {
+      await this.calendarManager.completeEvent(entry.eventId, true, eventDate(entry.eventTimestamp, this.user.timezone));
+      status = "✅ Done";
+    } else {
+      this.session.reschedule = { path: entry.eventId, title: entry.eventTitle, expiresAt: Date.now() + RESCHEDULE_WINDOW_MS };
+      status = "📅 Rescheduling…";
+      await this.bot.sendMessage(Number(this.user.chatId), `When should "${entry.eventTitle}" move to? Reply with the new date or time.`, {
+        reply_markup: { force_reply: true, input_field_placeholder: "e.g. tomorrow at 3pm" },
+      });
+    }
+
+    await this.bot.answerCallbackQuery(query.id, { text: status }).catch(() => {});
+    // Replace the buttons with the outcome so the chat shows what was done
+    if (query.message?.text) {
+      await this.bot.editMessageText(`${query.message.text}\n\n${status}`, {
+        chat_id: query.message.chat.id,
+        message_id: query.message.message_id,
+      }).catch((e) => console.debug("Failed to update reminder message", e));
     }
   }
 
-  /** Called externally when a new event is created */
-  async planRemindersForEvent(event: {
-    title: string;
-    date: string;
-    startTime?: string;
-    location?: string;
-    description?: string;
-  }) {
+  /** 10 minutes or an hour from now, or tomorrow at MORNING_HOUR */
+  private snoozeUntil(action: "10m" | "1h" | "tomorrow"): number {
+    if (action === "10m") return Date.now() + 10 * 60000;
+    if (action === "1h") return Date.now() + 60 * 60000;
+    const tomorrow = new Date(Date.now() + 86400000).toLocaleDateString("en-CA", { timeZone: this.user.timezone });
+    return eventTimestamp(tomorrow, `${String(this.config.morningBriefingHour).padStart(2, "0")}:00`, this.user.timezone);
+  }
+
+  /**
+   * Keep reminders.json in step with an event file: plan reminders for a new
+   * event, re-plan when its title or time changes, cancel them once it is
+   * deleted or completed. Recurring and rrule events get an entry per upcoming
+   * occurrence within RECURRING_WINDOW_DAYS, all from one plan; completed and
+   * skipped dates are left out.
+   */
+  async syncEventReminders(filePath: string, event: CalendarEvent | null) {
+    if (!event || (event.type === "single" && (event.completed || !event.date))) {
+      this.recurringPlans.delete(filePath);
+      await this.cancelRemindersForEvent(filePath);
+      return;
+    }
+
+    const startTime = event.allDay ? undefined : event.startTime;
+    const timestamps = this.occurrenceDates(event).map((date) => eventTimestamp(date, startTime, this.user.timezone));
+    const planned = (await this.loadReminders()).filter((e) => e.eventId === filePath);
+    const current = planned.filter((e) => e.eventTitle === event.title && timestamps.includes(e.eventTimestamp));
+    const missing = timestamps.filter((t) => t > Date.now() && !current.some((e) => e.eventTimestamp === t));
+    if (current.length === planned.length && missing.length === 0) return;
+
+    // One plan per event and time, reused for each of its occurrences
+    const planKey = `${event.title}|${startTime ?? ""}`;
+    let plan: ReminderPlan[] | null = [];
+    if (missing.length > 0) {
+      const cached = this.recurringPlans.get(filePath);
+      plan = cached?.key === planKey ? cached.plan : await this.askReminderPlan(event, startTime);
+      if (plan && event.type !== "single") this.recurringPlans.set(filePath, { key: planKey, plan });
+    }
+
+    // Drop entries for occurrences that moved, were completed or skipped; add the new ones.
+    // An empty plan still records the occurrence so an unrelated edit doesn't trigger another planning call
+    const added = plan ? missing.map((t) => reminderEntry(filePath, event.title, t, plan)) : [];
+    await this.updateReminders((entries) => [
+      ...entries.filter((e) => e.eventId !== filePath || current.some((c) => c.eventTimestamp === e.eventTimestamp)),
+      ...added,
+    ]);
+    if (added.length > 0) {
+      console.debug(`Planned ${plan?.length ?? 0} reminders for ${added.length} occurrence(s) of: ${event.title}`);
+    }
+  }
+
+  /** The dates reminders are kept for: a single event's date, or a recurring event's next occurrences */
+  private occurrenceDates(event: CalendarEvent): string[] {
+    if (event.type === "single") return event.date ? [event.date] : [];
+    const today = new Date().toLocaleDateString("en-CA", { timeZone: this.user.timezone });
+    const last = new Date(Date.now() + RECURRING_WINDOW_DAYS * 86400000)
+      .toLocaleDateString("en-CA", { timeZone: this.user.timezone });
+    return this.calendarManager.getOccurrences(event, today, last);
+  }
+
+  /**
+   * Bring reminders.json in step with the events on disk. Nightly this only
+   * moves the recurring window forward; at startup single events are included.
+   */
+  private async refreshReminders(includeSingle: boolean) {
+    for (const event of await this.calendarManager.getAllEvents()) {
+      if (event.type === "single" && !includeSingle) continue;
+      await this.syncEventReminders(event.filePath, event)
+        .catch((e) => console.error(`Reminder sync failed for ${event.filePath}:`, e));
+    }
+  }
+
+  async cancelRemindersForEvent(filePath: string) {
+    await this.updateReminders((entries) => {
+      const remaining = entries.filter((e) => e.eventId !== filePath);
+      if (remaining.length === entries.length) return null;
+      console.debug(`Cancelled reminders for: ${filePath}`);
+      return remaining;
+    });
+  }
+
+  /** Ask the AI when to remind the user about an event; null when the answer can't be used */
+  private async askReminderPlan(event: CalendarEvent, startTime?: string): Promise<ReminderPlan[] | null> {
+    const repeats = event.type === "recurring"
+      ? `every ${(event.daysOfWeek ?? []).join(", ")}`
+      : event.type === "rrule" ? event.rrule ?? "yes" : "";
+    const vietnamese = this.user.language === "vi";
     try {
       const prompt = `You are a reminder planner. Given this event, decide WHEN and HOW to remind the user.
 Consider: event importance, preparation needed, travel time, time of day.
 
 Event: ${event.title}
-Date: ${event.date} ${event.startTime || "all day"}
-Location: ${event.location || "none"}
+${repeats
+    ? `Repeats: ${repeats}, at ${startTime || "all day"} — the same reminders are used for every occurrence, so don't mention a specific date`
+    : `Date: ${event.date} ${startTime || "all day"}`}
 
 Return ONLY a JSON array, no other text:
-[{ "beforeMinutes": number, "message": "reminder message in Vietnamese", "priority": "high"|"normal" }]
+[{ "beforeMinutes": number, "message": "reminder message in ${vietnamese ? "Vietnamese" : "English"}", "priority": "high"|"normal" }]
 
 Examples:
-- Doctor 2pm → [{ "beforeMinutes": 1440, "message": "Ngày mai có lịch khám bác sĩ lúc 2pm", "priority": "high" }, { "beforeMinutes": 60, "message": "Lịch khám bác sĩ trong 1 tiếng nữa", "priority": "high" }]
-- Coffee 3pm → [{ "beforeMinutes": 30, "message": "Gặp bạn lúc 3pm — 30 phút nữa", "priority": "normal" }]`;
+${vietnamese
+    ? `- Doctor 2pm → [{ "beforeMinutes": 1440, "message": "Ngày mai có lịch khám bác sĩ lúc 2pm", "priority": "high" }, { "beforeMinutes": 60, "message": "Lịch khám bác sĩ trong 1 tiếng nữa", "priority": "high" }]
+- Coffee 3pm → [{ "beforeMinutes": 30, "message": "Gặp bạn lúc 3pm — 30 phút nữa", "priority": "normal" }]`
+    : `- Doctor 2pm → [{ "beforeMinutes": 1440, "message": "Doctor's appointment tomorrow at 2pm", "priority": "high" }, { "beforeMinutes": 60, "message": "Doctor's appointment in 1 hour", "priority": "high" }]
+- Coffee 3pm → [{ "beforeMinutes": 30, "message": "Coffee with a friend at 3pm — 30 minutes to go", "priority": "normal" }]`}`;
 
-      const response = await this.aiClient.summarize(
-        prompt,
-        "Return valid JSON only.",
-        "claude",
-        this.config.defaultModel,
-      );
+      const model = this.config.defaultModel;
+      const provider = resolveProvider(model, { custom: this.config.customModels });
+      const response = await this.aiClient.summarize(prompt, "Return valid JSON only.", provider, model);
 
       // Extract JSON from response (handle markdown code blocks)
-      let jsonStr = response.text.trim();
-      const jsonMatch = jsonStr.match(/\[[\s\S]*\]/);
+      const jsonMatch = response.text.trim().match(/\[[\s\S]*\]/);
       if (!jsonMatch) {
-        console.error("Failed to parse reminder plan:", jsonStr);
-        return;
+        console.error("Failed to parse reminder plan:", response.text);
+        return null;
       }
-      jsonStr = jsonMatch[0];
-      const reminders = JSON.parse(jsonStr);
-
-      const eventTime = new Date(`${event.date}T${event.startTime || "00:00"}`).getTime();
-      const entry: ReminderEntry = {
-        eventId: `${event.date}-${event.title}`,
-        eventTitle: event.title,
-        eventTimestamp: eventTime,
-        reminders: reminders.map((r: { beforeMinutes: number; message: string; priority: string }) => ({
-          sendAt: eventTime - r.beforeMinutes * 60000,
-          message: r.message,
-          priority: r.priority || "normal",
-          sent: false,
-        })),
-      };
-
-      // Filter out reminders that are already past
-      entry.reminders = entry.reminders.filter((r) => r.sendAt > Date.now());
-
-      if (entry.reminders.length === 0) return;
-
-      // Load existing reminders, remove old for same event, add new
-      const raw = await this.vaultTools.readNote(REMINDERS_PATH).catch(() => "[]");
-      const existing: ReminderEntry[] = raw.startsWith("File not found") ? [] : JSON.parse(raw);
-      const filtered = existing.filter((e) => e.eventId !== entry.eventId);
-      filtered.push(entry);
-      await this.vaultTools.writeNote(REMINDERS_PATH, JSON.stringify(filtered, null, 2));
-
-      console.debug(`Planned ${entry.reminders.length} reminders for: ${event.title}`);
+      return (JSON.parse(jsonMatch[0]) as { beforeMinutes: number; message: string; priority?: string }[])
+        .map((r) => ({ beforeMinutes: r.beforeMinutes, message: r.message, priority: r.priority === "high" ? "high" : "normal" }));
     } catch (e) {
       console.error("Failed to plan reminders:", e);
+      return null;
     }
   }
 
   // ─── Helpers ────────────────────────────────────────────
 
-  private async sendMessage(text: string) {
-    const chatId = Number(this.config.telegramChatId);
-    await this.bot.sendMessage(chatId, text, { parse_mode: "Markdown" })
-      .catch(() => this.bot.sendMessage(chatId, text));
+  private async loadReminders(): Promise<ReminderEntry[]> {
+    const raw = await this.vaultTools.readFile(REMINDERS_PATH);
+    return raw ? JSON.parse(raw) : [];
+  }
+
+  /**
+   * Read-modify-write reminders.json, one caller at a time so the minute check,
+   * tool calls and the events watcher can't overwrite each other's changes.
+   * `update` returns the new entries, or null to leave the file untouched.
+   */
+  private updateReminders(
+    update: (entries: ReminderEntry[]) => ReminderEntry[] | null | Promise<ReminderEntry[] | null>,
+  ): Promise<void> {
+    const run = this.remindersQueue.then(async () => {
+      const next = await update(await this.loadReminders());
+      if (next) await this.vaultTools.writeNote(REMINDERS_PATH, JSON.stringify(next, null, 2));
+    });
+    this.remindersQueue = run.catch(() => {});
+    return run;
+  }
+
+  /** `options` (e.g. buttons) go on the last chunk */
+  private async sendMessage(text: string, options: TelegramBot.SendMessageOptions = {}) {
+    const chatId = Number(this.user.chatId);
+    const chunks = toTelegramHtml(text);
+    for (const [i, chunk] of chunks.entries()) {
+      const extra = i === chunks.length - 1 ? options : {};
+      await this.bot.sendMessage(chatId, chunk, { ...extra, parse_mode: "HTML" })
+        .catch(() => this.bot.sendMessage(chatId, htmlToPlain(chunk), extra));
+    }
   }
 }
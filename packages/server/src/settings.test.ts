@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { PROFILE_SETTINGS, SERVER_SETTINGS, validateSettings } from "./settings";
+
+describe("validateSettings", () => {
+  it("accepts valid values and trims text", () => {
+    expect(validateSettings(SERVER_SETTINGS, {
+      morningBriefingHour: 6,
+      defaultModel: "  gpt-4o ",
+      enabledModels: ["gpt-4o", "claude-sonnet-4-20250514"],
+      chatMode: "dive",
+      timezone: "Europe/Berlin",
+      toolPolicies: { write_note: "auto", delete_event: "deny" },
+      voiceNotesFolder: "",
+      attachmentsFolder: "files/attachments",
+    })).toEqual({
+      values: {
+        morningBriefingHour: 6,
+        defaultModel: "gpt-4o",
+        enabledModels: ["gpt-4o", "claude-sonnet-4-20250514"],
+        chatMode: "dive",
+        timezone: "Europe/Berlin",
+        toolPolicies: { write_note: "auto", delete_event: "deny" },
+        voiceNotesFolder: "",
+        attachmentsFolder: "files/attachments",
+      },
+      errors: [],
+    });
+  });
+
+  it("passes null through as a reset", () => {
+    expect(validateSettings(SERVER_SETTINGS, { eveningRecapHour: null, toolPolicies: null })).toEqual({
+      values: { eveningRecapHour: null, toolPolicies: null },
+      errors: [],
+    });
+  });
+
+  it("reports unknown keys and keeps the valid rest", () => {
+    expect(validateSettings(SERVER_SETTINGS, { apiToken: "secret", chatMode: "quick" })).toEqual({
+      values: { chatMode: "quick" },
+      errors: ["Unknown setting: apiToken"],
+    });
+  });
+
+  it("checks integers against their range", () => {
+    expect(validateSettings(SERVER_SETTINGS, {
+      morningBriefingHour: 24,
+      eveningRecapHour: 20.5,
+      toolApprovalTimeoutSec: "60",
+    }).errors).toEqual([
+      "Morning briefing hour must be between 0 and 23",
+      "Evening recap hour must be a whole number",
+      "Approval timeout (seconds) must be a whole number",
+    ]);
+  });
+
+  it("checks required text, options and timezones", () => {
+    expect(validateSettings(SERVER_SETTINGS, {
+      defaultModel: "   ",
+      chatMode: "deep",
+      language: 1,
+      timezone: "Mars/Olympus",
+    }).errors).toEqual([
+      "Default model is required",
+      "Default chat mode must be one of quick, dive",
+      "Default language must be text",
+      "Default timezone: unknown timezone \"Mars/Olympus\"",
+    ]);
+  });
+
+  it("keeps folders inside the vault", () => {
+    expect(validateSettings(SERVER_SETTINGS, { voiceNotesFolder: "/etc", attachmentsFolder: "notes/../../x" }).errors)
+      .toEqual([
+        "Voice notes folder must be a folder inside the vault",
+        "Attachments folder must be a folder inside the vault",
+      ]);
+  });
+
+  it("checks model lists and tool policies", () => {
+    expect(validateSettings(SERVER_SETTINGS, {
+      enabledModels: ["gpt-4o", 3],
+      toolPolicies: { write_note: "always" },
+    }).errors).toEqual([
+      "Models offered must be a list of names",
+      "write_note: use auto, confirm or deny",
+    ]);
+    expect(validateSettings(SERVER_SETTINGS, { toolPolicies: ["write_note"] }).errors)
+      .toEqual(["Tools must map tool names to policies"]);
+  });
+
+  it("only knows the fields it is given", () => {
+    expect(validateSettings(PROFILE_SETTINGS, { name: " Lan ", morningBriefingHour: 7 })).toEqual({
+      values: { name: "Lan" },
+      errors: ["Unknown setting: morningBriefingHour"],
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import { watchFile } from "fs";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { dirname, join } from "path";
+import type { ServerConfig } from "./config";
+
+/** Settings file in the admin's vault; its values override the environment */
+export const SERVER_CONFIG_PATH = "system/server-config.json";
+
+/** How often to check the file for hand edits — polling survives sync tools replacing it */
+const SETTINGS_POLL_MS = 5000;
+
+/** The part of ServerConfig that can change at runtime — keys, tokens and paths stay in .env */
+export type EditableSettings = Pick<ServerConfig,
+  | "morningBriefingHour" | "eveningRecapHour" | "timezone" | "defaultModel" | "enabledModels"
+  | "chatMode" | "language" | "toolPolicies" | "toolApprovalTimeoutSec" | "voiceNotesFolder" | "attachmentsFolder"
+>;
+
+/** One field of the settings form — also what incoming values are checked against */
+export interface SettingField {
+  key: string;
+  label: string;
+  help?: string;
+  type: "integer" | "text" | "folder" | "timezone" | "select" | "list" | "policies";
+  min?: number;
+  max?: number;
+  options?: string[];
+  /** Must not be empty */
+  required?: boolean;
+}
+
+export const SERVER_SETTINGS: SettingField[] = [
+  { key: "morningBriefingHour", label: "Morning briefing hour", type: "integer", min: 0, max: 23 },
+  { key: "eveningRecapHour", label: "Evening recap hour", type: "integer", min: 0, max: 23 },
+  { key: "defaultModel", label: "Default model", help: "For new users and reminder planning", type: "text", required: true },
+  { key: "enabledModels", label: "Models offered", help: "Empty offers every model with credentials", type: "list" },
+  { key: "chatMode", label: "Default chat mode", type: "select", options: ["quick", "dive"] },
+  { key: "language", label: "Default language", help: "For new users and voice transcription", type: "select", options: ["en", "vi"] },
+  { key: "timezone", label: "Default timezone", help: "For new users", type: "timezone", required: true },
+  { key: "toolPolicies", label: "Tools", help: "auto runs, confirm asks first, deny hides the tool", type: "policies" },
+  { key: "toolApprovalTimeoutSec", label: "Approval timeout (seconds)", type: "integer", min: 10, max: 3600 },
+  { key: "voiceNotesFolder", label: "Voice notes folder", help: "Empty discards recordings", type: "folder" },
+  { key: "attachmentsFolder", label: "Attachments folder", help: "Empty never saves files", type: "folder" },
+];
+
+export const PROFILE_SETTINGS: SettingField[] = [
+  { key: "name", label: "Name", help: "What you log in to the web chat with", type: "text", required: true },
+  { key: "language", label: "Language", type: "select", options: ["en", "vi"] },
+  { key: "model", label: "Model", type: "text", required: true },
+  { key: "timezone", label: "Timezone", type: "timezone", required: true },
+];
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function checkField(field: SettingField, value: unknown): string | null {
+  switch (field.type) {
+    case "integer":
+      if (typeof value !== "number" || !Number.isInteger(value)) return `${field.label} must be a whole number`;
+      if ((field.min !== undefined && value < field.min) || (field.max !== undefined && value > field.max)) {
+        return `${field.label} must be between ${field.min} and ${field.max}`;
+      }
+      return null;
+    case "text":
+    case "folder":
+    case "timezone":
+    case "select":
+      if (typeof value !== "string") return `${field.label} must be text`;
+      if (field.required && !value.trim()) return `${field.label} is required`;
+      if (field.type === "folder" && (value.startsWith("/") || value.split("/").includes(".."))) {
+        return `${field.label} must be a folder inside the vault`;
+      }
+      if (field.type === "timezone" && !isTimeZone(value)) return `${field.label}: unknown timezone "${value}"`;
+      if (field.type === "select" && !field.options?.includes(value)) {
+        return `${field.label} must be one of ${field.options?.join(", ")}`;
+      }
+      return null;
+    case "list":
+      return Array.isArray(value) && value.every((v) => typeof v === "string") ? null : `${field.label} must be a list of names`;
+    case "policies":
+      if (!value || typeof value !== "object" || Array.isArray(value)) return `${field.label} must map tool names to policies`;
+      for (const [tool, policy] of Object.entries(value)) {
+        if (policy !== "auto" && policy !== "confirm" && policy !== "deny") return `${tool}: use auto, confirm or deny`;
+      }
+      return null;
+  }
+}
+
+/**
+ * Check `input` against `fields`. Valid values are returned trimmed; unknown
+ * keys and bad values are reported. `null` (server settings only) means
+ * "back to the .env value".
+ */
+export function validateSettings(
+  fields: SettingField[],
+  input: Record<string, unknown>,
+): { values: Record<string, unknown>; errors: string[] } {
+  const values: Record<string, unknown> = {};
+  const errors: string[] = [];
+  for (const [key, raw] of Object.entries(input)) {
+    const field = fields.find((f) => f.key === key);
+    if (!field) {
+      errors.push(`Unknown setting: ${key}`);
+      continue;
+    }
+    if (raw === null) {
+      values[key] = null;
+      continue;
+    }
+    const error = checkField(field, raw);
+    if (error) errors.push(error);
+    else values[key] = typeof raw === "string" ? raw.trim() : raw;
+  }
+  return { values, errors };
+}
+
+/**
+ * Server settings from SERVER_CONFIG_PATH layered over the environment. The
+ * shared ServerConfig object is updated in place, so everything that reads it
+ * sees a change at once; onChange listeners handle what was set up from it,
+ * like cron jobs.
+ */
+export class SettingsStore {
+  private defaults: EditableSettings;
+  /** Overrides as saved in the file */
+  private overrides: Partial<EditableSettings> = {};
+  private listeners: (() => void)[] = [];
+
+  constructor(private config: ServerConfig) {
+    this.defaults = this.pick(config);
+  }
+
+  private get path(): string {
+    return join(this.config.vaultPath, SERVER_CONFIG_PATH);
+  }
+
+  private pick(source: EditableSettings): EditableSettings {
+    const picked = {} as Record<string, unknown>;
+    for (const field of SERVER_SETTINGS) picked[field.key] = source[field.key as keyof EditableSettings];
+    return structuredClone(picked) as EditableSettings;
+  }
+
+  /** Apply the file, then reload it whenever it changes on disk */
+  async load() {
+    await this.reload();
+    watchFile(this.path, { interval: SETTINGS_POLL_MS }, () => {
+      void this.reload();
+    });
+  }
+
+  /** Current values, and what each falls back to without an override */
+  values(): { values: EditableSettings; defaults: EditableSettings } {
+    return { values: this.pick(this.config), defaults: structuredClone(this.defaults) };
+  }
+
+  onChange(listener: () => void) {
+    this.listeners.push(listener);
+  }
+
+  /** Validate and save `input` (null resets a setting), then apply it; returns the problems instead when there are any */
+  async update(input: Record<string, unknown>): Promise<string[]> {
+    const { values, errors } = validateSettings(SERVER_SETTINGS, input);
+    if (errors.length > 0) return errors;
+
+    const overrides: Record<string, unknown> = { ...this.overrides };
+    for (const [key, value] of Object.entries(values)) {
+      if (value === null) delete overrides[key];
+      else overrides[key] = value;
+    }
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(this.path, JSON.stringify(overrides, null, 2), "utf8");
+    this.apply(overrides as Partial<EditableSettings>);
+    return [];
+  }
+
+  /** Re-read the file; a broken file keeps the current settings */
+  private async reload() {
+    let raw: string;
+    try {
+      raw = await readFile(this.path, "utf8");
+    } catch (e) {
+      console.debug(`No ${SERVER_CONFIG_PATH}, using the environment`, e);
+      raw = "{}";
+    }
+    let parsed: Record<string, unknown>;
+    try {
+      parsed = JSON.parse(raw);
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) throw new Error("expected a JSON object");
+    } catch (e) {
+      console.error(`Ignoring ${SERVER_CONFIG_PATH}:`, (e as Error).message);
+      return;
+    }
+    const { values, errors } = validateSettings(SERVER_SETTINGS, parsed);
+    for (const error of errors) console.warn(`${SERVER_CONFIG_PATH}: ${error} — skipped`);
+    for (const key of Object.keys(values)) if (values[key] === null) delete values[key];
+    this.apply(values as Partial<EditableSettings>);
+  }
+
+  private apply(overrides: Partial<EditableSettings>) {
+    const before = JSON.stringify(this.pick(this.config));
+    this.overrides = overrides;
+    Object.assign(this.config, this.defaults, structuredClone(overrides));
+    if (JSON.stringify(this.pick(this.config)) === before) return;
+    console.debug("Server settings changed");
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (e) {
+        console.error("Settings listener failed:", e);
+      }
+    }
+  }
+}
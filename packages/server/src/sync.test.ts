@@ -0,0 +1,104 @@
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { hashContent, normalizeSyncPath, VaultSync } from "./sync";
+
+describe("normalizeSyncPath", () => {
+  it("accepts vault-relative file paths", () => {
+    expect(normalizeSyncPath("notes/plan.md")).toBe("notes/plan.md");
+    expect(normalizeSyncPath("Daily Notes/2026-03-01.md")).toBe("Daily Notes/2026-03-01.md");
+  });
+
+  it.each([
+    ["a non-string", 42],
+    ["an empty path", ""],
+    ["an absolute path", "/etc/passwd"],
+    ["a parent reference", "notes/../../etc/passwd"],
+    ["a backslash", "notes\\plan.md"],
+    ["a NUL byte", "notes/plan.md\0.png"],
+    ["an empty segment", "notes//plan.md"],
+    ["a dot folder", ".obsidian/workspace.json"],
+    ["a dot file", "notes/.DS_Store"],
+    ["a Syncthing temp file", "notes/~syncthing~plan.md.tmp"],
+  ])("rejects %s", (_label, path) => {
+    expect(normalizeSyncPath(path)).toBeNull();
+  });
+});
+
+describe("VaultSync", () => {
+  let root: string;
+  let sync: VaultSync;
+  const content = (text: string) => Buffer.from(text, "utf8");
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "lc-sync-"));
+    await mkdir(join(root, "system"));
+    await writeFile(join(root, "system/users.json"), "[]");
+    sync = new VaultSync(root, [join(root, "system/users.json")]);
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("creates a file only when the client expects none", async () => {
+    expect(await sync.write("notes/a.md", content("one"), null)).toEqual({ conflict: false, hash: hashContent(content("one")) });
+    expect(await readFile(join(root, "notes/a.md"), "utf8")).toBe("one");
+    expect(Object.keys(await sync.manifest())).toEqual(["notes/a.md"]);
+  });
+
+  it("overwrites when the base hash matches and treats identical content as a no-op", async () => {
+    const first = await sync.write("a.md", content("one"), null);
+    const second = await sync.write("a.md", content("two"), first.hash);
+    expect(second).toEqual({ conflict: false, hash: hashContent(content("two")) });
+    expect(await sync.write("a.md", content("two"), "stale")).toEqual(second);
+    expect(await readFile(join(root, "a.md"), "utf8")).toBe("two");
+  });
+
+  it("keeps the server copy and saves a conflict copy when the base hash is outdated", async () => {
+    const first = await sync.write("notes/a.md", content("one"), null);
+    await sync.write("notes/a.md", content("server edit"), first.hash);
+
+    const result = await sync.write("notes/a.md", content("client edit"), first.hash);
+    expect(result).toMatchObject({ conflict: true, hash: hashContent(content("server edit")) });
+    if (!result.conflict) return;
+    expect(result.conflictPath).toMatch(/^notes\/a \(conflict \d{4}-\d{2}-\d{2} \d{2}-\d{2}-\d{2}\)\.md$/);
+    expect(await readFile(join(root, "notes/a.md"), "utf8")).toBe("server edit");
+    expect(await readFile(join(root, result.conflictPath), "utf8")).toBe("client edit");
+  });
+
+  it("treats a create over an existing file as a conflict", async () => {
+    await sync.write("a.md", content("server"), null);
+    expect(await sync.write("a.md", content("client"), null)).toMatchObject({ conflict: true });
+    expect(await readFile(join(root, "a.md"), "utf8")).toBe("server");
+  });
+
+  it("deletes only the version the client saw", async () => {
+    const { hash } = await sync.write("a.md", content("one"), null);
+    expect(await sync.remove("a.md", "stale")).toBe(false);
+    expect(await readFile(join(root, "a.md"), "utf8")).toBe("one");
+    expect(await sync.remove("a.md", hash)).toBe(true);
+    expect(await sync.remove("a.md", hash)).toBe(true);
+    expect(await readdir(root)).toEqual(["system"]);
+  });
+
+  it("runs concurrent pushes from the same base one at a time", async () => {
+    const { hash } = await sync.write("a.md", content("base"), null);
+    const results = await Promise.all([
+      sync.write("a.md", content("phone"), hash),
+      sync.write("a.md", content("laptop"), hash),
+    ]);
+    expect(results.map((r) => r.conflict)).toEqual([false, true]);
+    expect(await readFile(join(root, "a.md"), "utf8")).toBe("phone");
+  });
+
+  it("leaves the server's own files alone", async () => {
+    expect(sync.syncPath("system/users.json")).toBeNull();
+    expect(await sync.manifest()).toEqual({});
+    expect(await sync.read("system/users.json")).toBeNull();
+    await expect(sync.write("system/users.json", content("[]"), null)).rejects.toThrow();
+    await expect(sync.remove("system/users.json", null)).rejects.toThrow();
+    expect(await readFile(join(root, "system/users.json"), "utf8")).toBe("[]");
+  });
+});
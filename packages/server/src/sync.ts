@@ -0,0 +1,215 @@
+import { createHash } from "crypto";
+import { watch, type FSWatcher } from "fs";
+import { mkdir, readdir, readFile, rename, stat, unlink, writeFile } from "fs/promises";
+import { dirname, extname, join, resolve } from "path";
+
+/** What the server knows about one file — the hash is what clients compare */
+export interface SyncEntry {
+  hash: string;
+  mtime: number;
+  size: number;
+}
+
+/** A file created, changed (hash) or deleted (hash null) on the server */
+export interface SyncChange {
+  path: string;
+  hash: string | null;
+}
+
+export type SyncWriteResult =
+  | { conflict: false; hash: string }
+  /** The server's copy was kept; the pushed content went to `conflictPath` */
+  | { conflict: true; hash: string | null; conflictPath: string };
+
+/** Wait for a burst of editor saves or a sync tool's temp-file dance to settle */
+const WATCH_DEBOUNCE_MS = 300;
+
+export function hashContent(content: Buffer): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * A vault-relative path that's safe to sync, or null. Dot folders (.obsidian,
+ * .trash, .git, Syncthing's .stfolder) and dot files stay on each device.
+ */
+export function normalizeSyncPath(path: unknown): string | null {
+  if (typeof path !== "string" || !path || path.startsWith("/") || path.includes("\\") || path.includes("\0")) {
+    return null;
+  }
+  const segments = path.split("/");
+  if (segments.some((s) => !s || s.startsWith(".") || s.startsWith("~syncthing~"))) return null;
+  return path;
+}
+
+/** "notes/plan.md" → "notes/plan (conflict 2026-03-01 14-05-09).md" */
+function conflictPath(path: string): string {
+  const ext = extname(path);
+  const stamp = new Date().toISOString().slice(0, 19).replace("T", " ").replace(/:/g, "-");
+  return `${path.slice(0, path.length - ext.length)} (conflict ${stamp})${ext}`;
+}
+
+/**
+ * The server side of vault sync for one vault. Clients compare the manifest of
+ * content hashes with their own, push changes with the hash they started from
+ * (compare-and-swap) and follow other devices' changes through subscribe().
+ * A push based on an outdated hash never overwrites: the server copy stays and
+ * the pushed one is saved next to it as "<name> (conflict <time>)".
+ */
+export class VaultSync {
+  private entries = new Map<string, SyncEntry>();
+  private listeners = new Set<(change: SyncChange) => void>();
+  private watcher: FSWatcher | null = null;
+  private watchTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  /** Writes and deletes run one at a time, so a compare-and-swap can't interleave */
+  private queue: Promise<unknown> = Promise.resolve();
+  /** Absolute paths of files inside the vault that the server keeps to itself */
+  private privateFiles: Set<string>;
+
+  constructor(private root: string, privateFiles: string[] = []) {
+    this.privateFiles = new Set(privateFiles.map((file) => resolve(file)));
+  }
+
+  /** `path` normalized when it syncs — not in a dot folder and not one of the server's own files */
+  syncPath(path: unknown): string | null {
+    const normalized = normalizeSyncPath(path);
+    return normalized && !this.privateFiles.has(resolve(this.root, normalized)) ? normalized : null;
+  }
+
+  private serial<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  /** Hash of a file as it is on disk now, reusing the cached one while mtime and size match */
+  private async entry(path: string): Promise<SyncEntry | null> {
+    const info = await stat(join(this.root, path)).catch(() => null);
+    if (!info?.isFile()) {
+      this.entries.delete(path);
+      return null;
+    }
+    const cached = this.entries.get(path);
+    if (cached && cached.mtime === info.mtimeMs && cached.size === info.size) return cached;
+    const content = await readFile(join(this.root, path)).catch(() => null);
+    if (!content) return null;
+    const entry = { hash: hashContent(content), mtime: info.mtimeMs, size: info.size };
+    this.entries.set(path, entry);
+    return entry;
+  }
+
+  /** Every syncable file with its hash */
+  async manifest(): Promise<Record<string, SyncEntry>> {
+    const files: Record<string, SyncEntry> = {};
+    const walk = async (dir: string) => {
+      const children = await readdir(join(this.root, dir), { withFileTypes: true }).catch(() => []);
+      for (const child of children) {
+        const path = dir ? `${dir}/${child.name}` : child.name;
+        if (!this.syncPath(path)) continue;
+        if (child.isDirectory()) await walk(path);
+        else if (child.isFile()) {
+          const entry = await this.entry(path);
+          if (entry) files[path] = entry;
+        }
+      }
+    };
+    await walk("");
+    for (const path of [...this.entries.keys()]) if (!files[path]) this.entries.delete(path);
+    return files;
+  }
+
+  async read(path: string): Promise<{ content: Buffer; hash: string } | null> {
+    if (!this.syncPath(path)) return null;
+    const content = await readFile(join(this.root, path)).catch(() => null);
+    return content ? { content, hash: hashContent(content) } : null;
+  }
+
+  /** Save pushed content if the server copy still has `baseHash` (null: the file must not exist yet) */
+  write(path: string, content: Buffer, baseHash: string | null): Promise<SyncWriteResult> {
+    if (!this.syncPath(path)) return Promise.reject(new Error(`Not a syncable path: ${path}`));
+    return this.serial(async () => {
+      const current = (await this.entry(path))?.hash ?? null;
+      const hash = hashContent(content);
+      if (current === hash) return { conflict: false, hash };
+      if (current !== baseHash) {
+        const copy = conflictPath(path);
+        await this.save(copy, content);
+        console.warn(`Sync conflict on ${path} — kept the server copy, saved the other as ${copy}`);
+        return { conflict: true, hash: current, conflictPath: copy };
+      }
+      await this.save(path, content);
+      return { conflict: false, hash };
+    });
+  }
+
+  /** Delete a file if it still has `baseHash`; false when it changed since, and is kept */
+  remove(path: string, baseHash: string | null): Promise<boolean> {
+    if (!this.syncPath(path)) return Promise.reject(new Error(`Not a syncable path: ${path}`));
+    return this.serial(async () => {
+      const current = (await this.entry(path))?.hash ?? null;
+      if (current === null) return true;
+      if (current !== baseHash) return false;
+      await unlink(join(this.root, path));
+      this.entries.delete(path);
+      this.notify({ path, hash: null });
+      return true;
+    });
+  }
+
+  /** Follow changes from any source — other clients, the bot's tools, Syncthing; returns an unsubscribe */
+  async subscribe(listener: (change: SyncChange) => void): Promise<() => void> {
+    this.listeners.add(listener);
+    if (!this.watcher) {
+      // Hash everything first, so the watcher can tell real changes from touches
+      await this.manifest();
+      this.startWatching();
+    }
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.stopWatching();
+    };
+  }
+
+  /** Temp file + rename, so a reader never sees half a file */
+  private async save(path: string, content: Buffer) {
+    const file = join(this.root, path);
+    const temp = join(dirname(file), `.${Date.now()}.sync-tmp`);
+    await mkdir(dirname(file), { recursive: true });
+    await writeFile(temp, content);
+    await rename(temp, file);
+    const info = await stat(file);
+    const entry = { hash: hashContent(content), mtime: info.mtimeMs, size: info.size };
+    this.entries.set(path, entry);
+    this.notify({ path, hash: entry.hash });
+  }
+
+  private notify(change: SyncChange) {
+    for (const listener of this.listeners) listener(change);
+  }
+
+  private startWatching() {
+    this.watcher = watch(this.root, { recursive: true }, (_type, fileName) => {
+      const path = this.syncPath(fileName?.toString().split("\\").join("/"));
+      if (!path) return;
+      clearTimeout(this.watchTimers.get(path));
+      this.watchTimers.set(path, setTimeout(() => {
+        this.watchTimers.delete(path);
+        const before = this.entries.get(path)?.hash ?? null;
+        this.entry(path)
+          .then((entry) => {
+            const hash = entry?.hash ?? null;
+            if (hash !== before) this.notify({ path, hash });
+          })
+          .catch((e) => console.error(`Sync watcher failed on ${path}:`, e));
+      }, WATCH_DEBOUNCE_MS));
+    });
+    this.watcher.on("error", (e) => console.error("Vault sync watcher failed:", e));
+    console.debug(`Watching ${this.root} for sync clients`);
+  }
+
+  private stopWatching() {
+    this.watcher?.close();
+    this.watcher = null;
+    for (const timer of this.watchTimers.values()) clearTimeout(timer);
+    this.watchTimers.clear();
+  }
+}
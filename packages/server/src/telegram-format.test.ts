@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { htmlToPlain, MAX_MESSAGE_LENGTH, toTelegramHtml } from "./telegram-format";
+
+/** Every opened tag is closed within the same chunk */
+function balanced(html: string): boolean {
+  const open: string[] = [];
+  for (const [, closing, name] of html.matchAll(/<(\/?)(\w+)[^>]*>/g)) {
+    if (!closing) open.push(name);
+    else if (open.pop() !== name) return false;
+  }
+  return open.length === 0;
+}
+
+describe("toTelegramHtml", () => {
+  it("escapes HTML in text, code and links", () => {
+    expect(toTelegramHtml("1 < 2 & 3 > 2 `a<b>` [x](https://e.com/?a=1&b=\"2\")")).toEqual([
+      "1 &lt; 2 &amp; 3 &gt; 2 <code>a&lt;b&gt;</code> <a href=\"https://e.com/?a=1&amp;b=&quot;2&quot;\">x</a>",
+    ]);
+  });
+
+  it("turns unsafe link targets into plain text", () => {
+    expect(toTelegramHtml("[click](javascript:void)")).toEqual(["click"]);
+  });
+
+  it("renders headings, lists, wiki links and emphasis", () => {
+    expect(toTelegramHtml("## Plan\n- **buy** [[Shopping/Milk.md]]\n- [x] call_mom _today_")).toEqual([
+      "<b>Plan</b>\n• <b>buy</b> <i>Milk</i>\n☑ call_mom <i>today</i>",
+    ]);
+  });
+
+  it("keeps short output in one message", () => {
+    const text = Array.from({ length: 50 }, (_, i) => `Line ${i}`).join("\n");
+    expect(toTelegramHtml(text)).toHaveLength(1);
+  });
+
+  it("splits between lines at the 4000-character limit", () => {
+    const line = "word ".repeat(199).trim();
+    const chunks = toTelegramHtml(Array.from({ length: 30 }, () => line).join("\n"));
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(MAX_MESSAGE_LENGTH);
+      expect(chunk.split("\n").every((l) => l === line)).toBe(true);
+    }
+  });
+
+  it("cuts an oversized code block into several closed <pre> blocks", () => {
+    const code = Array.from({ length: 400 }, (_, i) => `const value${i} = a < b && c > d;`);
+    const chunks = toTelegramHtml(["```ts", ...code, "```"].join("\n"));
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(MAX_MESSAGE_LENGTH);
+      expect(chunk).toMatch(/^<pre><code class="language-ts">[\s\S]*<\/code><\/pre>$/);
+      expect(balanced(chunk)).toBe(true);
+    }
+    expect(htmlToPlain(chunks.join("\n"))).toContain(code[399]);
+  });
+
+  it("cuts a single huge line at spaces without breaking an escaped entity", () => {
+    const text = `${"a".repeat(3997)} &&& ${"**b** ".repeat(1000)}`;
+    const chunks = toTelegramHtml(text);
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(MAX_MESSAGE_LENGTH);
+      expect(chunk).not.toMatch(/&(?:a|am|amp)?$/);
+      expect(chunk).not.toMatch(/^(?:mp|p)?;/);
+      expect(balanced(chunk)).toBe(true);
+    }
+    expect(htmlToPlain(chunks.join(" "))).toContain("&&&");
+  });
+
+  it("honours a smaller limit", () => {
+    const chunks = toTelegramHtml("one two three\nfour five six\nseven", 15);
+    expect(chunks).toEqual(["one two three", "four five six", "seven"]);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * CommonMark-ish model output → Telegram HTML (parse_mode "HTML").
+ *
+ * Telegram only understands a handful of tags (b, i, s, code, pre, a, blockquote),
+ * so headings become bold, lists become bullets, [[wiki links]] become their
+ * title and tables become aligned monospace. Output is split into chunks that
+ * stay under Telegram's message limit without cutting through a tag.
+ */
+
+/** Telegram allows 4096 characters per message; leave room for entities */
+export const MAX_MESSAGE_LENGTH = 4000;
+
+/** A rendered line or block; only cut up when it alone is over the limit */
+interface Unit {
+  html: string;
+  /** Raw lines of a code block or table, so an oversized one can be cut into several <pre> */
+  preLines?: string[];
+  language?: string;
+}
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/** Visible text of rendered HTML — the fallback when Telegram rejects the markup */
+export function htmlToPlain(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&amp;/g, "&");
+}
+
+/** [[folder/Note|alias]] → alias, otherwise the note name without folder or .md */
+function wikiLinkText(target: string): string {
+  const [path, alias] = target.split("|");
+  if (alias?.trim()) return alias.trim();
+  const name = path.split("#")[0].split("/").pop() || path;
+  return name.replace(/\.md$/, "").trim();
+}
+
+/** Inline markup stripped to text — used inside tables, where everything is monospace */
+function stripInline(text: string): string {
+  return text
+    .replace(/!?\[\[([^\]]+)\]\]/g, (_m, target: string) => wikiLinkText(target))
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/`([^`]*)`/g, "$1")
+    .replace(/(\*\*|__|~~)(.+?)\1/g, "$2")
+    .replace(/(^|[^\w*])\*(?!\s)([^*]+?)\*(?!\w)/g, "$1$2");
+}
+
+function renderInline(text: string): string {
+  // Code spans and links are rendered first and parked, so emphasis rules can't reach into them
+  const parked: string[] = [];
+  const park = (html: string) => `\u0000${parked.push(html) - 1}\u0000`;
+
+  let out = text.replace(/`([^`\n]+)`/g, (_m, code: string) => park(`<code>${escapeHtml(code)}</code>`));
+  out = out.replace(/!\[\[([^\]]+)\]\]/g, (_m, target: string) => park(`📎 ${escapeHtml(wikiLinkText(target))}`));
+  out = out.replace(/\[\[([^\]]+)\]\]/g, (_m, target: string) => park(`<i>${escapeHtml(wikiLinkText(target))}</i>`));
+  out = out.replace(/!?\[([^\]]*)\]\((\S+?)(?:\s+"[^"]*")?\)/g, (_m, label: string, url: string) => {
+    if (!/^(https?|tg|mailto):/i.test(url)) return park(escapeHtml(label || url));
+    const href = escapeHtml(url).replace(/"/g, "&quot;");
+    return park(`<a href="${href}">${escapeHtml(label || url)}</a>`);
+  });
+
+  out = escapeHtml(out);
+  out = out
+    .replace(/\*\*(?!\s)(.+?)\*\*/g, "<b>$1</b>")
+    .replace(/(^|[^\w])__(?!\s)(.+?)__(?!\w)/g, "$1<b>$2</b>")
+    .replace(/~~(?!\s)(.+?)~~/g, "<s>$1</s>")
+    .replace(/(^|[^\w*])\*(?!\s)([^*]+?)\*(?!\w)/g, "$1<i>$2</i>")
+    // Underscores only count at word edges, so snake_case and file_names survive
+    .replace(/(^|[^\w])_(?!\s)([^_]+?)_(?!\w)/g, "$1<i>$2</i>");
+
+  return out.replace(/\u0000(\d+)\u0000/g, (_m, i: string) => parked[Number(i)]);
+}
+
+function renderLine(line: string): string {
+  const heading = line.match(/^#{1,6}\s+(.*?)\s*#*$/);
+  // Already bold — drop emphasis inside so tags don't nest
+  if (heading) return `<b>${renderInline(heading[1].replace(/(\*\*|__)(.+?)\1/g, "$2"))}</b>`;
+
+  if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) return "──────────";
+
+  const task = line.match(/^(\s*)[-*+]\s+\[([ xX])\]\s+(.*)$/);
+  if (task) return `${indent(task[1])}${task[2] === " " ? "☐" : "☑"} ${renderInline(task[3])}`;
+
+  const bullet = line.match(/^(\s*)[-*+]\s+(.*)$/);
+  if (bullet) return `${indent(bullet[1])}• ${renderInline(bullet[2])}`;
+
+  const ordered = line.match(/^(\s*)(\d+)[.)]\s+(.*)$/);
+  if (ordered) return `${indent(ordered[1])}${ordered[2]}. ${renderInline(ordered[3])}`;
+
+  return renderInline(line);
+}
+
+/** Nested list levels — Telegram trims ordinary leading spaces, so use no-break spaces */
+function indent(spaces: string): string {
+  const level = Math.floor(spaces.replace(/\t/g, "  ").length / 2);
+  return "\u00a0\u00a0\u00a0".repeat(level);
+}
+
+function isTableRow(line: string): boolean {
+  return /^\s*\|.*\|\s*$/.test(line);
+}
+
+function isTableSeparator(line: string): boolean {
+  return /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/.test(line);
+}
+
+/** Markdown table rows → space-padded columns, header underlined */
+function renderTable(rows: string[]): string[] {
+  const cells = rows
+    .filter((row) => !isTableSeparator(row))
+    .map((row) => row.trim().replace(/^\||\|$/g, "").split("|").map((cell) => stripInline(cell.trim())));
+  const widths: number[] = [];
+  for (const row of cells) {
+    row.forEach((cell, i) => { widths[i] = Math.max(widths[i] ?? 0, [...cell].length); });
+  }
+  const pad = (cell: string, i: number) => cell + " ".repeat(widths[i] - [...cell].length);
+  const lines = cells.map((row) => widths.map((_w, i) => pad(row[i] ?? "", i)).join("  ").trimEnd());
+  if (lines.length > 1) lines.splice(1, 0, widths.map((w) => "─".repeat(w)).join("  "));
+  return lines;
+}
+
+function preHtml(lines: string[], language?: string): string {
+  const body = escapeHtml(lines.join("\n"));
+  return language
+    ? `<pre><code class="language-${escapeHtml(language)}">${body}</code></pre>`
+    : `<pre>${body}</pre>`;
+}
+
+function toUnits(markdown: string): Unit[] {
+  const lines = markdown.replace(/\r\n/g, "\n").split("\n");
+  const units: Unit[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(/^\s*(```|~~~)\s*([\w+-]*)/);
+    if (fence) {
+      const code: string[] = [];
+      for (i++; i < lines.length && !lines[i].trim().startsWith(fence[1]); i++) code.push(lines[i]);
+      const language = fence[2] || undefined;
+      units.push({ html: preHtml(code, language), preLines: code, language });
+      continue;
+    }
+
+    if (isTableRow(line) && i + 1 < lines.length && isTableSeparator(lines[i + 1])) {
+      const rows: string[] = [];
+      for (; i < lines.length && isTableRow(lines[i]); i++) rows.push(lines[i]);
+      i--;
+      const table = renderTable(rows);
+      units.push({ html: preHtml(table), preLines: table });
+      continue;
+    }
+
+    if (/^\s*>/.test(line)) {
+      const quoted: string[] = [];
+      for (; i < lines.length && /^\s*>/.test(lines[i]); i++) quoted.push(lines[i].replace(/^\s*>\s?/, ""));
+      i--;
+      units.push({ html: `<blockquote>${quoted.map(renderLine).join("\n")}</blockquote>` });
+      continue;
+    }
+
+    units.push({ html: renderLine(line) });
+  }
+  return units;
+}
+
+/** Cut a unit that alone exceeds `max`: <pre> blocks by line, other text at spaces */
+function splitUnit(unit: Unit, max: number): string[] {
+  if (unit.preLines) {
+    const pieces: string[] = [];
+    let current: string[] = [];
+    for (const line of unit.preLines) {
+      if (current.length > 0 && preHtml([...current, line], unit.language).length > max) {
+        pieces.push(preHtml(current, unit.language));
+        current = [];
+      }
+      current.push(line.length > max / 2 ? line.slice(0, max / 2) + "…" : line);
+    }
+    if (current.length > 0) pieces.push(preHtml(current, unit.language));
+    return pieces;
+  }
+  // A single huge line: fall back to plain text, cut at word boundaries
+  const text = escapeHtml(htmlToPlain(unit.html));
+  const pieces: string[] = [];
+  let rest = text;
+  while (rest.length > max) {
+    let cut = rest.lastIndexOf(" ", max);
+    if (cut < max / 2) cut = max;
+    // Never cut inside an escaped entity like &amp;
+    const amp = rest.lastIndexOf("&", cut);
+    if (amp > cut - 6 && rest.indexOf(";", amp) >= cut) cut = amp;
+    pieces.push(rest.slice(0, cut));
+    rest = rest.slice(cut).trimStart();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+/** Render model output as Telegram HTML messages, each at most `max` characters */
+export function toTelegramHtml(markdown: string, max = MAX_MESSAGE_LENGTH): string[] {
+  const chunks: string[] = [];
+  let current = "";
+  const flush = () => {
+    if (current.trim()) chunks.push(current.replace(/\n{3,}/g, "\n\n").trim());
+    current = "";
+  };
+
+  for (const unit of toUnits(markdown)) {
+    const pieces = unit.html.length > max ? splitUnit(unit, max) : [unit.html];
+    for (const piece of pieces) {
+      if (current && current.length + 1 + piece.length > max) flush();
+      current += (current ? "\n" : "") + piece;
+    }
+  }
+  flush();
+  return chunks;
+}
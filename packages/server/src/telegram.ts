@@ -1,255 +1,611 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import { dirname, extname, join } from "path";
+import type express from "express";
 import TelegramBot from "node-telegram-bot-api";
 import {
   AIClient,
-  buildSystemPrompt,
-  getProvider,
-  VAULT_TOOLS, WEB_TOOLS, KNOWLEDGE_TOOLS, GRAPH_TOOLS,
-  TASK_TOOLS, DAILY_TOOLS, CALENDAR_TOOLS, MEMORY_TOOLS,
-  type ConversationState,
+  estimateCost,
+  estimateHistoryTokens,
+  getContextLimit,
+  getI18n,
+  MAX_ATTACHMENTS,
+  MAX_IMAGE_BYTES,
+  previewTool,
+  resolveAttachmentType,
+  SUPPORTED_MIME_TYPES,
+  type Attachment,
   type ChatMode,
-  type ToolDefinition,
+  type Language,
+  type ToolDecision,
 } from "@life-companion/core";
 import type { ServerConfig } from "./config";
-import type { ServerVaultTools } from "./vault-tools";
-import type { ServerCalendarManager } from "./calendar-manager";
+import { TelegramApprovals } from "./approvals";
+import { writeCheckIn } from "./briefing";
+import { availableModels, runChatTurn } from "./chat";
+import { VAULT_COMMANDS } from "./commands";
+import { htmlToPlain, MAX_MESSAGE_LENGTH, toTelegramHtml } from "./telegram-format";
+import type { Transcriber } from "./transcriber";
+import { MIN_WEB_PASSWORD_LENGTH, newConversation, type UserRegistry, type UserSession } from "./users";
+
+/** Bots can only download files up to 20 MB through the Bot API */
+const MAX_DOWNLOAD_BYTES = 20 * 1024 * 1024;
+
+/** Transcription APIs detect the format from the file name */
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  "audio/ogg": ".ogg",
+  "audio/mpeg": ".mp3",
+  "audio/mp4": ".m4a",
+  "audio/x-m4a": ".m4a",
+  "audio/wav": ".wav",
+  "audio/x-wav": ".wav",
+  "audio/webm": ".webm",
+  "audio/flac": ".flac",
+};
+
+/** Where Telegram posts updates in webhook mode, on the server's own port */
+export const TELEGRAM_WEBHOOK_PATH = "/telegram/webhook";
+
+/** Reconnecting to Telegram waits this long at first, twice as long after each failure in a row */
+const RETRY_MIN_MS = 5000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+/** Albums arrive as one message per item; wait this long for the rest before answering */
+const ALBUM_WAIT_MS = 1000;
+
+/** A caption asking to keep the files, e.g. "save this receipt" / "lưu lại ảnh này" */
+const SAVE_REQUEST = /\b(save|keep|store)\b|lưu/i;
+
+interface ReceivedFile {
+  attachment: Attachment;
+  data: Buffer;
+}
+
+/** Autocomplete entries; /start, /invite, /join and /webpassword are left out as one-off commands */
+const BOT_COMMANDS: TelegramBot.BotCommand[] = [
+  { command: "new", description: "Start a new conversation" },
+  { command: "history", description: "Recent conversations" },
+  { command: "resume", description: "Continue a conversation from /history" },
+  { command: "today", description: "Daily briefing" },
+  { command: "mode", description: "quick or dive" },
+  { command: "model", description: "Choose the AI model" },
+  { command: "usage", description: "Tokens and cost of this conversation" },
+  ...VAULT_COMMANDS.map(({ command, description }) => ({ command, description })),
+];
+
+function formatTokenCount(tokens: number): string {
+  if (tokens >= 1000000) return `${(tokens / 1000000).toFixed(1)}M`;
+  if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}k`;
+  return `${tokens}`;
+}
 
 export class TelegramBotHandler {
   private bot: TelegramBot;
-  private conversation: ConversationState;
-  private processing = false;
+  private approvals: TelegramApprovals;
+  private albums = new Map<string, { messages: TelegramBot.Message[]; timer?: ReturnType<typeof setTimeout> }>();
+  private webhookSecret: string;
+  private retryMs = RETRY_MIN_MS;
+  private pollingRecovering = false;
 
   constructor(
     private config: ServerConfig,
     private aiClient: AIClient,
-    private vaultTools: ServerVaultTools,
-    private calendarManager: ServerCalendarManager,
-    private toolExecutor: (name: string, input: Record<string, unknown>) => Promise<string>,
+    private users: UserRegistry,
+    private transcriber: Transcriber | null,
   ) {
-    this.bot = new TelegramBot(config.telegramBotToken, { polling: true });
-    let pollingErrorCount = 0;
-    this.bot.on("polling_error", (error) => {
-      pollingErrorCount++;
-      if (pollingErrorCount <= 3) {
-        console.error(`Telegram polling error (${pollingErrorCount}/3):`, (error as Error).message);
-      }
-      if (pollingErrorCount === 3) {
-        console.error("Suppressing further polling errors. Check your TELEGRAM_BOT_TOKEN.");
-        this.bot.stopPolling();
-      }
-    });
-    this.conversation = this.newConversation();
+    // Updates start flowing in start(), by webhook or polling
+    this.bot = new TelegramBot(config.telegramBotToken, { polling: false });
+    this.webhookSecret = config.telegramWebhookSecret
+      || createHmac("sha256", config.telegramBotToken).update("telegram-webhook").digest("hex");
+    this.bot.on("polling_error", (error) => this.recoverPolling(error as Error));
+    // Any update means the connection works again
+    this.bot.on("message", () => { this.retryMs = RETRY_MIN_MS; });
+    this.bot.on("callback_query", () => { this.retryMs = RETRY_MIN_MS; });
+    this.approvals = new TelegramApprovals(
+      this.bot,
+      (chatId) => getI18n((this.users.get(chatId.toString())?.language ?? config.language) as Language),
+      () => config.toolApprovalTimeoutSec * 1000,
+    );
     this.setupHandlers();
+    this.bot.setMyCommands(BOT_COMMANDS).catch((e) => console.warn("Failed to register bot commands:", (e as Error).message));
   }
 
   getBot(): TelegramBot {
     return this.bot;
   }
 
-  private newConversation(): ConversationState {
-    return {
-      id: Date.now().toString(),
-      title: "Telegram Chat",
-      messages: [],
-      history: [],
-      mode: this.config.chatMode,
-      model: this.config.defaultModel,
-      createdAt: Date.now(),
-      updatedAt: Date.now(),
-      totalInputTokens: 0,
-      totalOutputTokens: 0,
+  // ─── Receiving Updates ──────────────────────────────────
+
+  /**
+   * Register the webhook when TELEGRAM_WEBHOOK_URL is set, otherwise long-poll.
+   * Either way the other mechanism is switched off — Telegram refuses
+   * getUpdates while a webhook is set. Keeps retrying while Telegram can't be reached.
+   */
+  async start() {
+    try {
+      if (this.config.telegramWebhookUrl) {
+        const url = `${this.config.telegramWebhookUrl.replace(/\/+$/, "")}${TELEGRAM_WEBHOOK_PATH}`;
+        await this.bot.setWebHook(url, { secret_token: this.webhookSecret });
+        console.debug(`Telegram webhook: ${url}`);
+      } else {
+        await this.bot.deleteWebHook();
+        // Resolves only after the first long poll; failures arrive as polling_error
+        this.bot.startPolling().catch((e) => this.recoverPolling(e as Error));
+        console.debug("Telegram: polling for updates");
+      }
+      this.retryMs = RETRY_MIN_MS;
+    } catch (e) {
+      const delay = this.nextRetryDelay();
+      console.error(`Failed to connect to Telegram: ${(e as Error).message} — retrying in ${Math.round(delay / 1000)}s`);
+      setTimeout(() => void this.start(), delay);
+    }
+  }
+
+  /** Current wait before retrying; doubles for the next failure in a row */
+  private nextRetryDelay(): number {
+    const delay = this.retryMs;
+    this.retryMs = Math.min(delay * 2, RETRY_MAX_MS);
+    return delay;
+  }
+
+  /** Stop polling and start again after a growing delay, instead of giving up */
+  private recoverPolling(error: Error) {
+    if (this.pollingRecovering) return;
+    this.pollingRecovering = true;
+    const delay = this.nextRetryDelay();
+    const hint = /401|404/.test(error.message) ? " Check your TELEGRAM_BOT_TOKEN." : "";
+    console.error(`Telegram polling error: ${error.message} — retrying in ${Math.round(delay / 1000)}s.${hint}`);
+
+    this.bot.stopPolling({ cancel: true }).catch(() => {}).finally(() => {
+      setTimeout(() => {
+        this.pollingRecovering = false;
+        this.bot.startPolling().catch((e) => this.recoverPolling(e as Error));
+      }, delay);
+    });
+  }
+
+  /** Handler for TELEGRAM_WEBHOOK_PATH; expects a parsed JSON body */
+  webhookHandler(): express.RequestHandler {
+    const expected = createHash("sha256").update(this.webhookSecret).digest();
+    return (req, res) => {
+      // Only Telegram knows the secret — it was handed over in setWebHook
+      const given = createHash("sha256").update(req.get("x-telegram-bot-api-secret-token") ?? "").digest();
+      if (!timingSafeEqual(given, expected)) {
+        res.sendStatus(401);
+        return;
+      }
+      if (req.body && typeof req.body.update_id === "number") {
+        this.bot.processUpdate(req.body as TelegramBot.Update);
+      }
+      res.sendStatus(200);
     };
   }
 
+  /** Session of a registered chat; messages from anyone else are ignored */
+  private sessionFor(msg: TelegramBot.Message): Promise<UserSession | undefined> {
+    return this.users.session(msg.chat.id.toString());
+  }
+
   private setupHandlers() {
-    this.bot.onText(/\/start/, (msg: TelegramBot.Message) => {
-      if (msg.chat.id.toString() !== this.config.telegramChatId) return;
+    this.bot.onText(/^\/start(?:@\w+)?(?:\s|$)/, async (msg: TelegramBot.Message) => {
+      if (!(await this.sessionFor(msg))) return;
       this.bot.sendMessage(msg.chat.id, "Life Companion AI bot is active! Send me any message to chat.");
     });
 
-    this.bot.onText(/\/new/, (msg: TelegramBot.Message) => {
-      if (msg.chat.id.toString() !== this.config.telegramChatId) return;
-      this.conversation = this.newConversation();
+    this.bot.onText(/^\/new(?:@\w+)?(?:\s|$)/, async (msg: TelegramBot.Message) => {
+      const session = await this.sessionFor(msg);
+      if (!session) return;
+      // The current conversation is already saved after every reply — /resume brings it back
+      session.conversation = newConversation(session.user, session.conversation.mode);
       this.bot.sendMessage(msg.chat.id, "New conversation started.");
     });
 
-    this.bot.onText(/\/today/, async (msg: TelegramBot.Message) => {
-      if (msg.chat.id.toString() !== this.config.telegramChatId) return;
-      const briefing = await this.generateBriefing();
+    this.bot.onText(/^\/history(?:@\w+)?(?:\s|$)/, async (msg: TelegramBot.Message) => {
+      const session = await this.sessionFor(msg);
+      if (!session) return;
+      const saved = (await session.conversations.list()).slice(0, 10);
+      if (saved.length === 0) {
+        await this.bot.sendMessage(msg.chat.id, "No saved conversations yet.");
+        return;
+      }
+      const lines = saved.map((c, i) => {
+        const current = c.id === session.conversation.id ? " ← current" : "";
+        const date = new Date(c.updatedAt).toLocaleString("en-GB", { timeZone: session.user.timezone });
+        return `${i + 1}. ${c.title} (${c.messages.length} messages, ${date})${current}`;
+      });
+      await this.bot.sendMessage(msg.chat.id, `${lines.join("\n")}\n\n/resume <number> to continue one.`);
+    });
+
+    this.bot.onText(/^\/resume(?:@\w+)?(?:\s+(\S+))?(?:\s|$)/, async (msg: TelegramBot.Message, match: RegExpExecArray | null) => {
+      const session = await this.sessionFor(msg);
+      if (!session) return;
+      const arg = match?.[1];
+      const saved = await session.conversations.list();
+      // A /history number, or a conversation id
+      const target = arg && /^\d{1,2}$/.test(arg) ? saved[Number(arg) - 1] : saved.find((c) => c.id === arg);
+      const conversation = target && await session.conversations.load(target.id);
+      if (!conversation) {
+        await this.bot.sendMessage(msg.chat.id, "Usage: /resume <number from /history>");
+        return;
+      }
+      session.conversation = conversation;
+      await this.bot.sendMessage(
+        msg.chat.id,
+        `Resumed "${conversation.title}" (${conversation.messages.length} messages).`,
+      );
+    });
+
+    this.bot.onText(/^\/today(?:@\w+)?(?:\s|$)/, async (msg: TelegramBot.Message) => {
+      const session = await this.sessionFor(msg);
+      if (!session) return;
+      await this.bot.sendChatAction(msg.chat.id, "typing").catch(() => {});
+      const briefing = await writeCheckIn(this.aiClient, this.config, session, "morning");
       await this.sendLongMessage(msg.chat.id.toString(), briefing);
     });
 
-    this.bot.onText(/\/mode\s+(.+)/, (msg: TelegramBot.Message, match: RegExpExecArray | null) => {
-      if (msg.chat.id.toString() !== this.config.telegramChatId) return;
+    this.bot.onText(/^\/mode(?:@\w+)?\s+(.+)/, async (msg: TelegramBot.Message, match: RegExpExecArray | null) => {
+      const session = await this.sessionFor(msg);
+      if (!session) return;
       const mode = match?.[1]?.trim() as ChatMode;
       if (mode === "quick" || mode === "dive") {
-        this.config.chatMode = mode;
-        this.conversation.mode = mode;
+        session.conversation.mode = mode;
         this.bot.sendMessage(msg.chat.id, `Mode: ${mode}`);
       } else {
         this.bot.sendMessage(msg.chat.id, "Usage: /mode quick or /mode dive");
       }
     });
 
+    this.bot.onText(/^\/model(?:@\w+)?(?:\s|$)/, async (msg: TelegramBot.Message) => {
+      const session = await this.sessionFor(msg);
+      if (!session) return;
+      const keyboard = this.modelKeyboard(session.conversation.model);
+      if (keyboard.length === 0) {
+        await this.bot.sendMessage(msg.chat.id, "No models available — add an API key or check ENABLED_MODELS.");
+        return;
+      }
+      await this.bot.sendMessage(msg.chat.id, "Choose a model:", { reply_markup: { inline_keyboard: keyboard } });
+    });
+
+    this.bot.onText(/^\/usage(?:@\w+)?(?:\s|$)/, async (msg: TelegramBot.Message) => {
+      const session = await this.sessionFor(msg);
+      if (!session) return;
+      const { conversation } = session;
+      const limit = getContextLimit(conversation.model, { custom: this.config.customModels });
+      // Restored conversations have no reported size until the next reply
+      const context = conversation.lastKnownInputTokens
+        ? formatTokenCount(conversation.lastKnownInputTokens)
+        : `~${formatTokenCount(estimateHistoryTokens(conversation))}`;
+      const cost = estimateCost(conversation.model, conversation.totalInputTokens, conversation.totalOutputTokens);
+      const lines = [
+        `📊 ${conversation.title}`,
+        `Model: ${conversation.model}`,
+        `Tokens: ${formatTokenCount(conversation.totalInputTokens)} in / ${formatTokenCount(conversation.totalOutputTokens)} out`,
+        `Context: ${context} / ${formatTokenCount(limit)}`,
+        cost === null
+          ? "Cost: no price list for this model"
+          : `Cost: ≈ $${cost.toFixed(cost < 1 ? 4 : 2)} at ${conversation.model} API prices`,
+      ];
+      await this.bot.sendMessage(msg.chat.id, lines.join("\n"));
+    });
+
+    for (const cmd of VAULT_COMMANDS) {
+      const pattern = new RegExp(`^/${cmd.command}(?:@\\w+)?(?:\\s+([\\s\\S]+))?$`);
+      this.bot.onText(pattern, async (msg: TelegramBot.Message, match: RegExpExecArray | null) => {
+        const session = await this.sessionFor(msg);
+        if (!session) return;
+        const arg = match?.[1]?.trim() ?? "";
+        if (cmd.usage && !arg) {
+          await this.bot.sendMessage(msg.chat.id, `Usage: ${cmd.usage}`);
+          return;
+        }
+        try {
+          const reply = await cmd.run(session, arg);
+          // Note contents aren't Telegram markup — send them as they are
+          await this.sendLongMessage(msg.chat.id.toString(), reply, { plain: true });
+        } catch (error) {
+          console.error(`/${cmd.command} failed:`, error);
+          await this.bot.sendMessage(msg.chat.id, `Error: ${(error as Error).message.slice(0, 200)}`).catch(() => {});
+        }
+      });
+    }
+
+    // Admin: /invite <name> [vault folder or absolute path] → a one-time /join code
+    this.bot.onText(/^\/invite(?:@\w+)?(?:\s+(\S+)(?:\s+(.+))?)?(?:\s|$)/, async (msg: TelegramBot.Message, match: RegExpExecArray | null) => {
+      if (!(await this.sessionFor(msg))?.user.admin) return;
+      const name = match?.[1];
+      if (!name) {
+        this.bot.sendMessage(msg.chat.id, "Usage: /invite <name> [vault folder or absolute path]");
+        return;
+      }
+      const code = this.users.createInvite(name, match?.[2]?.trim());
+      const web = this.config.apiToken ? `\n\nOr, without Telegram, enter ${code} under "Join" in the web chat.` : "";
+      this.bot.sendMessage(
+        msg.chat.id,
+        `Invite for ${name} (valid 24h). Ask them to send this to the bot:\n\n/join ${code}${web}`,
+      );
+    });
+
+    // /webpassword <password> → log in to the web chat as yourself
+    this.bot.onText(/^\/webpassword(?:@\w+)?(?:\s+(.+))?(?:\s|$)/, async (msg: TelegramBot.Message, match: RegExpExecArray | null) => {
+      const session = await this.sessionFor(msg);
+      if (!session) return;
+      // Keep the password out of the chat history
+      await this.bot.deleteMessage(msg.chat.id, msg.message_id).catch(() => {});
+      if (!this.config.apiToken) {
+        await this.bot.sendMessage(msg.chat.id, "The web chat is off — set API_TOKEN on the server first.");
+        return;
+      }
+      const password = match?.[1]?.trim() ?? "";
+      if (password.length < MIN_WEB_PASSWORD_LENGTH) {
+        await this.bot.sendMessage(msg.chat.id, `Usage: /webpassword <password of at least ${MIN_WEB_PASSWORD_LENGTH} characters>`);
+        return;
+      }
+      await this.users.setWebPassword(session.user.chatId, password);
+      await this.bot.sendMessage(msg.chat.id, `Web chat password set — log in as "${session.user.name}".`);
+    });
+
+    this.bot.onText(/^\/join(?:@\w+)?\s+(\S+)/, async (msg: TelegramBot.Message, match: RegExpExecArray | null) => {
+      const chatId = msg.chat.id.toString();
+      if (this.users.get(chatId)) {
+        await this.bot.sendMessage(msg.chat.id, "This chat is already linked.");
+        return;
+      }
+      const user = await this.users.redeemInvite(match?.[1] ?? "", chatId);
+      if (!user) {
+        await this.bot.sendMessage(msg.chat.id, "That invite code is invalid or has expired.");
+        return;
+      }
+      await this.users.session(chatId);
+      await this.bot.sendMessage(msg.chat.id, `Welcome, ${user.name}! Send me any message to chat.`);
+      const admin = this.users.list().find((u) => u.admin);
+      if (admin) {
+        await this.bot.sendMessage(Number(admin.chatId), `${user.name} joined (chat ${chatId}, vault ${user.vaultPath}).`)
+          .catch(() => {});
+      }
+    });
+
+    this.bot.on("callback_query", (query: TelegramBot.CallbackQuery) => {
+      this.handleCallback(query).catch((e) => console.error("Callback query error:", e));
+    });
+
     this.bot.on("message", (msg: TelegramBot.Message) => {
       // Skip command messages (already handled above)
       if (msg.text?.startsWith("/")) return;
-      this.handleMessage(msg);
+      if (msg.media_group_id) {
+        this.queueAlbumItem(msg);
+        return;
+      }
+      this.handleMessage([msg]);
     });
   }
 
-  private async handleMessage(msg: TelegramBot.Message) {
-    const chatId = msg.chat.id.toString();
-    if (chatId !== this.config.telegramChatId) return;
+  /** Inline-button presses: tool approvals, then the /model picker */
+  private async handleCallback(query: TelegramBot.CallbackQuery) {
+    if (await this.approvals.handleCallback(query)) return;
+    const index = query.data?.match(/^model:(\d+)$/)?.[1];
+    if (index === undefined || !query.message) return;
+
+    const session = await this.users.session(query.message.chat.id.toString());
+    const model = availableModels(this.aiClient, this.config)[Number(index)];
+    if (!session || !model) {
+      await this.bot.answerCallbackQuery(query.id, { text: "That list is out of date — send /model again." }).catch(() => {});
+      return;
+    }
+    session.conversation.model = model.id;
+    // New conversations start on the last model picked
+    await this.users.update(session.user.chatId, { model: model.id });
+    await this.bot.answerCallbackQuery(query.id, { text: `Model: ${model.name}` }).catch(() => {});
+    await this.bot.editMessageReplyMarkup(
+      { inline_keyboard: this.modelKeyboard(model.id) },
+      { chat_id: query.message.chat.id, message_id: query.message.message_id },
+    ).catch((e) => console.debug("Failed to update model picker", e));
+  }
+
+  /** One button per model, ✓ on the active one — buttons carry the index since callback data is capped at 64 bytes */
+  private modelKeyboard(current: string): TelegramBot.InlineKeyboardButton[][] {
+    return availableModels(this.aiClient, this.config).map((m, i) => [{
+      text: `${m.label}: ${m.name}${m.id === current ? " ✓" : ""}`,
+      callback_data: `model:${i}`,
+    }]);
+  }
 
-    const text = msg.text;
-    if (!text) return;
+  /** Collect the items of an album so they are answered as one message */
+  private queueAlbumItem(msg: TelegramBot.Message) {
+    const groupId = msg.media_group_id!;
+    const album = this.albums.get(groupId) ?? { messages: [] };
+    clearTimeout(album.timer);
+    album.messages.push(msg);
+    album.timer = setTimeout(() => {
+      this.albums.delete(groupId);
+      this.handleMessage(album.messages);
+    }, ALBUM_WAIT_MS);
+    this.albums.set(groupId, album);
+  }
+
+  /** A text, voice note, or photos/documents with an optional caption — several messages only for an album */
+  private async handleMessage(messages: TelegramBot.Message[]) {
+    const [msg] = messages;
+    const chatId = msg.chat.id.toString();
+    const session = await this.sessionFor(msg);
+    if (!session) return;
+    if (!messages.some((m) => m.text || m.voice || m.audio || m.photo || m.document)) return;
 
-    if (this.processing) {
+    if (session.processing) {
       await this.bot.sendMessage(Number(chatId), "Still processing previous message...");
       return;
     }
 
-    this.processing = true;
+    session.processing = true;
     // Send typing indicator
     await this.bot.sendChatAction(Number(chatId), "typing").catch(() => {});
 
     try {
-      const profile = await this.vaultTools.readNote("system/profile.md").catch(() => "");
-      const index = await this.vaultTools.readNote("system/index.md").catch(() => "");
-      const briefingContext = await this.buildBriefingContext();
-      const preferencesContext = await this.vaultTools.getPreferenceContext();
-      const systemPrompt = buildSystemPrompt(
-        profile, index, this.conversation.mode, briefingContext, preferencesContext,
-      );
-
-      const tools = this.selectTools(text);
-
-      let fullResponse = "";
-      const response = await this.aiClient.sendMessage({
-        userMessage: text,
-        mode: this.conversation.mode,
-        model: this.conversation.model,
-        provider: getProvider(this.conversation.model),
-        systemPrompt,
-        conversationHistory: this.conversation.history,
-        toolExecutor: this.toolExecutor,
-        tools,
-        onText: (chunk) => { fullResponse += chunk; },
-        onThinking: () => {},
-        onToolUse: () => {},
-        onToolResult: () => {},
-      });
+      const files = await this.receiveAttachments(session, messages);
+      let text = msg.text ?? messages.find((m) => m.caption)?.caption ?? await this.transcribeVoice(session, msg) ?? "";
+      if (!text && files.length === 0) return;
 
-      // Update conversation history
-      this.conversation.history.push({ role: "user", content: text });
-      this.conversation.history.push({ role: "assistant", content: fullResponse });
-      this.conversation.totalInputTokens += response.usage.inputTokens;
-      this.conversation.totalOutputTokens += response.usage.outputTokens;
-      this.conversation.updatedAt = Date.now();
-
-      // Trim history if too long (keep last 40 messages)
-      if (this.conversation.history.length > 40) {
-        this.conversation.history = this.conversation.history.slice(-40);
+      if (files.length > 0 && this.config.attachmentsFolder && SAVE_REQUEST.test(text)) {
+        const paths: string[] = [];
+        for (const file of files) {
+          paths.push(await this.saveToVault(session, this.config.attachmentsFolder, file.attachment.name, file.data));
+        }
+        text += `\n\n[Saved to the vault: ${paths.map((p) => `[[${p}]]`).join(", ")}]`;
       }
+      if (!text) text = "(see attachment)";
 
-      await this.sendLongMessage(chatId, fullResponse || "No response generated.");
+      const { reschedule } = session;
+      session.reschedule = null;
+      if (reschedule && reschedule.expiresAt > Date.now()) {
+        text = `Reschedule the event "${reschedule.title}" (${reschedule.path}) to: ${text}\n` +
+          "Use update_event on that file, then confirm the new date and time.";
+      }
+      const { text: reply } = await runChatTurn(this.aiClient, this.config, session, session.conversation, {
+        text,
+        attachments: files.map((f) => f.attachment),
+        approveToolUse: (name, input) => this.requestApproval(session, name, input),
+      });
+      await this.sendLongMessage(chatId, reply || "No response generated.");
     } catch (error) {
       const errMsg = (error as Error).message;
       console.error("Telegram message error:", errMsg);
       await this.bot.sendMessage(Number(chatId), `Error: ${errMsg.slice(0, 200)}`).catch(() => {});
     } finally {
-      this.processing = false;
+      session.processing = false;
     }
   }
 
-  private selectTools(message: string): ToolDefinition[] {
-    const ALL = [
-      ...VAULT_TOOLS, ...KNOWLEDGE_TOOLS, ...GRAPH_TOOLS,
-      ...TASK_TOOLS, ...DAILY_TOOLS, ...CALENDAR_TOOLS,
-      ...MEMORY_TOOLS, ...WEB_TOOLS,
-    ];
-
-    if (this.conversation.mode === "dive") return ALL;
-
-    // Quick mode: include tools based on message content
-    const msgLower = message.toLowerCase();
-    const tools: ToolDefinition[] = [...VAULT_TOOLS, ...MEMORY_TOOLS];
-
-    if (msgLower.match(/search|tìm|web|google|internet/)) tools.push(...WEB_TOOLS);
-    if (msgLower.match(/tag|nhãn|label/)) tools.push(...KNOWLEDGE_TOOLS);
-    if (msgLower.match(/task|todo|việc|công việc|nhiệm vụ/)) tools.push(...TASK_TOOLS);
-    if (msgLower.match(/calendar|lịch|event|sự kiện|hẹn/)) tools.push(...CALENDAR_TOOLS);
-    if (msgLower.match(/daily|hôm nay|ngày/)) tools.push(...DAILY_TOOLS);
-    if (msgLower.match(/link|backlink|graph/)) tools.push(...GRAPH_TOOLS);
-
-    // Deduplicate
-    const seen = new Set<string>();
-    return tools.filter((t) => {
-      if (seen.has(t.name)) return false;
-      seen.add(t.name);
-      return true;
-    });
+  /** Download a voice note or audio file, echo its transcript, and return it as the user's message */
+  private async transcribeVoice(session: UserSession, msg: TelegramBot.Message): Promise<string | null> {
+    const audio = msg.voice ?? msg.audio;
+    if (!audio) return null;
+    if (!this.transcriber) {
+      await this.bot.sendMessage(
+        msg.chat.id,
+        "Voice messages need a transcriber — set OPENAI_API_KEY, GROQ_API_KEY or WHISPER_URL on the server.",
+      );
+      return null;
+    }
+    if ((audio.file_size ?? 0) > MAX_DOWNLOAD_BYTES) {
+      await this.bot.sendMessage(msg.chat.id, "That recording is too long to download (Telegram limits bots to 20 MB).");
+      return null;
+    }
+
+    const data = await this.downloadFile(audio.file_id);
+    const mimeType = audio.mime_type || "audio/ogg";
+    const fileName = `${msg.voice ? "voice" : "audio"}${AUDIO_EXTENSIONS[mimeType] ?? ""}`;
+    const transcript = await this.transcriber.transcribe(data, fileName, mimeType);
+    if (!transcript) {
+      await this.bot.sendMessage(msg.chat.id, "I couldn't make out any speech in that message.");
+      return null;
+    }
+    await this.bot.sendMessage(msg.chat.id, `🎙️ ${transcript}`);
+
+    if (!this.config.voiceNotesFolder) return transcript;
+    const path = await this.saveToVault(session, this.config.voiceNotesFolder, fileName, data);
+    return `${transcript}\n\n[Voice note saved to ${path}]`;
   }
 
-  async buildBriefingContext(): Promise<string> {
-    const parts: string[] = [];
-    try {
-      const events = await this.calendarManager.getUpcomingEvents(3);
-      if (events && !events.includes("No events")) {
-        parts.push(`### Upcoming Events (3 days)\n${events}`);
+  /**
+   * Download the photos and documents of a message or album as attachments.
+   * Files the models can't read, or that are too large, are reported back and skipped.
+   */
+  private async receiveAttachments(session: UserSession, messages: TelegramBot.Message[]): Promise<ReceivedFile[]> {
+    const t = getI18n(session.user.language);
+    const chatId = Number(session.user.chatId);
+    let withFiles = messages.filter((m) => m.photo?.length || m.document);
+    if (withFiles.length > MAX_ATTACHMENTS) {
+      await this.bot.sendMessage(chatId, `${t.maxAttachments} — reading the first ${MAX_ATTACHMENTS}.`);
+      withFiles = withFiles.slice(0, MAX_ATTACHMENTS);
+    }
+
+    const files: ReceivedFile[] = [];
+    for (const msg of withFiles) {
+      if (msg.photo?.length) {
+        // Telegram sends each photo in several sizes, smallest first — take the largest that fits
+        const fitting = msg.photo.filter((p) => (p.file_size ?? 0) <= MAX_IMAGE_BYTES);
+        const photo = fitting[fitting.length - 1] ?? msg.photo[0];
+        const data = await this.downloadFile(photo.file_id);
+        files.push({
+          attachment: { name: "photo.jpg", mimeType: "image/jpeg", type: "image", data: data.toString("base64"), size: data.length },
+          data,
+        });
+        continue;
       }
-    } catch (e) { console.debug("Failed to get calendar events for context", e); }
-    try {
-      const memories = await this.vaultTools.getRecentMemories(10);
-      if (memories && !memories.startsWith("No memories")) {
-        parts.push(`### Recent Memories\n${memories}`);
+
+      const doc = msg.document!;
+      const name = doc.file_name || "document";
+      const ext = extname(name).slice(1).toLowerCase();
+      const mimeType = SUPPORTED_MIME_TYPES[ext] ?? doc.mime_type;
+      if (!mimeType || !Object.values(SUPPORTED_MIME_TYPES).includes(mimeType)) {
+        await this.bot.sendMessage(chatId, t.unsupportedFile(ext || "?"));
+        continue;
       }
-    } catch (e) { console.debug("Failed to get recent memories for context", e); }
-    try {
-      const tasks = await this.vaultTools.getPendingDailyTasks();
-      if (tasks) parts.push(`### Today's Pending Tasks\n${tasks}`);
-    } catch (e) { console.debug("Failed to get pending tasks for context", e); }
-    try {
-      const goals = await this.vaultTools.getGoals();
-      if (goals && !goals.includes("No goals file")) {
-        parts.push(`### Goals\n${goals.length > 600 ? goals.slice(0, 600) + "\n..." : goals}`);
+      const type = resolveAttachmentType(mimeType);
+      const size = doc.file_size ?? 0;
+      if (type === "image" && size > MAX_IMAGE_BYTES) {
+        // Only photos get a smaller rendition from Telegram; the bot doesn't resize files itself
+        await this.bot.sendMessage(chatId, `${name} is over 1 MB — send it as a photo instead so Telegram compresses it.`);
+        continue;
+      }
+      if (size > MAX_DOWNLOAD_BYTES) {
+        await this.bot.sendMessage(chatId, `${name} is too large to download (Telegram limits bots to 20 MB).`);
+        continue;
       }
-    } catch (e) { console.debug("Failed to get goals for context", e); }
-    return parts.join("\n\n");
+
+      const data = await this.downloadFile(doc.file_id);
+      files.push({
+        attachment: {
+          name,
+          mimeType,
+          type,
+          data: type === "text" ? data.toString("utf8") : data.toString("base64"),
+          size: data.length,
+        },
+        data,
+      });
+    }
+    return files;
   }
 
-  async generateBriefing(): Promise<string> {
-    const parts: string[] = [];
-    try {
-      const events = await this.calendarManager.getUpcomingEvents(3);
-      if (events && !events.includes("No events")) parts.push(`📅 **Upcoming Events:**\n${events}`);
-    } catch (e) { console.debug("Failed to get upcoming events for briefing", e); }
-    try {
-      const tasks = await this.vaultTools.getPendingDailyTasks();
-      if (tasks) parts.push(`✅ **Today's Tasks:**\n${tasks}`);
-    } catch (e) { console.debug("Failed to get pending tasks for briefing", e); }
-    try {
-      const goals = await this.vaultTools.getGoals();
-      if (goals && !goals.includes("No goals")) parts.push(`🎯 **Goals:**\n${goals.slice(0, 400)}`);
-    } catch (e) { console.debug("Failed to get goals for briefing", e); }
+  private async downloadFile(fileId: string): Promise<Buffer> {
+    const res = await fetch(await this.bot.getFileLink(fileId));
+    if (!res.ok) throw new Error(`Telegram file download failed (${res.status})`);
+    return Buffer.from(await res.arrayBuffer());
+  }
+
+  /** Write a received file into the user's vault under a timestamped name; returns its vault path */
+  private async saveToVault(session: UserSession, folder: string, fileName: string, data: Buffer): Promise<string> {
+    const stamp = new Date().toISOString().slice(0, 19).replace(/:/g, "-");
+    const ext = extname(fileName);
+    const base = fileName.slice(0, fileName.length - ext.length).replace(/[/\\:*?"<>|]/g, "-");
+    const path = `${folder.replace(/\/+$/, "")}/${stamp} ${base}${ext}`;
+    const fullPath = join(session.user.vaultPath, path);
+    await mkdir(dirname(fullPath), { recursive: true });
+    await writeFile(fullPath, data);
+    return path;
+  }
 
-    return parts.length > 0
-      ? `☀️ **Daily Briefing**\n\n${parts.join("\n\n")}`
-      : "☀️ Good morning! No events or tasks today.";
+  /** Post the pending change with Approve/Reject buttons; the tool loop waits for the answer */
+  private async requestApproval(session: UserSession, name: string, input: Record<string, unknown>): Promise<ToolDecision> {
+    const preview = await previewTool({ vault: session.vaultTools, calendar: session.calendarManager }, name, input);
+    return this.approvals.request(Number(session.user.chatId), name, preview);
   }
 
-  async sendLongMessage(chatId: string, text: string) {
-    const MAX = 4000;
-    if (text.length <= MAX) {
-      await this.bot.sendMessage(Number(chatId), text, { parse_mode: "Markdown" })
-        .catch(() => this.bot.sendMessage(Number(chatId), text));
+  /** Send model output as Telegram HTML, split across messages; `plain` sends text untouched */
+  async sendLongMessage(chatId: string, text: string, options: { plain?: boolean } = {}) {
+    if (!options.plain) {
+      for (const chunk of toTelegramHtml(text)) {
+        await this.bot.sendMessage(Number(chatId), chunk, { parse_mode: "HTML" })
+          .catch(() => this.bot.sendMessage(Number(chatId), htmlToPlain(chunk)));
+      }
       return;
     }
-    // Split on paragraph boundaries
+
+    // Split on line boundaries
     const chunks: string[] = [];
     let current = "";
     for (const line of text.split("\n")) {
-      if ((current + "\n" + line).length > MAX) {
+      if ((current + "\n" + line).length > MAX_MESSAGE_LENGTH) {
         if (current) chunks.push(current);
         current = line;
       } else {
@@ -258,8 +614,7 @@ export class TelegramBotHandler {
     }
     if (current) chunks.push(current);
     for (const chunk of chunks) {
-      await this.bot.sendMessage(Number(chatId), chunk, { parse_mode: "Markdown" })
-        .catch(() => this.bot.sendMessage(Number(chatId), chunk));
+      await this.bot.sendMessage(Number(chatId), chunk);
     }
   }
 }
@@ -0,0 +1,85 @@
+import type { ServerConfig } from "./config";
+
+/** Speech-to-text for Telegram voice notes */
+export interface Transcriber {
+  readonly name: string;
+  /** Plain transcript of `audio`; empty when no speech was recognized */
+  transcribe(audio: Buffer, fileName: string, mimeType: string): Promise<string>;
+}
+
+/** OpenAI-style `/audio/transcriptions` endpoint — OpenAI and Groq Whisper */
+export class WhisperApiTranscriber implements Transcriber {
+  constructor(
+    readonly name: string,
+    private url: string,
+    private apiKey: string,
+    private model: string,
+    private language?: string,
+  ) {}
+
+  async transcribe(audio: Buffer, fileName: string, mimeType: string): Promise<string> {
+    const form = new FormData();
+    form.append("file", new Blob([new Uint8Array(audio)], { type: mimeType }), fileName);
+    form.append("model", this.model);
+    form.append("response_format", "json");
+    if (this.language) form.append("language", this.language);
+
+    const res = await fetch(this.url, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${this.apiKey}` },
+      body: form,
+    });
+    if (!res.ok) throw new Error(`${this.name} transcription failed (${res.status}): ${(await res.text()).slice(0, 200)}`);
+    const data = await res.json() as { text?: string };
+    return (data.text ?? "").trim();
+  }
+}
+
+/** whisper.cpp's bundled HTTP server (`whisper-server`), which answers on /inference */
+export class WhisperCppTranscriber implements Transcriber {
+  readonly name = "whisper.cpp";
+
+  constructor(private baseUrl: string, private language?: string) {}
+
+  async transcribe(audio: Buffer, fileName: string, mimeType: string): Promise<string> {
+    const form = new FormData();
+    form.append("file", new Blob([new Uint8Array(audio)], { type: mimeType }), fileName);
+    form.append("response_format", "json");
+    if (this.language) form.append("language", this.language);
+
+    const res = await fetch(`${this.baseUrl.replace(/\/+$/, "")}/inference`, { method: "POST", body: form });
+    if (!res.ok) throw new Error(`whisper.cpp transcription failed (${res.status}): ${(await res.text()).slice(0, 200)}`);
+    const data = await res.json() as { text?: string };
+    return (data.text ?? "").trim();
+  }
+}
+
+/**
+ * Pick a transcriber from config: TRANSCRIBER names one explicitly, otherwise
+ * a local whisper.cpp server wins, then OpenAI, then Groq. Null when none is set up.
+ */
+export function createTranscriber(config: ServerConfig): Transcriber | null {
+  const language = config.language;
+  const choice = config.transcriber
+    || (config.whisperUrl ? "local" : config.openaiApiKey ? "openai" : config.groqApiKey ? "groq" : "");
+
+  switch (choice) {
+    case "local":
+      if (!config.whisperUrl) break;
+      return new WhisperCppTranscriber(config.whisperUrl, language);
+    case "openai":
+      if (!config.openaiApiKey) break;
+      return new WhisperApiTranscriber(
+        "OpenAI Whisper", "https://api.openai.com/v1/audio/transcriptions",
+        config.openaiApiKey, config.transcribeModel || "whisper-1", language,
+      );
+    case "groq":
+      if (!config.groqApiKey) break;
+      return new WhisperApiTranscriber(
+        "Groq Whisper", "https://api.groq.com/openai/v1/audio/transcriptions",
+        config.groqApiKey, config.transcribeModel || "whisper-large-v3-turbo", language,
+      );
+  }
+  if (choice) console.warn(`TRANSCRIBER=${choice} is missing its key or URL — voice messages are disabled`);
+  return null;
+}
@@ -0,0 +1,246 @@
+import { randomBytes, scryptSync, timingSafeEqual } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { dirname, isAbsolute, join } from "path";
+import { VaultTools, type ChatMode, type ConversationState, type HttpClient, type Language, type TaskItem } from "@life-companion/core";
+import { ServerCalendarManager } from "./calendar-manager";
+import { serverPrivateFiles, type ServerConfig } from "./config";
+import { ConversationStore } from "./conversations";
+import { createToolExecutor } from "./tool-executor";
+import { NodeVaultBackend } from "./vault-backend";
+
+export interface UserProfile {
+  chatId: string;
+  name: string;
+  /** Absolute vault root — the main vault, a subfolder of it, or a separate vault */
+  vaultPath: string;
+  language: Language;
+  model: string;
+  timezone: string;
+  /** Can invite others; the TELEGRAM_CHAT_ID user */
+  admin: boolean;
+  /** scrypt "salt:hash" for the web chat login; unset until a password is chosen */
+  webPasswordHash?: string;
+}
+
+/** Everything one chat needs at runtime: its own vault, calendar, tools and conversation */
+export interface UserSession {
+  user: UserProfile;
+  vaultTools: VaultTools;
+  calendarManager: ServerCalendarManager;
+  toolExecutor: (name: string, input: Record<string, unknown>) => Promise<string>;
+  conversations: ConversationStore;
+  /** The conversation new messages go to — resumed from the vault after a restart */
+  conversation: ConversationState;
+  /** The last /tasks listing, which /done numbers refer to */
+  lastTasks: TaskItem[];
+  /** Set by a reminder's Reschedule button: the next message says when to move that event to */
+  reschedule: { path: string; title: string; expiresAt: number } | null;
+  processing: boolean;
+}
+
+interface Invite {
+  name: string;
+  vaultPath: string;
+  expiresAt: number;
+}
+
+const INVITE_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const MIN_WEB_PASSWORD_LENGTH = 8;
+
+/** Chats that joined through the web chat; they have no Telegram chat to message */
+const WEB_CHAT_PREFIX = "web-";
+
+export function isTelegramChat(chatId: string): boolean {
+  return !chatId.startsWith(WEB_CHAT_PREFIX);
+}
+
+function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString("hex");
+  return `${salt}:${scryptSync(password, salt, 32).toString("hex")}`;
+}
+
+function checkPassword(password: string, stored: string): boolean {
+  const [salt, hash] = stored.split(":");
+  const expected = Buffer.from(hash ?? "", "hex");
+  return !!salt && expected.length === 32 && timingSafeEqual(scryptSync(password, salt, 32), expected);
+}
+
+export function newConversation(user: UserProfile, mode: ChatMode): ConversationState {
+  return {
+    id: Date.now().toString(),
+    title: "Telegram Chat",
+    messages: [],
+    history: [],
+    mode,
+    model: user.model,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    totalInputTokens: 0,
+    totalOutputTokens: 0,
+  };
+}
+
+/**
+ * Chat id → user, persisted to USERS_FILE. The TELEGRAM_CHAT_ID user is always
+ * present as admin and always uses VAULT_PATH; everyone else joins through an
+ * invite code the admin hands out.
+ */
+export class UserRegistry {
+  private users = new Map<string, UserProfile>();
+  private sessions = new Map<string, Promise<UserSession>>();
+  private invites = new Map<string, Invite>();
+  private onSessionStarted: ((session: UserSession) => void) | null = null;
+  private onUserUpdated: ((user: UserProfile, changes: Partial<UserProfile>) => void) | null = null;
+
+  constructor(
+    private config: ServerConfig,
+    private httpClient: HttpClient,
+  ) {}
+
+  async load() {
+    try {
+      const saved = JSON.parse(await readFile(this.config.usersFile, "utf8")) as UserProfile[];
+      for (const user of saved) this.users.set(user.chatId, { ...user, admin: false });
+    } catch (e) {
+      console.debug("No users file yet, starting with the admin only", e);
+    }
+
+    const admin = this.users.get(this.config.telegramChatId);
+    this.users.set(this.config.telegramChatId, {
+      chatId: this.config.telegramChatId,
+      name: admin?.name ?? "admin",
+      language: admin?.language ?? (this.config.language as Language),
+      model: admin?.model ?? this.config.defaultModel,
+      timezone: admin?.timezone ?? this.config.timezone,
+      vaultPath: this.config.vaultPath,
+      admin: true,
+    });
+    await this.save();
+  }
+
+  get(chatId: string): UserProfile | undefined {
+    return this.users.get(chatId);
+  }
+
+  list(): UserProfile[] {
+    return [...this.users.values()];
+  }
+
+  /** Change a user's saved preferences; their running session sees the change too */
+  async update(chatId: string, changes: Partial<Pick<UserProfile, "name" | "language" | "model" | "timezone">>) {
+    const user = this.users.get(chatId);
+    if (!user) return;
+    Object.assign(user, changes);
+    await this.save();
+    this.onUserUpdated?.(user, changes);
+  }
+
+  /** Set the password `chatId` logs in to the web chat with */
+  async setWebPassword(chatId: string, password: string) {
+    const user = this.users.get(chatId);
+    if (!user) return;
+    user.webPasswordHash = hashPassword(password);
+    await this.save();
+  }
+
+  /** The user with this name and web password; null when none matches */
+  verifyWebPassword(name: string, password: string): UserProfile | null {
+    const wanted = name.trim().toLowerCase();
+    return this.list().find((u) =>
+      u.name.toLowerCase() === wanted && !!u.webPasswordHash && checkPassword(password, u.webPasswordHash),
+    ) ?? null;
+  }
+
+  /** Called once per user, when their session is first built — e.g. to start their scheduler */
+  onSessionStart(callback: (session: UserSession) => void) {
+    this.onSessionStarted = callback;
+  }
+
+  /** Called after update() — for what was set up from the old values, like cron timezones */
+  onUserUpdate(callback: (user: UserProfile, changes: Partial<UserProfile>) => void) {
+    this.onUserUpdated = callback;
+  }
+
+  /** The user's runtime state, built on first use; undefined for chats that aren't registered */
+  async session(chatId: string): Promise<UserSession | undefined> {
+    const user = this.users.get(chatId);
+    if (!user) return undefined;
+    let session = this.sessions.get(chatId);
+    if (!session) {
+      session = this.startSession(user);
+      this.sessions.set(chatId, session);
+    }
+    return session;
+  }
+
+  private async startSession(user: UserProfile): Promise<UserSession> {
+    const backend = new NodeVaultBackend(user.vaultPath, serverPrivateFiles(this.config));
+    const vaultTools = new VaultTools(backend, this.httpClient);
+    vaultTools.setEmbeddingKeys({ openai: this.config.openaiApiKey, gemini: this.config.geminiApiKey });
+    if (this.config.braveSearchApiKey) vaultTools.setBraveSearchApiKey(this.config.braveSearchApiKey);
+    const calendarManager = new ServerCalendarManager(user.vaultPath);
+    const conversations = new ConversationStore(backend);
+
+    const session: UserSession = {
+      user,
+      vaultTools,
+      calendarManager,
+      toolExecutor: createToolExecutor(vaultTools, calendarManager),
+      conversations,
+      conversation: (await conversations.latest().catch((e) => {
+        console.warn(`Could not restore the last conversation for ${user.name}:`, e);
+        return null;
+      })) ?? newConversation(user, this.config.chatMode),
+      lastTasks: [],
+      reschedule: null,
+      processing: false,
+    };
+    this.onSessionStarted?.(session);
+    return session;
+  }
+
+  /**
+   * One-time code for linking a new chat. `vault` is a folder under USERS_PATH
+   * or an absolute path; by default each person gets USERS_PATH/<name>.
+   */
+  createInvite(name: string, vault?: string): string {
+    const code = randomBytes(4).toString("hex");
+    const folder = vault || name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "-");
+    this.invites.set(code, {
+      name,
+      vaultPath: isAbsolute(folder) ? folder : join(this.config.usersPath, folder),
+      expiresAt: Date.now() + INVITE_TTL_MS,
+    });
+    return code;
+  }
+
+  /**
+   * Register `chatId` with an invite code; null when the code is unknown or expired.
+   * Without a chat id the invite is redeemed from the web chat and gets a web-only id.
+   */
+  async redeemInvite(code: string, chatId = `${WEB_CHAT_PREFIX}${randomBytes(6).toString("hex")}`): Promise<UserProfile | null> {
+    const invite = this.invites.get(code);
+    if (!invite || invite.expiresAt < Date.now()) return null;
+    this.invites.delete(code);
+
+    await mkdir(invite.vaultPath, { recursive: true });
+    const user: UserProfile = {
+      chatId,
+      name: invite.name,
+      vaultPath: invite.vaultPath,
+      language: this.config.language as Language,
+      model: this.config.defaultModel,
+      timezone: this.config.timezone,
+      admin: false,
+    };
+    this.users.set(chatId, user);
+    await this.save();
+    return user;
+  }
+
+  private async save() {
+    await mkdir(dirname(this.config.usersFile), { recursive: true });
+    await writeFile(this.config.usersFile, JSON.stringify(this.list(), null, 2), "utf8");
+  }
+}
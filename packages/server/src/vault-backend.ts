@@ -0,0 +1,97 @@
+import { readFile, writeFile, readdir, stat, mkdir, rename, unlink } from "fs/promises";
+import { join, dirname, resolve } from "path";
+import matter from "gray-matter";
+import type { VaultBackend, VaultEntry, VaultStat } from "@life-companion/core";
+
+/** VaultBackend over the filesystem, confined to the vault directory */
+export class NodeVaultBackend implements VaultBackend {
+  /** Absolute paths of files inside the vault that the server keeps to itself */
+  private privateFiles: Set<string>;
+
+  constructor(private vaultPath: string, privateFiles: string[] = []) {
+    this.privateFiles = new Set(privateFiles.map((file) => resolve(file)));
+  }
+
+  private resolve(p: string): string {
+    const resolved = join(this.vaultPath, p);
+    if (!resolved.startsWith(this.vaultPath + "/") && resolved !== this.vaultPath) {
+      throw new Error(`Path traversal blocked: ${p}`);
+    }
+    if (this.privateFiles.has(resolve(resolved))) {
+      throw new Error(`Access denied: ${p} is managed by the server`);
+    }
+    return resolved;
+  }
+
+  async read(path: string): Promise<string | null> {
+    try {
+      return await readFile(this.resolve(path), "utf8");
+    } catch (e) {
+      console.debug("read failed", e);
+      return null;
+    }
+  }
+
+  async write(path: string, content: string): Promise<void> {
+    const fullPath = this.resolve(path);
+    await mkdir(dirname(fullPath), { recursive: true });
+    await writeFile(fullPath, content, "utf8");
+  }
+
+  async list(path: string): Promise<VaultEntry[] | null> {
+    try {
+      const dir = this.resolve(path);
+      const entries = await readdir(dir, { withFileTypes: true });
+      return entries.filter((entry) => !this.privateFiles.has(resolve(dir, entry.name))).map((entry) => ({
+        name: entry.name,
+        path: path ? `${path}/${entry.name}` : entry.name,
+        isFolder: entry.isDirectory(),
+      }));
+    } catch (e) {
+      console.debug("list: directory doesn't exist", e);
+      return null;
+    }
+  }
+
+  async stat(path: string): Promise<VaultStat | null> {
+    try {
+      const s = await stat(this.resolve(path));
+      return { isFolder: s.isDirectory(), size: s.size, mtime: s.mtimeMs };
+    } catch (e) {
+      console.debug("stat failed", e);
+      return null;
+    }
+  }
+
+  async rename(from: string, to: string): Promise<void> {
+    const target = this.resolve(to);
+    await mkdir(dirname(target), { recursive: true });
+    await rename(this.resolve(from), target);
+  }
+
+  async delete(path: string): Promise<void> {
+    await unlink(this.resolve(path));
+  }
+
+  async readFrontmatter(path: string): Promise<Record<string, unknown> | null> {
+    const content = await this.read(path);
+    if (content === null) return null;
+    try {
+      const { data } = matter(content);
+      return Object.keys(data).length > 0 ? data : null;
+    } catch (e) {
+      console.debug("readFrontmatter: parse failed", e);
+      return null;
+    }
+  }
+
+  async updateFrontmatter(path: string, properties: Record<string, unknown>): Promise<void> {
+    const content = await this.read(path);
+    if (content === null) throw new Error(`File not found: ${path}`);
+    const parsed = matter(content);
+    for (const [key, value] of Object.entries(properties)) {
+      parsed.data[key] = value;
+    }
+    await this.write(path, matter.stringify(parsed.content, parsed.data));
+  }
+}
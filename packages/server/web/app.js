@@ -0,0 +1,439 @@
+// Web chat for the Life Companion server — plain ES module, no build step.
+// Talks to /api/v1 with the login token kept in localStorage.
+
+const API = "api/v1";
+const TOKEN_KEY = "lc.token";
+const CONVERSATION_KEY = "lc.conversation";
+
+const $ = (selector) => document.querySelector(selector);
+
+const state = {
+  token: localStorage.getItem(TOKEN_KEY),
+  conversation: null,
+  /** Tool name → display name, from /tools */
+  toolNames: {},
+  streaming: false,
+};
+
+// ─── API ─────────────────────────────────────────────────
+
+async function api(path, { method = "GET", body } = {}) {
+  const res = await fetch(`${API}${path}`, {
+    method,
+    headers: {
+      ...(state.token ? { Authorization: `Bearer ${state.token}` } : {}),
+      ...(body ? { "Content-Type": "application/json" } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  if (res.status === 401 && state.token) {
+    logout();
+    throw new Error("Your login has expired");
+  }
+  if (res.status === 204) return null;
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || `Request failed (${res.status})`);
+  return data;
+}
+
+/** POST a message and hand each server-sent event to `onEvent` as it arrives */
+async function streamMessage(conversationId, text, onEvent) {
+  const res = await fetch(`${API}/conversations/${conversationId}/messages`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${state.token}`, "Content-Type": "application/json" },
+    body: JSON.stringify({ text }),
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || `Request failed (${res.status})`);
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let end;
+    while ((end = buffer.indexOf("\n\n")) !== -1) {
+      const block = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      const event = block.match(/^event: (.*)$/m)?.[1];
+      const data = block.match(/^data: (.*)$/m)?.[1];
+      if (event && data) onEvent(event, JSON.parse(data));
+    }
+  }
+}
+
+// ─── Markdown ────────────────────────────────────────────
+
+function escapeHtml(text) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function renderInline(text) {
+  const parked = [];
+  const park = (html) => `\u0000${parked.push(html) - 1}\u0000`;
+  let out = text.replace(/`([^`\n]+)`/g, (_m, code) => park(`<code>${escapeHtml(code)}</code>`));
+  out = out.replace(/\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g, (_m, target, alias) =>
+    park(`<span class="wikilink">${escapeHtml(alias || target.split("/").pop().replace(/\.md$/, ""))}</span>`));
+  out = out.replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, (_m, label, url) =>
+    park(`<a href="${escapeHtml(url)}" target="_blank" rel="noopener">${escapeHtml(label)}</a>`));
+  out = escapeHtml(out)
+    .replace(/\*\*(?!\s)(.+?)\*\*/g, "<strong>$1</strong>")
+    .replace(/~~(?!\s)(.+?)~~/g, "<s>$1</s>")
+    .replace(/(^|[^\w*])\*(?!\s)([^*]+?)\*(?!\w)/g, "$1<em>$2</em>")
+    .replace(/(^|[^\w])_(?!\s)([^_]+?)_(?!\w)/g, "$1<em>$2</em>");
+  return out.replace(/\u0000(\d+)\u0000/g, (_m, i) => parked[Number(i)]);
+}
+
+/** Enough Markdown for chat replies: headings, lists, tasks, quotes, code blocks and inline marks */
+function renderMarkdown(markdown) {
+  const html = [];
+  let list = null;
+  const closeList = () => {
+    if (list) html.push(`</${list}>`);
+    list = null;
+  };
+  const lines = markdown.replace(/\r\n/g, "\n").split("\n");
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fence = line.match(/^\s*```/);
+    if (fence) {
+      closeList();
+      const code = [];
+      for (i++; i < lines.length && !/^\s*```/.test(lines[i]); i++) code.push(lines[i]);
+      html.push(`<pre><code>${escapeHtml(code.join("\n"))}</code></pre>`);
+      continue;
+    }
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const bullet = line.match(/^\s*[-*+]\s+(?:\[([ xX])\]\s+)?(.*)$/);
+    const ordered = line.match(/^\s*\d+[.)]\s+(.*)$/);
+    if (bullet || ordered) {
+      const kind = bullet ? "ul" : "ol";
+      if (list !== kind) {
+        closeList();
+        html.push(`<${kind}>`);
+        list = kind;
+      }
+      const box = bullet?.[1] === undefined ? "" : bullet[1] === " " ? "☐ " : "☑ ";
+      html.push(`<li>${box}${renderInline(bullet ? bullet[2] : ordered[1])}</li>`);
+      continue;
+    }
+    closeList();
+    if (heading) html.push(`<h${Math.min(heading[1].length + 2, 6)}>${renderInline(heading[2])}</h${Math.min(heading[1].length + 2, 6)}>`);
+    else if (/^\s*>/.test(line)) html.push(`<blockquote>${renderInline(line.replace(/^\s*>\s?/, ""))}</blockquote>`);
+    else if (line.trim()) html.push(`<p>${renderInline(line)}</p>`);
+  }
+  closeList();
+  return html.join("");
+}
+
+// ─── Rendering ───────────────────────────────────────────
+
+function el(tag, className, text) {
+  const node = document.createElement(tag);
+  if (className) node.className = className;
+  if (text !== undefined) node.textContent = text;
+  return node;
+}
+
+function scrollToBottom() {
+  const messages = $("#messages");
+  messages.scrollTop = messages.scrollHeight;
+}
+
+function addMessage(role, content) {
+  const bubble = el("div", `message ${role}`);
+  const body = el("div", "body");
+  if (role === "assistant") body.innerHTML = renderMarkdown(content);
+  else body.textContent = content;
+  bubble.append(body);
+  $("#messages").append(bubble);
+  scrollToBottom();
+  return bubble;
+}
+
+function renderConversation(conversation) {
+  state.conversation = conversation;
+  localStorage.setItem(CONVERSATION_KEY, conversation.id);
+  $("#conversation-title").textContent = conversation.title;
+  $("#mode").value = conversation.mode;
+  $("#model").value = conversation.model;
+  const messages = $("#messages");
+  messages.replaceChildren();
+  if (conversation.messages.length === 0) {
+    messages.append(el("p", "empty", "Ask about your notes, calendar, tasks or anything else."));
+  }
+  for (const message of conversation.messages) addMessage(message.role, message.content);
+}
+
+/** Activity line for one tool call, filled in with the result when it arrives */
+function addToolActivity(bubble, name, input) {
+  const item = el("details", "tool running");
+  const summary = el("summary", "", `🔧 ${state.toolNames[name] ?? name}`);
+  item.append(summary, el("pre", "tool-input", JSON.stringify(input, null, 2)));
+  bubble.querySelector(".activity").append(item);
+  scrollToBottom();
+  return item;
+}
+
+function addApproval(bubble, { id, name, preview }) {
+  const card = el("div", "approval");
+  card.append(el("strong", "", `🔐 Allow ${state.toolNames[name] ?? name}?`));
+  if (preview?.path) card.append(el("div", "path", `📄 ${preview.path}`));
+  if (preview?.detail) card.append(el("div", "detail", preview.detail));
+  if (preview?.change) {
+    const after = preview.change.after === null ? "(file will be deleted)" : preview.change.after;
+    card.append(el("pre", "change", after.length > 1500 ? after.slice(0, 1500) + "\n…" : after));
+  }
+  const buttons = el("div", "buttons");
+  const answer = async (approved) => {
+    buttons.replaceChildren(el("span", "", approved ? "✅ Approved" : "❌ Rejected"));
+    await api(`/approvals/${id}`, { method: "POST", body: { approved } })
+      .catch((e) => buttons.replaceChildren(el("span", "error", e.message)));
+  };
+  const approve = el("button", "approve", "Approve");
+  const reject = el("button", "reject", "Reject");
+  approve.onclick = () => answer(true);
+  reject.onclick = () => answer(false);
+  buttons.append(approve, reject);
+  card.append(buttons);
+  bubble.querySelector(".activity").append(card);
+  scrollToBottom();
+}
+
+// ─── Chat ────────────────────────────────────────────────
+
+async function send(text) {
+  if (state.streaming || !state.conversation) return;
+  state.streaming = true;
+  $("#composer button").disabled = true;
+  $("#messages .empty")?.remove();
+  addMessage("user", text);
+
+  const bubble = el("div", "message assistant streaming");
+  const activity = el("div", "activity");
+  const body = el("div", "body");
+  bubble.append(activity, body);
+  $("#messages").append(bubble);
+
+  let reply = "";
+  let thinking = null;
+  const tools = [];
+  try {
+    await streamMessage(state.conversation.id, text, (event, data) => {
+      switch (event) {
+        case "text":
+          reply += data.text;
+          body.innerHTML = renderMarkdown(reply);
+          break;
+        case "thinking":
+          if (!thinking) {
+            thinking = el("details", "thinking");
+            thinking.append(el("summary", "", "💭 Thinking"), el("div", "thinking-text"));
+            activity.append(thinking);
+          }
+          thinking.querySelector(".thinking-text").textContent += data.text;
+          break;
+        case "tool_use":
+          tools.push(addToolActivity(bubble, data.name, data.input));
+          break;
+        case "tool_result": {
+          const item = tools.find((t) => t.classList.contains("running"));
+          if (item) {
+            item.classList.remove("running");
+            item.append(el("pre", "tool-result", data.result.length > 2000 ? data.result.slice(0, 2000) + "\n…" : data.result));
+          }
+          break;
+        }
+        case "approval":
+          addApproval(bubble, data);
+          break;
+        case "done":
+          body.innerHTML = renderMarkdown(data.text || "No response generated.");
+          break;
+        case "error":
+          body.append(el("p", "error", data.error));
+          break;
+      }
+      scrollToBottom();
+    });
+    // The title is set from the first message on the server
+    state.conversation = await api(`/conversations/${state.conversation.id}`);
+    $("#conversation-title").textContent = state.conversation.title;
+  } catch (e) {
+    body.append(el("p", "error", e.message));
+  } finally {
+    bubble.classList.remove("streaming");
+    for (const item of tools) item.classList.remove("running");
+    state.streaming = false;
+    $("#composer button").disabled = false;
+  }
+}
+
+async function newConversation() {
+  const conversation = await api("/conversations", {
+    method: "POST",
+    body: { mode: $("#mode").value, model: $("#model").value || undefined },
+  });
+  renderConversation(conversation);
+}
+
+async function openConversation(id) {
+  renderConversation(await api(`/conversations/${id}`));
+}
+
+async function showHistory() {
+  const list = $("#conversation-list");
+  list.replaceChildren(el("li", "muted", "Loading…"));
+  $("#history").hidden = false;
+  const conversations = await api("/conversations");
+  list.replaceChildren();
+  for (const c of conversations) {
+    const item = el("li", c.id === state.conversation?.id ? "current" : "");
+    const button = el("button", "", c.title);
+    button.append(el("small", "", `${c.messageCount} messages · ${new Date(c.updatedAt).toLocaleString()}`));
+    button.onclick = async () => {
+      $("#history").hidden = true;
+      await openConversation(c.id);
+    };
+    item.append(button);
+    list.append(item);
+  }
+  if (conversations.length === 0) list.append(el("li", "muted", "No conversations yet."));
+}
+
+async function updateConversation(changes) {
+  if (!state.conversation) return;
+  state.conversation = await api(`/conversations/${state.conversation.id}`, { method: "PATCH", body: changes });
+}
+
+// ─── Screens ─────────────────────────────────────────────
+
+function showLogin(error) {
+  $("#chat").hidden = true;
+  $("#login").hidden = false;
+  $("#login-error").hidden = !error;
+  $("#login-error").textContent = error ?? "";
+}
+
+function logout() {
+  state.token = null;
+  localStorage.removeItem(TOKEN_KEY);
+  showLogin();
+}
+
+async function start() {
+  if (!state.token) {
+    showLogin();
+    return;
+  }
+  try {
+    const [me, models, tools] = await Promise.all([api("/me"), api("/models"), api("/tools")]);
+    $("#user-name").textContent = me.name;
+    state.toolNames = Object.fromEntries(tools.map((t) => [t.name, t.displayName]));
+    const select = $("#model");
+    select.replaceChildren(...models.map((m) => {
+      const option = el("option", "", `${m.label}: ${m.name}`);
+      option.value = m.id;
+      return option;
+    }));
+
+    $("#login").hidden = true;
+    $("#chat").hidden = false;
+
+    const savedId = localStorage.getItem(CONVERSATION_KEY);
+    const conversations = await api("/conversations");
+    const target = conversations.find((c) => c.id === savedId) ?? conversations.find((c) => c.active) ?? conversations[0];
+    if (target) await openConversation(target.id);
+    else await newConversation();
+  } catch (e) {
+    if (state.token) showLogin(e.message);
+  }
+}
+
+function setupHandlers() {
+  $("#toggle-token").onclick = () => {
+    const useToken = $("#token-fields").hidden;
+    $("#token-fields").hidden = !useToken;
+    $("#password-fields").hidden = useToken;
+    $("#toggle-token").textContent = useToken ? "Use a name and password instead" : "Use the API token instead";
+  };
+
+  $("#login-form").onsubmit = async (event) => {
+    event.preventDefault();
+    const form = new FormData(event.target);
+    const body = $("#token-fields").hidden
+      ? { name: form.get("name"), password: form.get("password") }
+      : { token: form.get("token") };
+    try {
+      const { token } = await api("/login", { method: "POST", body });
+      state.token = token;
+      localStorage.setItem(TOKEN_KEY, token);
+      event.target.reset();
+      await start();
+    } catch (e) {
+      showLogin(e.message);
+    }
+  };
+
+  $("#join-form").onsubmit = async (event) => {
+    event.preventDefault();
+    const form = new FormData(event.target);
+    try {
+      const { token } = await api("/join", { method: "POST", body: { code: form.get("code"), password: form.get("password") } });
+      state.token = token;
+      localStorage.setItem(TOKEN_KEY, token);
+      event.target.reset();
+      await start();
+    } catch (e) {
+      showLogin(e.message);
+    }
+  };
+
+  const textarea = $("#composer textarea");
+  const submit = () => {
+    const text = textarea.value.trim();
+    if (!text || state.streaming) return;
+    textarea.value = "";
+    textarea.style.height = "";
+    void send(text);
+  };
+  $("#composer").onsubmit = (event) => {
+    event.preventDefault();
+    submit();
+  };
+  textarea.addEventListener("keydown", (event) => {
+    // Enter sends on a keyboard; on phones the return key adds a line and the button sends
+    if (event.key === "Enter" && !event.shiftKey && !event.isComposing && matchMedia("(pointer: fine)").matches) {
+      event.preventDefault();
+      submit();
+    }
+  });
+  textarea.addEventListener("input", () => {
+    textarea.style.height = "";
+    textarea.style.height = `${Math.min(textarea.scrollHeight, 160)}px`;
+  });
+
+  $("#mode").onchange = () => updateConversation({ mode: $("#mode").value }).catch((e) => alert(e.message));
+  $("#model").onchange = () => updateConversation({ model: $("#model").value }).catch((e) => alert(e.message));
+  $("#open-history").onclick = () => showHistory().catch((e) => alert(e.message));
+  $("#close-history").onclick = () => { $("#history").hidden = true; };
+  $("#new-conversation").onclick = async () => {
+    $("#history").hidden = true;
+    await newConversation().catch((e) => alert(e.message));
+  };
+  $("#logout").onclick = () => {
+    $("#history").hidden = true;
+    logout();
+  };
+}
+
+if ("serviceWorker" in navigator) {
+  navigator.serviceWorker.register("sw.js").catch((e) => console.warn("Service worker not registered:", e));
+}
+setupHandlers();
+void start();
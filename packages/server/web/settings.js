@@ -0,0 +1,214 @@
+// Settings page — the form is built from the field lists GET /settings returns,
+// so a new setting only needs adding on the server.
+
+const API = "api/v1";
+const TOKEN_KEY = "lc.token";
+
+const $ = (selector) => document.querySelector(selector);
+const token = localStorage.getItem(TOKEN_KEY);
+
+/** The last GET /settings reply */
+let settings = null;
+
+async function api(path, { method = "GET", body } = {}) {
+  const res = await fetch(`${API}${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      ...(body ? { "Content-Type": "application/json" } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  if (res.status === 401) {
+    // The chat page handles logging in again
+    localStorage.removeItem(TOKEN_KEY);
+    location.href = "./";
+    throw new Error("Your login has expired");
+  }
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || `Request failed (${res.status})`);
+  return data;
+}
+
+function el(tag, className, text) {
+  const node = document.createElement(tag);
+  if (className) node.className = className;
+  if (text !== undefined) node.textContent = text;
+  return node;
+}
+
+function option(value, label, selected) {
+  const node = el("option", "", label);
+  node.value = value;
+  node.selected = selected;
+  return node;
+}
+
+// ─── Inputs ──────────────────────────────────────────────
+
+/** Whether a text field holds a model id — those get a model picker */
+const isModelField = (field) => field.key === "model" || field.key === "defaultModel";
+
+/** An input for `field` with a `read()` that returns its current value */
+function createInput(field, value) {
+  if (isModelField(field)) {
+    const select = el("select");
+    const known = settings.models.some((m) => m.id === value);
+    if (!known) select.append(option(value, `${value} (unavailable)`, true));
+    select.append(...settings.models.map((m) => option(m.id, `${m.label}: ${m.name}`, m.id === value)));
+    return { node: select, read: () => select.value };
+  }
+
+  switch (field.type) {
+    case "integer": {
+      const input = el("input");
+      Object.assign(input, { type: "number", step: 1, value: String(value) });
+      if (field.min !== undefined) input.min = field.min;
+      if (field.max !== undefined) input.max = field.max;
+      return { node: input, read: () => Number(input.value) };
+    }
+    case "select": {
+      const select = el("select");
+      select.append(...field.options.map((o) => option(o, o, o === value)));
+      return { node: select, read: () => select.value };
+    }
+    case "list": {
+      // Models to offer; none ticked offers them all
+      const box = el("div", "checklist");
+      const boxes = settings.models.map((m) => {
+        const label = el("label");
+        const check = el("input");
+        Object.assign(check, { type: "checkbox", value: m.id, checked: value.includes(m.id) });
+        label.append(check, ` ${m.label}: ${m.name}`);
+        box.append(label);
+        return check;
+      });
+      return { node: box, read: () => boxes.filter((b) => b.checked).map((b) => b.value) };
+    }
+    case "policies": {
+      // Tools without a choice keep their built-in policy: writes ask first, reads run
+      const table = el("div", "policies");
+      const selects = settings.tools.map((tool) => {
+        const row = el("label", "policy");
+        const select = el("select");
+        select.append(
+          option("", `default (${tool.writes ? "confirm" : "auto"})`, !value[tool.name]),
+          ...["auto", "confirm", "deny"].map((p) => option(p, p, value[tool.name] === p)),
+        );
+        select.dataset.tool = tool.name;
+        row.append(el("span", "", tool.displayName), select);
+        table.append(row);
+        return select;
+      });
+      return {
+        node: table,
+        read: () => Object.fromEntries(selects.filter((s) => s.value).map((s) => [s.dataset.tool, s.value])),
+      };
+    }
+    default: {
+      const input = el("input");
+      Object.assign(input, { type: "text", value, autocapitalize: "off" });
+      if (field.type === "timezone") input.setAttribute("list", "timezones");
+      if (field.required) input.required = true;
+      return { node: input, read: () => input.value.trim() };
+    }
+  }
+}
+
+function describe(value) {
+  if (Array.isArray(value)) return value.length ? value.join(", ") : "all";
+  if (value && typeof value === "object") return Object.keys(value).length ? JSON.stringify(value) : "none";
+  return value === "" ? "empty" : String(value);
+}
+
+/**
+ * Fill `form` with one row per field. Returns a function collecting the values
+ * that changed — with `defaults`, a Reset button per row sends null instead.
+ */
+function renderFields(form, fields, values, defaults) {
+  const container = form.querySelector(".fields");
+  container.replaceChildren();
+  const resets = new Set();
+  const inputs = fields.map((field) => {
+    const row = el("div", "field");
+    const input = createInput(field, values[field.key]);
+    row.append(el("label", "", field.label), input.node);
+    if (field.help) row.append(el("small", "muted", field.help));
+
+    if (defaults && JSON.stringify(values[field.key]) !== JSON.stringify(defaults[field.key])) {
+      const note = el("small", "muted", `Overrides .env (${describe(defaults[field.key])}) `);
+      const reset = el("button", "link", "Reset");
+      reset.type = "button";
+      reset.onclick = () => {
+        resets.add(field.key);
+        input.node.hidden = true;
+        note.textContent = `Back to ${describe(defaults[field.key])} on save`;
+      };
+      note.append(reset);
+      row.append(note);
+    }
+    container.append(row);
+    return { field, input };
+  });
+
+  return () => {
+    const changes = {};
+    for (const { field, input } of inputs) {
+      const value = resets.has(field.key) ? null : input.read();
+      if (JSON.stringify(value) !== JSON.stringify(values[field.key])) changes[field.key] = value;
+    }
+    return changes;
+  };
+}
+
+// ─── Page ────────────────────────────────────────────────
+
+function bindForm(form, collect, save) {
+  const status = form.querySelector(".status");
+  form.onsubmit = async (event) => {
+    event.preventDefault();
+    const changes = collect();
+    if (Object.keys(changes).length === 0) {
+      status.textContent = "Nothing changed";
+      return;
+    }
+    const button = form.querySelector("button[type=submit]");
+    button.disabled = true;
+    status.textContent = "Saving…";
+    try {
+      await save(changes);
+      await load();
+      status.textContent = "Saved";
+    } catch (e) {
+      status.textContent = "";
+      alert(e.message);
+    } finally {
+      button.disabled = false;
+    }
+  };
+}
+
+async function load() {
+  settings = await api("/settings");
+  const { profile, server } = settings;
+
+  const collectProfile = renderFields($("#profile-form"), profile.fields, profile.values);
+  bindForm($("#profile-form"), collectProfile, (changes) => api("/settings/profile", { method: "PUT", body: changes }));
+
+  $("#server-form").hidden = !server;
+  if (server) {
+    const collectServer = renderFields($("#server-form"), server.fields, server.values, server.defaults);
+    bindForm($("#server-form"), collectServer, (changes) => api("/settings/server", { method: "PUT", body: changes }));
+  }
+}
+
+if (!token) {
+  location.href = "./";
+} else {
+  const zones = Intl.supportedValuesOf?.("timeZone") ?? [];
+  $("#timezones").append(...zones.map((zone) => option(zone, zone, false)));
+  load().catch((e) => {
+    $("#settings-error").hidden = false;
+    $("#settings-error").textContent = e.message;
+  });
+}
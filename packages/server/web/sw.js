@@ -0,0 +1,32 @@
+// App shell cache, so the chat opens instantly and installs as a PWA.
+// API calls always go to the network; the shell is refreshed in the background.
+const CACHE = "life-companion-v2";
+const SHELL = ["./", "index.html", "app.js", "settings.html", "settings.js", "style.css", "icon.svg", "manifest.webmanifest"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const url = new URL(event.request.url);
+  if (event.request.method !== "GET" || url.origin !== location.origin || url.pathname.includes("/api/")) return;
+
+  event.respondWith(caches.open(CACHE).then(async (cache) => {
+    const cached = await cache.match(event.request);
+    const fresh = fetch(event.request)
+      .then((response) => {
+        if (response.ok) cache.put(event.request, response.clone());
+        return response;
+      })
+      .catch(() => cached);
+    return cached ?? fresh;
+  }));
+});
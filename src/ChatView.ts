@@ -3,19 +3,25 @@ import type LifeCompanionPlugin from "./main";
 import {
   MAX_ATTACHMENTS,
   MAX_IMAGE_BYTES,
-  MODEL_CONTEXT_LIMITS,
+  getContextLimit,
   SUPPORTED_MIME_TYPES,
   getEffectiveModelGroups,
   resolveAttachmentType,
+  fromSavedConversation,
   getI18n,
+  getTool,
+  diffLines,
   type AIModel,
   type Attachment,
   type AttachmentRef,
   type ChatMessage,
   type ChatMode,
   type ConversationState,
+  type FileChange,
   type I18n,
   type SavedConversation,
+  type ToolDecision,
+  type ToolPreview,
 } from "@life-companion/core";
 import type { CalendarEvent } from "./calendar-manager";
 
@@ -38,6 +44,8 @@ export class ChatView extends ItemView {
   private thinkingEl: HTMLElement | null = null;
   private thinkingBody: HTMLElement | null = null;
   private thinkingToolQueue = new Map<string, HTMLElement[]>();
+  private thinkingParagraph: HTMLElement | null = null;
+  private thinkingParagraphText = "";
   private thinkingStopped = false;
   private thinkingStartTime = 0;
   private thinkingTimerInterval: ReturnType<typeof setInterval> | null = null;
@@ -1123,84 +1131,13 @@ export class ChatView extends ItemView {
   // ─── Thinking Container (Claude-style) ─────────────────────────
 
   private getToolDescription(name: string, input: Record<string, unknown>): string {
-    const t = this.t;
-    switch (name) {
-      case "search_vault":
-        return t.toolSearching(typeof input.query === "string" ? input.query : "");
-      case "read_note":
-        return t.toolReading(typeof input.path === "string" ? input.path : "");
-      case "write_note":
-        return t.toolWriting(typeof input.path === "string" ? input.path : "");
-      case "move_note":
-        return t.toolMoving(typeof input.from === "string" ? input.from : "", typeof input.to === "string" ? input.to : "");
-      case "list_folder":
-        return t.toolListing(typeof input.path === "string" ? input.path : "/");
-      case "get_recent_notes":
-        return t.toolRecentNotes(typeof input.days === "number" ? input.days : 0);
-      case "web_search":
-        return t.toolWebSearch(typeof input.query === "string" ? input.query : "");
-      case "web_fetch": {
-        const url = typeof input.url === "string" ? input.url : "";
-        return t.toolFetching(url.length > 40 ? url.slice(0, 40) + "..." : url);
-      }
-      case "append_note":
-        return t.toolAppending(typeof input.path === "string" ? input.path : "");
-      case "read_properties":
-        return t.toolReadingProps(typeof input.path === "string" ? input.path : "");
-      case "update_properties":
-        return t.toolUpdatingProps(typeof input.path === "string" ? input.path : "");
-      case "get_tags":
-        return t.toolGettingTags;
-      case "search_by_tag":
-        return t.toolSearchingTag(typeof input.tag === "string" ? input.tag : "");
-      case "get_vault_stats":
-        return t.toolVaultStats;
-      case "get_backlinks":
-        return t.toolBacklinks(typeof input.path === "string" ? input.path : "");
-      case "get_outgoing_links":
-        return t.toolOutgoing(typeof input.path === "string" ? input.path : "");
-      case "get_tasks":
-        return t.toolGettingTasks(typeof input.path === "string" ? input.path : "vault");
-      case "toggle_task":
-        return t.toolTogglingTask;
-      case "get_daily_note":
-        return t.toolDailyRead(typeof input.date === "string" ? input.date : undefined);
-      case "create_daily_note":
-        return t.toolDailyCreate(typeof input.date === "string" ? input.date : undefined);
-      case "check_calendar_status":
-        return t.toolCalendarCheck;
-      case "get_events": {
-        const detail = typeof input.date === "string" ? ` ${input.date}` : typeof input.startDate === "string" ? ` ${input.startDate}–${typeof input.endDate === "string" ? input.endDate : ""}` : "";
-        return t.toolGettingEvents(detail);
-      }
-      case "create_event":
-        return t.toolCreatingEvent(typeof input.title === "string" ? input.title : "", typeof input.date === "string" ? input.date : "");
-      case "update_event":
-        return t.toolUpdatingEvent;
-      case "delete_event":
-        return t.toolDeletingEvent;
-      case "get_upcoming_events":
-        return t.toolUpcoming(typeof input.days === "number" ? input.days : 7);
-      case "save_memory":
-        return t.toolSavingMemory;
-      case "recall_memory":
-        return t.toolRecalling(typeof input.query === "string" ? input.query : undefined);
-      case "gather_retro_data":
-        return t.toolGatheringRetro(typeof input.startDate === "string" ? input.startDate : "", typeof input.endDate === "string" ? input.endDate : "");
-      case "save_retro":
-        return t.toolSavingRetro(typeof input.period === "string" ? input.period : "");
-      case "get_goals":
-        return t.toolGettingGoals;
-      case "update_goal":
-        return t.toolUpdatingGoal(typeof input.title === "string" ? input.title : "");
-      default:
-        return t.toolUsing(name);
-    }
+    return getTool(name)?.progress(this.t, input) ?? this.t.toolUsing(name);
   }
 
   startThinking() {
     this.thinkingStopped = false;
     this.thinkingToolQueue.clear();
+    this.thinkingParagraph = null;
     this.thinkingStartTime = Date.now();
 
     this.thinkingEl = this.messagesContainer.createDiv({ cls: "lc-thinking" });
@@ -1241,9 +1178,14 @@ export class ChatView extends ItemView {
       thinkingContent = this.thinkingBody.createDiv({ cls: "lc-thinking-content" });
     }
 
-    const paragraph = thinkingContent.createDiv({ cls: "lc-thinking-text" });
-    const displayText = text.length > 500 ? text.slice(0, 500) + "..." : text;
-    paragraph.textContent = displayText;
+    // Thinking streams in as deltas — keep appending to the current paragraph until a tool call breaks it
+    if (!this.thinkingParagraph) {
+      this.thinkingParagraph = thinkingContent.createDiv({ cls: "lc-thinking-text" });
+      this.thinkingParagraphText = "";
+    }
+    this.thinkingParagraphText += text;
+    const full = this.thinkingParagraphText;
+    this.thinkingParagraph.textContent = full.length > 500 ? full.slice(0, 500) + "..." : full;
 
     const label = this.thinkingEl?.querySelector(".lc-thinking-label");
     if (label) label.textContent = this.t.deepThinking;
@@ -1252,6 +1194,7 @@ export class ChatView extends ItemView {
   addToolCall(name: string, input: Record<string, unknown>) {
     if (!this.thinkingBody) return;
 
+    this.thinkingParagraph = null;
     const desc = this.getToolDescription(name, input);
     const item = this.thinkingBody.createDiv({ cls: "lc-thinking-tool" });
     item.createSpan({ cls: "lc-tool-spinner" });
@@ -1267,7 +1210,7 @@ export class ChatView extends ItemView {
     this.scrollToBottom();
   }
 
-  completeToolCall(name: string, result: string) {
+  completeToolCall(name: string, result: string, changes: FileChange[] = []) {
     const queue = this.thinkingToolQueue.get(name);
     if (!queue || queue.length === 0) return;
     const item = queue.shift()!;
@@ -1292,6 +1235,115 @@ export class ChatView extends ItemView {
     const label = this.thinkingEl?.querySelector(".lc-thinking-label");
     const doneName = this.t.toolDone[name] || name;
     if (label) label.textContent = doneName;
+
+    if (changes.length > 0) this.renderToolChanges(item, changes);
+  }
+
+  /** Collapsible diff of what a write tool changed, with a one-click undo */
+  private renderToolChanges(item: HTMLElement, changes: FileChange[]) {
+    const t = this.t;
+    const block = document.createElement("div");
+    block.className = "lc-tool-change";
+    item.after(block);
+
+    const header = block.createDiv({ cls: "lc-tool-change-header" });
+    const arrow = header.createSpan({ cls: "lc-tool-change-arrow", text: "\u25B8" }); // right arrow = collapsed
+    for (const change of changes) {
+      const lines = diffLines(change.before, change.after, 0);
+      const added = lines.filter((l) => l.type === "add").length;
+      const removed = lines.filter((l) => l.type === "remove").length;
+      const fileEl = header.createSpan({ cls: "lc-tool-change-file" });
+      fileEl.createSpan({ cls: "lc-tool-change-path", text: change.path });
+      fileEl.createSpan({ cls: "lc-tool-change-added", text: `+${added}` });
+      fileEl.createSpan({ cls: "lc-tool-change-removed", text: `−${removed}` });
+    }
+    const undoBtn = header.createEl("button", { cls: "lc-tool-change-undo", text: t.undoChange });
+
+    const body = block.createDiv({ cls: "lc-tool-change-body lc-collapsed" });
+    for (const change of changes) {
+      if (changes.length > 1) body.createDiv({ cls: "lc-tool-change-path", text: change.path });
+      this.renderDiff(body, change.before, change.after);
+    }
+
+    header.addEventListener("click", () => {
+      const collapsed = body.hasClass("lc-collapsed");
+      body.toggleClass("lc-collapsed", !collapsed);
+      arrow.textContent = collapsed ? "\u25BE" : "\u25B8";
+    });
+    undoBtn.addEventListener("click", (e) => {
+      e.stopPropagation();
+      undoBtn.disabled = true;
+      void this.plugin.undoToolChange(changes).then((undone) => {
+        if (!undone) {
+          undoBtn.disabled = false;
+          return;
+        }
+        block.addClass("lc-tool-change-undone");
+        undoBtn.textContent = t.undoDone;
+      }).catch((err) => {
+        undoBtn.disabled = false;
+        new Notice(t.undoFailed((err as Error).message));
+      });
+    });
+  }
+
+  // ─── Tool Approval ─────────────────────────────────────────────
+
+  /** Inline card for a "confirm" tool call — resolves when the user answers or the request is stopped */
+  requestToolApproval(name: string, preview: ToolPreview | null, abortSignal?: AbortSignal): Promise<ToolDecision> {
+    if (abortSignal?.aborted) return Promise.resolve({ approved: false });
+
+    const t = this.t;
+    const card = this.messagesContainer.createDiv({ cls: "lc-approval-card" });
+    const header = card.createDiv({ cls: "lc-approval-header" });
+    header.createSpan({ cls: "lc-approval-title", text: t.approvalTitle(getTool(name)?.displayName ?? name) });
+    if (preview?.path) header.createSpan({ cls: "lc-approval-path", text: preview.path });
+    if (preview?.detail) card.createDiv({ cls: "lc-approval-detail", text: preview.detail });
+    if (preview?.change) this.renderDiff(card, preview.change.before, preview.change.after);
+
+    const reasonInput = card.createEl("input", {
+      cls: "lc-approval-reason",
+      attr: { type: "text", placeholder: t.approvalReasonPlaceholder },
+    });
+    const actions = card.createDiv({ cls: "lc-approval-actions" });
+    const approveBtn = actions.createEl("button", { cls: "mod-cta", text: t.approvalApprove });
+    const rejectBtn = actions.createEl("button", { text: t.approvalReject });
+    this.scrollToBottom();
+
+    return new Promise((resolve) => {
+      const settle = (decision: ToolDecision) => {
+        abortSignal?.removeEventListener("abort", onAbort);
+        reasonInput.remove();
+        actions.remove();
+        card.addClass(decision.approved ? "lc-approval-approved" : "lc-approval-rejected");
+        card.createDiv({ cls: "lc-approval-status", text: decision.approved ? t.approvalApproved : t.approvalRejected });
+        resolve(decision);
+      };
+      const onAbort = () => settle({ approved: false });
+      abortSignal?.addEventListener("abort", onAbort);
+      approveBtn.addEventListener("click", () => settle({ approved: true }));
+      rejectBtn.addEventListener("click", () => settle({ approved: false, reason: reasonInput.value.trim() || undefined }));
+      reasonInput.addEventListener("keydown", (e) => {
+        if (e.key === "Enter") rejectBtn.click();
+      });
+    });
+  }
+
+  /** Unified diff of a file change; null content means the file is absent on that side */
+  private renderDiff(parent: HTMLElement, before: string | null, after: string | null) {
+    const t = this.t;
+    const diffEl = parent.createDiv({ cls: "lc-diff" });
+    if (before === null) diffEl.createDiv({ cls: "lc-diff-label", text: t.diffNewFile });
+    else if (after === null) diffEl.createDiv({ cls: "lc-diff-label", text: t.diffDeletedFile });
+
+    for (const line of diffLines(before, after)) {
+      if (line.type === "skip") {
+        diffEl.createDiv({ cls: "lc-diff-line lc-diff-skip", text: t.diffUnchanged(line.count ?? 0) });
+        continue;
+      }
+      const marker = line.type === "add" ? "+" : line.type === "remove" ? "-" : " ";
+      diffEl.createDiv({ cls: `lc-diff-line lc-diff-${line.type}`, text: `${marker} ${line.text}` });
+    }
   }
 
   stopThinking() {
@@ -1426,19 +1478,7 @@ export class ChatView extends ItemView {
   }
 
   private loadConversation(saved: SavedConversation) {
-    const conv: ConversationState = {
-      id: saved.id,
-      title: saved.title,
-      messages: [...saved.messages],
-      history: saved.messages.map((m) => ({ role: m.role, content: m.content })),
-      mode: saved.mode,
-      model: saved.model,
-      createdAt: saved.createdAt,
-      updatedAt: saved.updatedAt,
-      totalInputTokens: saved.totalInputTokens || 0,
-      totalOutputTokens: saved.totalOutputTokens || 0,
-    };
-    this.loadConversationState(conv);
+    this.loadConversationState(fromSavedConversation(saved));
   }
 
   /** Load a ConversationState into the UI (shared by tabs and history) */
@@ -1752,7 +1792,7 @@ export class ChatView extends ItemView {
   private updateTokenCounter() {
     if (!this.tokenCounterEl) return;
     const { tokens: used, isActual } = this.getConversationTokens();
-    const limit = MODEL_CONTEXT_LIMITS[this.selectedModel] || 200000;
+    const limit = getContextLimit(this.selectedModel, this.plugin.settings.customModels);
     const ratio = used / limit;
 
     const prefix = isActual ? "" : "~";
@@ -85,6 +85,12 @@ export class CalendarManager {
     return "calendar";
   }
 
+  /** Where create_event puts an event: "<events dir>/<date> <title>.md" */
+  async getEventPath(title: string, date: string): Promise<string> {
+    const slug = title.replace(/[/\\:*?"<>|]/g, "-").replace(/\s+/g, " ").trim();
+    return `${await this.getEventsDir()}/${date} ${slug}.md`;
+  }
+
   // ─── Check Status ───────────────────────────────────────
 
   async checkCalendarStatus(): Promise<string> {
@@ -329,9 +335,7 @@ export class CalendarManager {
     body?: string;
   }): Promise<string> {
     const dir = await this.getEventsDir();
-    const slug = params.title.replace(/[/\\:*?"<>|]/g, "-").replace(/\s+/g, " ").trim();
-    const fileName = `${params.date} ${slug}.md`;
-    const filePath = `${dir}/${fileName}`;
+    const filePath = await this.getEventPath(params.title, params.date);
 
     const existing = this.app.vault.getAbstractFileByPath(filePath);
     if (existing) return `Event file already exists: ${filePath}. Use update_event instead.`;
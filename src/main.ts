@@ -1,40 +1,46 @@
+import * as http from "http";
+import * as https from "https";
 import { Notice, Plugin, requestUrl } from "obsidian";
 import { ChatView, VIEW_TYPE_CHAT } from "./ChatView";
 import { ChatHistory } from "./chat-history";
 import { ProfileManager } from "./profile";
 import { LifeCompanionSettingTab } from "./settings";
 import { refreshFromClaudeCode } from "./auth";
-import { VaultTools } from "./vault-tools";
+import { ObsidianVaultTools } from "./vault-tools";
 import { CalendarManager } from "./calendar-manager";
+import { createSyncProvider, type SyncProvider } from "./sync-provider";
 import {
   AIClient,
   buildSystemPrompt,
-  SUMMARIZE_PROMPT,
+  compactConversation,
   DEFAULT_SETTINGS,
-  MODEL_CONTEXT_LIMITS,
-  SUMMARIZE_MODEL_PREFERENCE,
-  getEffectiveModelGroups,
-  getProvider,
+  getProviderAdapter,
+  listProviders,
+  resolveProvider,
   getI18n,
+  executeToolWithChanges,
+  isWriteTool,
+  previewTool,
+  toSavedConversation,
+  withAttachmentContext,
   VAULT_TOOLS, WEB_TOOLS, KNOWLEDGE_TOOLS, GRAPH_TOOLS, TASK_TOOLS, DAILY_TOOLS, CALENDAR_TOOLS, MEMORY_TOOLS,
   type AIProvider,
   type Attachment,
+  type AuthConfig,
   type ChatMode,
   type ConversationState,
+  type FileChange,
+  type HttpClient,
   type HttpRequestOptions,
+  type HttpStreamRequestOptions,
+  type HttpStreamResponse,
   type LifeCompanionSettings,
   type SimpleMessage,
+  type ToolContext,
+  type ToolDecision,
   type ToolDefinition,
 } from "@life-companion/core";
 
-/** Tools that create/modify vault content — used for hallucination detection */
-const WRITE_TOOLS = new Set([
-  "write_note", "append_note", "move_note",
-  "create_daily_note", "update_properties",
-  "create_event", "update_event", "delete_event",
-  "save_memory", "save_retro", "update_goal",
-]);
-
 /** Pattern to detect when AI claims it wrote/created something */
 const WRITE_CLAIM_PATTERN = /(?:Đã (?:tạo|lưu|cập nhật|ghi|thêm|viết|sửa|di chuyển|xóa)|(?:Created|Saved|Updated|Written|Moved|Deleted|Added) (?:note|event|file|entry|daily|memory|goal|retro)|(?:I(?:'ve| have) (?:created|saved|updated|written|moved|deleted|added)))/i;
 
@@ -60,14 +66,15 @@ function selectTools(message: string, mode: ChatMode, enabledTools: string[], ca
 export default class LifeCompanionPlugin extends Plugin {
   settings: LifeCompanionSettings;
   aiClient: AIClient;
-  vaultTools: VaultTools;
+  vaultTools: ObsidianVaultTools;
   calendarManager: CalendarManager;
   profileManager: ProfileManager;
+  syncProvider: SyncProvider | null = null;
 
   async onload() {
     await this.loadSettings();
 
-    this.vaultTools = new VaultTools(this.app);
+    this.vaultTools = new ObsidianVaultTools(this.app, this.httpClient);
     this.vaultTools.setEmbeddingKeys({
       openai: this.settings.openaiApiKey,
       gemini: this.settings.geminiApiKey,
@@ -95,6 +102,7 @@ export default class LifeCompanionPlugin extends Plugin {
     this.app.workspace.onLayoutReady(() => {
       void (async () => {
         await this.profileManager.ensureLifeFolder();
+        this.restartSync();
         if (this.settings.openaiApiKey || this.settings.geminiApiKey) {
           this.vaultTools.backfillEmbeddings().catch((e) =>
             console.warn("Memory backfill failed:", e)
@@ -106,29 +114,69 @@ export default class LifeCompanionPlugin extends Plugin {
 
   onunload() {
     // Obsidian handles view cleanup automatically
+    this.syncProvider?.stop();
+  }
+
+  /** Stop the running vault sync and start the one the settings describe */
+  restartSync() {
+    this.syncProvider?.stop();
+    this.syncProvider = createSyncProvider(
+      this.app,
+      this.settings,
+      `${this.app.vault.configDir}/plugins/${this.manifest.id}/sync-state.json`,
+    );
+    this.syncProvider?.start().catch((e) => console.error("Vault sync failed to start:", e));
+  }
+
+  /** requestUrl-backed HttpClient — shared by the AI client, vault web tools and the provider checks in settings */
+  httpClient: HttpClient = async (req: HttpRequestOptions) => {
+    const res = await requestUrl({
+      url: req.url,
+      method: req.method,
+      headers: req.headers,
+      body: req.body,
+      throw: req.throw ?? false,
+    });
+    // `res.json` throws on non-JSON bodies (web pages fetched by the web tools)
+    let json: unknown = null;
+    try { json = res.json; } catch (e) { console.debug("httpClient: JSON parse failed", e); }
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(res.headers)) headers[name.toLowerCase()] = value;
+    return { status: res.status, text: res.text, json, headers };
+  };
+
+  /** Credentials for every registered provider, read from settings via each adapter's key field */
+  getAuthConfig(): AuthConfig {
+    const auth: AuthConfig = { claudeAccessToken: this.settings.accessToken };
+    const fields = this.settings as unknown as Record<string, unknown>;
+    for (const adapter of listProviders()) {
+      for (const field of [adapter.apiKeyField, adapter.baseUrlField]) {
+        const value = field ? fields[field] : undefined;
+        if (field && typeof value === "string") auth[field] = value;
+      }
+    }
+    return auth;
   }
 
   private initAIClient() {
-    const httpAdapter = async (req: HttpRequestOptions) => {
-      const res = await requestUrl({
-        url: req.url,
-        method: req.method,
-        headers: req.headers,
-        body: req.body,
-        throw: req.throw ?? false,
+    // requestUrl buffers the whole body, so streaming goes through Node's http(s) (desktop only)
+    const streamAdapter = (req: HttpStreamRequestOptions) => new Promise<HttpStreamResponse>((resolve, reject) => {
+      const transport = req.url.startsWith("https:") ? https : http;
+      const headers: Record<string, string | number> = { ...req.headers };
+      if (req.body) headers["Content-Length"] = Buffer.byteLength(req.body);
+      const request = transport.request(req.url, { method: req.method, headers, signal: req.signal }, (res) => {
+        res.setEncoding("utf8");
+        resolve({ status: res.statusCode ?? 0, body: res });
       });
-      return { status: res.status, text: res.text, json: res.json };
-    };
+      request.on("error", reject);
+      if (req.body) request.write(req.body);
+      request.end();
+    });
 
     this.aiClient = new AIClient(
-      {
-        claudeAccessToken: this.settings.accessToken,
-        claudeApiKey: this.settings.claudeApiKey,
-        openaiApiKey: this.settings.openaiApiKey,
-        geminiApiKey: this.settings.geminiApiKey,
-        groqApiKey: this.settings.groqApiKey,
-      },
-      httpAdapter,
+      this.getAuthConfig(),
+      this.httpClient,
+      streamAdapter,
       // Auto-retry on 401: re-read fresh token from Claude Code Keychain
       async () => {
         if (!this.settings.accessToken) return null;
@@ -140,13 +188,7 @@ export default class LifeCompanionPlugin extends Plugin {
           this.settings.refreshToken = tokens.refreshToken;
           this.settings.tokenExpiresAt = tokens.expiresAt;
           await this.saveData(this.settings);
-          return {
-            claudeAccessToken: tokens.accessToken,
-            claudeApiKey: this.settings.claudeApiKey,
-            openaiApiKey: this.settings.openaiApiKey,
-            geminiApiKey: this.settings.geminiApiKey,
-            groqApiKey: this.settings.groqApiKey,
-          };
+          return this.getAuthConfig();
         } catch (e) {
           console.debug("Auth retry failed:", e);
           return null;
@@ -179,34 +221,13 @@ export default class LifeCompanionPlugin extends Plugin {
   }
 
   hasCredentialsFor(provider: string): boolean {
-    switch (provider) {
-      case "claude":
-        return !!(this.settings.accessToken || this.settings.claudeApiKey);
-      case "openai":
-        return !!this.settings.openaiApiKey;
-      case "gemini":
-        return !!this.settings.geminiApiKey;
-      case "groq":
-        return !!this.settings.groqApiKey;
-      default:
-        return false;
-    }
+    return getProviderAdapter(provider)?.hasCredentials(this.getAuthConfig()) ?? false;
   }
 
   saveConversation(conv: ConversationState) {
     const saved = this.settings.savedConversations;
     const existing = saved.findIndex((c) => c.id === conv.id);
-    const entry = {
-      id: conv.id,
-      title: conv.title,
-      messages: conv.messages.slice(-100), // keep last 100 messages
-      mode: conv.mode,
-      model: conv.model,
-      createdAt: conv.createdAt,
-      updatedAt: conv.updatedAt,
-      totalInputTokens: conv.totalInputTokens || 0,
-      totalOutputTokens: conv.totalOutputTokens || 0,
-    };
+    const entry = toSavedConversation(conv);
     if (existing >= 0) {
       saved[existing] = entry;
     } else {
@@ -241,13 +262,8 @@ export default class LifeCompanionPlugin extends Plugin {
   }
 
   resolveProvider(model: string): AIProvider {
-    // Check effective model groups first (handles dynamic/fetched models)
-    const groups = getEffectiveModelGroups(this.settings.customModels);
-    for (const group of groups) {
-      if (group.models.some((m) => m.id === model)) return group.provider;
-    }
-    // Fallback to pattern matching for known prefixes
-    return getProvider(model);
+    // Fetched model lists first (handles dynamic/custom models), then known prefixes
+    return resolveProvider(model, this.settings.customModels);
   }
 
   async handleMessage(text: string, conversation: ConversationState, view: ChatView, attachments?: Attachment[], abortSignal?: AbortSignal) {
@@ -309,6 +325,7 @@ export default class LifeCompanionPlugin extends Plugin {
       const calendarAvailable = this.calendarManager.isFullCalendarInstalled();
       const tools = selectTools(text, conversation.mode, this.settings.enabledTools, calendarAvailable);
       const writeToolResults = new Map<string, boolean>(); // name → succeeded
+      const toolChanges = new Map<string, FileChange[]>(); // name → files its last call changed
 
       const aiResponse = await this.aiClient.sendMessage({
         userMessage: text,
@@ -317,8 +334,10 @@ export default class LifeCompanionPlugin extends Plugin {
         provider,
         systemPrompt,
         conversationHistory: conversation.history,
-        toolExecutor: (name, input) => this.executeTool(name, input),
+        toolExecutor: (name, input) => this.executeTool(name, input, toolChanges),
         tools,
+        toolPolicies: this.settings.toolPolicies,
+        approveToolUse: (name, input) => this.requestToolApproval(view, name, input, abortSignal),
         attachments: attachments || [],
         abortSignal,
         onText: (chunk) => {
@@ -339,8 +358,9 @@ export default class LifeCompanionPlugin extends Plugin {
           view.scrollToBottom();
         },
         onToolResult: (name, result) => {
-          view.completeToolCall(name, result);
-          if (WRITE_TOOLS.has(name)) {
+          view.completeToolCall(name, result, toolChanges.get(name));
+          toolChanges.delete(name);
+          if (isWriteTool(name)) {
             const succeeded = !result.startsWith("Error") && !result.includes("not available");
             writeToolResults.set(name, succeeded);
           }
@@ -384,8 +404,10 @@ export default class LifeCompanionPlugin extends Plugin {
           provider,
           systemPrompt,
           conversationHistory: retryHistory,
-          toolExecutor: (name, input) => this.executeTool(name, input),
+          toolExecutor: (name, input) => this.executeTool(name, input, toolChanges),
           tools,
+          toolPolicies: this.settings.toolPolicies,
+          approveToolUse: (name, input) => this.requestToolApproval(view, name, input, abortSignal),
           attachments: [],
           abortSignal,
           onText: (chunk) => {
@@ -404,8 +426,9 @@ export default class LifeCompanionPlugin extends Plugin {
             view.scrollToBottom();
           },
           onToolResult: (name, result) => {
-            view.completeToolCall(name, result);
-            if (WRITE_TOOLS.has(name)) {
+            view.completeToolCall(name, result, toolChanges.get(name));
+            toolChanges.delete(name);
+            if (isWriteTool(name)) {
               const succeeded = !result.startsWith("Error") && !result.includes("not available");
               retryWriteResults.set(name, succeeded);
             }
@@ -445,19 +468,8 @@ export default class LifeCompanionPlugin extends Plugin {
       });
 
       // Enrich history with attachment context (text content inline, others as labels)
-      let historyContent = text;
-      if (attachments && attachments.length > 0) {
-        const textAtts = attachments.filter((a) => a.type === "text");
-        if (textAtts.length > 0) {
-          historyContent += "\n\n" + textAtts.map((a) => `[File: ${a.name}]\n${a.data}`).join("\n\n");
-        }
-        const nonTextAtts = attachments.filter((a) => a.type !== "text");
-        if (nonTextAtts.length > 0) {
-          historyContent += "\n\n[Attached: " + nonTextAtts.map((a) => a.name).join(", ") + "]";
-        }
-      }
       conversation.history.push(
-        { role: "user", content: historyContent },
+        { role: "user", content: withAttachmentContext(text, attachments) },
         { role: "assistant", content: response }
       );
 
@@ -469,16 +481,9 @@ export default class LifeCompanionPlugin extends Plugin {
       conversation.lastCacheCreationTokens = aiResponse.usage.cacheCreationInputTokens || 0;
 
       // ─── Context management: auto-summarize or hard-trim ──────────
-      const limit = MODEL_CONTEXT_LIMITS[conversation.model] || 200000;
-      const currentContext = aiResponse.usage.inputTokens > 0
-        ? aiResponse.usage.inputTokens
-        : this.estimateHistoryTokens(conversation);
-
-      if (currentContext > limit * 0.6 && conversation.history.length > 6) {
-        await this.autoSummarize(conversation, provider);
-      } else if (currentContext > limit * 0.85 && conversation.history.length > 2) {
-        this.hardTrimHistory(conversation, limit);
-      }
+      await compactConversation(
+        this.aiClient, conversation, provider, aiResponse.usage.inputTokens, this.settings.customModels,
+      );
 
       const chatHistory = new ChatHistory(this.app);
       await chatHistory.saveMessage({ role: "user", content: text, timestamp: Date.now() });
@@ -508,174 +513,40 @@ export default class LifeCompanionPlugin extends Plugin {
     }
   }
 
-  // ─── Context management helpers ──────────────────────────────────
-
-  private estimateHistoryTokens(conversation: ConversationState): number {
-    let total = 500;
-    for (const msg of conversation.history) {
-      total += Math.ceil(msg.content.length / 3);
-    }
-    return total;
-  }
-
-  private hardTrimHistory(conversation: ConversationState, limit: number) {
-    const est = (t: string) => Math.ceil(t.length / 3);
-    let total = 500;
-    for (const msg of conversation.history) total += est(msg.content);
-    while (total > limit * 0.7 && conversation.history.length > 2) {
-      const removed = conversation.history.splice(0, 2);
-      for (const msg of removed) total -= est(msg.content);
-    }
+  private get toolContext(): ToolContext {
+    return { vault: this.vaultTools, calendar: this.calendarManager };
   }
 
-  private async autoSummarize(conversation: ConversationState, currentProvider: AIProvider) {
-    const keepRecent = 4; // keep last 2 exchanges
-    if (conversation.history.length <= keepRecent + 2) return;
-
-    const toSummarize = conversation.history.slice(0, conversation.history.length - keepRecent);
-
-    const target = this.getSummarizeModel(currentProvider);
-    if (!target) {
-      const limit = MODEL_CONTEXT_LIMITS[conversation.model] || 200000;
-      this.hardTrimHistory(conversation, limit);
-      return;
-    }
-
-    try {
-      const conversationText = toSummarize
-        .map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`)
-        .join("\n\n");
-
-      const summaryResponse = await this.aiClient.summarize(
-        conversationText, SUMMARIZE_PROMPT, target.provider, target.model,
-      );
-
-      const recent = conversation.history.slice(conversation.history.length - keepRecent);
-      conversation.history = [
-        { role: "assistant", content: `[Context Summary]\n${summaryResponse.text}` },
-        ...recent,
-      ];
-
-      conversation.totalInputTokens = (conversation.totalInputTokens || 0) + summaryResponse.usage.inputTokens;
-      conversation.totalOutputTokens = (conversation.totalOutputTokens || 0) + summaryResponse.usage.outputTokens;
-    } catch (error) {
-      console.warn("Auto-summarize failed, falling back to trim:", error);
-      const limit = MODEL_CONTEXT_LIMITS[conversation.model] || 200000;
-      this.hardTrimHistory(conversation, limit);
-    }
+  /** Run a tool and record the files it changed under its name, for the chat's diff and undo */
+  private async executeTool(name: string, input: Record<string, unknown>, changes: Map<string, FileChange[]>): Promise<string> {
+    const { result, changes: files } = await executeToolWithChanges(this.toolContext, name, input);
+    changes.set(name, files);
+    return result;
   }
 
-  private getSummarizeModel(currentProvider: AIProvider): { model: string; provider: AIProvider } | null {
-    if (this.hasCredentialsFor(currentProvider)) {
-      const prefs = SUMMARIZE_MODEL_PREFERENCE[currentProvider];
-      if (prefs.length > 0) return { model: prefs[0], provider: currentProvider };
+  /** Put back what a tool call changed; refuses when a file was edited again since the call */
+  async undoToolChange(changes: FileChange[]): Promise<boolean> {
+    for (const change of changes) {
+      if ((await this.vaultTools.readFile(change.path)) !== change.after) {
+        new Notice(getI18n(this.settings.language).undoConflict(change.path));
+        return false;
+      }
     }
-    for (const p of ["groq", "gemini", "openai", "claude"] as AIProvider[]) {
-      if (p === currentProvider || !this.hasCredentialsFor(p)) continue;
-      const prefs = SUMMARIZE_MODEL_PREFERENCE[p];
-      if (prefs.length > 0) return { model: prefs[0], provider: p };
+    for (const change of changes) {
+      await this.vaultTools.restoreFile(change.path, change.before);
     }
-    return null;
+    return true;
   }
 
-  private async executeTool(name: string, input: Record<string, unknown>): Promise<string> {
-    try {
-      switch (name) {
-        case "search_vault":
-          return await this.vaultTools.searchVault(typeof input.query === "string" ? input.query : "");
-        case "read_note":
-          return await this.vaultTools.readNote(typeof input.path === "string" ? input.path : "");
-        case "write_note":
-          return await this.vaultTools.writeNote(typeof input.path === "string" ? input.path : "", typeof input.content === "string" ? input.content : "");
-        case "move_note":
-          return await this.vaultTools.moveNote(typeof input.from === "string" ? input.from : "", typeof input.to === "string" ? input.to : "");
-        case "list_folder":
-          return this.vaultTools.listFolder(typeof input.path === "string" ? input.path : "");
-        case "get_recent_notes":
-          return this.vaultTools.getRecentNotes(typeof input.days === "number" ? input.days : 0);
-        case "get_snapshots":
-          return this.vaultTools.getSnapshots(typeof input.path === "string" ? input.path : "");
-        case "read_snapshot":
-          return await this.vaultTools.readSnapshot(typeof input.path === "string" ? input.path : "");
-        case "web_search":
-          return await this.vaultTools.webSearch(typeof input.query === "string" ? input.query : "");
-        case "web_fetch":
-          return await this.vaultTools.webFetch(typeof input.url === "string" ? input.url : "");
-        case "append_note":
-          return await this.vaultTools.appendNote(typeof input.path === "string" ? input.path : "", typeof input.content === "string" ? input.content : "");
-        case "read_properties":
-          return this.vaultTools.readProperties(typeof input.path === "string" ? input.path : "");
-        case "update_properties":
-          return await this.vaultTools.updateProperties(typeof input.path === "string" ? input.path : "", (typeof input.properties === "object" && input.properties !== null) ? input.properties as Record<string, unknown> : {});
-        case "get_tags":
-          return this.vaultTools.getTags();
-        case "search_by_tag":
-          return this.vaultTools.searchByTag(typeof input.tag === "string" ? input.tag : "");
-        case "get_vault_stats":
-          return this.vaultTools.getVaultStats();
-        case "get_backlinks":
-          return this.vaultTools.getBacklinks(typeof input.path === "string" ? input.path : "");
-        case "get_outgoing_links":
-          return this.vaultTools.getOutgoingLinks(typeof input.path === "string" ? input.path : "");
-        case "get_tasks":
-          return await this.vaultTools.getTasks(typeof input.path === "string" ? input.path : "", input.includeCompleted !== false);
-        case "toggle_task":
-          return await this.vaultTools.toggleTask(typeof input.path === "string" ? input.path : "", typeof input.line === "number" ? input.line : 0);
-        case "get_daily_note":
-          return await this.vaultTools.getDailyNote(typeof input.date === "string" ? input.date : "");
-        case "create_daily_note":
-          return await this.vaultTools.createDailyNote(typeof input.date === "string" ? input.date : "", typeof input.content === "string" ? input.content : "");
-        // Calendar tools
-        case "check_calendar_status":
-          return await this.calendarManager.checkCalendarStatus();
-        case "get_events":
-          return await this.calendarManager.getEvents(typeof input.date === "string" ? input.date : "", typeof input.startDate === "string" ? input.startDate : "", typeof input.endDate === "string" ? input.endDate : "");
-        case "create_event":
-          return await this.calendarManager.createEvent({
-            title: typeof input.title === "string" ? input.title : "",
-            date: typeof input.date === "string" ? input.date : "",
-            startTime: typeof input.startTime === "string" ? input.startTime : "",
-            endTime: typeof input.endTime === "string" ? input.endTime : "",
-            allDay: input.allDay === true,
-            endDate: typeof input.endDate === "string" ? input.endDate : "",
-            type: (typeof input.type === "string" ? input.type : "single") as "single" | "recurring" | "rrule",
-            daysOfWeek: Array.isArray(input.daysOfWeek) ? input.daysOfWeek.map(v => typeof v === "string" ? v : String(v)) : [],
-            startRecur: typeof input.startRecur === "string" ? input.startRecur : "",
-            endRecur: typeof input.endRecur === "string" ? input.endRecur : "",
-            rrule: typeof input.rrule === "string" ? input.rrule : "",
-            body: typeof input.body === "string" ? input.body : "",
-          });
-        case "update_event":
-          return await this.calendarManager.updateEvent(typeof input.path === "string" ? input.path : "", (typeof input.properties === "object" && input.properties !== null) ? input.properties as Record<string, unknown> : {});
-        case "delete_event":
-          return await this.calendarManager.deleteEvent(typeof input.path === "string" ? input.path : "");
-        case "complete_event":
-          return await this.calendarManager.completeEvent(typeof input.path === "string" ? input.path : "", input.completed === true, typeof input.date === "string" ? input.date : undefined);
-        case "get_upcoming_events":
-          return await this.calendarManager.getUpcomingEvents((typeof input.days === "number" ? input.days : 0) || 7);
-        // Memory & Goals tools
-        case "save_memory":
-          return await this.vaultTools.saveMemory(typeof input.content === "string" ? input.content : "", typeof input.type === "string" ? input.type : "");
-        case "recall_memory":
-          return await this.vaultTools.recallMemory(typeof input.query === "string" ? input.query : "", typeof input.days === "number" ? input.days : 0, typeof input.limit === "number" ? input.limit : 0);
-        case "gather_retro_data":
-          return await this.vaultTools.gatherRetroData(typeof input.startDate === "string" ? input.startDate : "", typeof input.endDate === "string" ? input.endDate : "");
-        case "save_retro":
-          return await this.vaultTools.saveRetro(typeof input.period === "string" ? input.period : "", typeof input.content === "string" ? input.content : "");
-        case "get_goals":
-          return await this.vaultTools.getGoals();
-        case "update_goal":
-          return await this.vaultTools.updateGoal(typeof input.title === "string" ? input.title : "", {
-            status: typeof input.status === "string" ? input.status : "",
-            progress: typeof input.progress === "string" ? input.progress : "",
-            target: typeof input.target === "string" ? input.target : "",
-          });
-        default:
-          return `Unknown tool: ${name}`;
-      }
-    } catch (error) {
-      return `Error executing ${name}: ${(error as Error).message}`;
-    }
+  /** Show the pending change in the chat and wait for the user to approve or reject it */
+  private async requestToolApproval(
+    view: ChatView,
+    name: string,
+    input: Record<string, unknown>,
+    abortSignal?: AbortSignal,
+  ): Promise<ToolDecision> {
+    const preview = await previewTool(this.toolContext, name, input);
+    return view.requestToolApproval(name, preview, abortSignal);
   }
 
   async loadSettings() {
@@ -685,6 +556,11 @@ export default class LifeCompanionPlugin extends Plugin {
     if (loaded?.apiKey && !this.settings.claudeApiKey) {
       this.settings.claudeApiKey = loaded.apiKey;
     }
+    // complete_event shipped without a settings entry — enable it wherever the other calendar tools are
+    const enabledTools = this.settings.enabledTools;
+    if (enabledTools.includes("update_event") && !enabledTools.includes("complete_event")) {
+      this.settings.enabledTools = [...enabledTools, "complete_event"];
+    }
   }
 
   async saveSettings() {
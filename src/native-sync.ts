@@ -0,0 +1,376 @@
+import * as http from "http";
+import * as https from "https";
+import { App, EventRef, Notice, RequestUrlParam, RequestUrlResponse, TAbstractFile, TFile, normalizePath, requestUrl } from "obsidian";
+import type { I18n } from "@life-companion/core";
+import type { SyncProvider, SyncStatus } from "./sync-provider";
+
+/** A file as it was when it last matched the server */
+interface SyncedFile {
+  hash: string;
+  mtime: number;
+  size: number;
+}
+
+interface NativeSyncOptions {
+  /** Server address, e.g. http://192.168.1.20:3456 */
+  serverUrl: string;
+  /** API_TOKEN, or a login token from the web chat */
+  token: string;
+  /** Where to keep the last-synced hashes, relative to the vault */
+  statePath: string;
+  t: I18n;
+}
+
+/** Push a file once typing stops */
+const PUSH_DEBOUNCE_MS = 1000;
+const STATE_SAVE_DEBOUNCE_MS = 2000;
+const RECONNECT_MIN_MS = 5000;
+const RECONNECT_MAX_MS = 5 * 60 * 1000;
+
+/** Same rule as the server's normalizeSyncPath: dot folders, dot files and Syncthing temp files stay on each device */
+function isSyncPath(path: string): boolean {
+  return !path.split("/").some((segment) => segment.startsWith(".") || segment.startsWith("~syncthing~"));
+}
+
+async function hashContent(content: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", content);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Sync with the Life Companion server directly — no Syncthing needed.
+ * Local edits are pushed a second after they stop, with the hash the file had
+ * at its last sync; the server refuses an outdated push and keeps both copies
+ * side by side. Changes made elsewhere arrive over a server-sent event stream,
+ * and every (re)connect compares the whole vault, so nothing is missed while
+ * offline.
+ */
+export class NativeSyncProvider implements SyncProvider {
+  readonly name = "Life Companion server";
+  private synced: Record<string, SyncedFile> = {};
+  private status: SyncStatus;
+  private eventRefs: EventRef[] = [];
+  private pushTimers = new Map<string, number>();
+  private stateTimer: number | null = null;
+  private reconnectTimer: number | null = null;
+  private reconnectDelay = RECONNECT_MIN_MS;
+  private stream: http.ClientRequest | null = null;
+  /** Every transfer runs in order, so a pull and a push of the same file can't race */
+  private queue: Promise<void> = Promise.resolve();
+  private stopped = false;
+
+  constructor(private app: App, private options: NativeSyncOptions) {
+    this.status = { state: "offline", detail: options.t.syncNotConnected };
+  }
+
+  private get t(): I18n {
+    return this.options.t;
+  }
+
+  async start(): Promise<void> {
+    try {
+      const saved = await this.app.vault.adapter.read(this.options.statePath);
+      this.synced = JSON.parse(saved) as Record<string, SyncedFile>;
+    } catch (e) {
+      console.debug("No sync state yet, starting with a full comparison", e);
+    }
+
+    const onChange = (file: TAbstractFile) => {
+      if (file instanceof TFile && isSyncPath(file.path)) this.schedulePush(file.path);
+    };
+    const { vault } = this.app;
+    this.eventRefs = [
+      vault.on("create", onChange),
+      vault.on("modify", onChange),
+      vault.on("delete", (file) => {
+        if (file instanceof TFile && isSyncPath(file.path)) void this.enqueue(() => this.pushDelete(file.path));
+      }),
+      vault.on("rename", (file, oldPath) => {
+        if (!(file instanceof TFile)) return;
+        if (isSyncPath(oldPath)) void this.enqueue(() => this.pushDelete(oldPath));
+        onChange(file);
+      }),
+    ];
+    this.connect();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    for (const ref of this.eventRefs) this.app.vault.offref(ref);
+    this.eventRefs = [];
+    for (const timer of this.pushTimers.values()) window.clearTimeout(timer);
+    this.pushTimers.clear();
+    if (this.reconnectTimer !== null) window.clearTimeout(this.reconnectTimer);
+    this.stream?.destroy();
+    this.stream = null;
+    if (this.stateTimer !== null) {
+      window.clearTimeout(this.stateTimer);
+      void this.saveState();
+    }
+  }
+
+  async getStatus(): Promise<SyncStatus> {
+    return this.status;
+  }
+
+  syncNow(): Promise<void> {
+    return this.enqueue(() => this.fullSync());
+  }
+
+  // ─── Server ──────────────────────────────────────────────────────
+
+  private url(path: string, params: Record<string, string> = {}): string {
+    const query = new URLSearchParams(params).toString();
+    return `${this.options.serverUrl.replace(/\/+$/, "")}/api/v1/sync${path}${query ? `?${query}` : ""}`;
+  }
+
+  private get authHeaders(): Record<string, string> {
+    return { Authorization: `Bearer ${this.options.token}` };
+  }
+
+  /** Follow the server's change stream; a successful (re)connect starts with a full comparison */
+  private connect() {
+    if (this.stopped) return;
+    const url = this.url("/events");
+    const transport = url.startsWith("https:") ? https : http;
+    const request = transport.get(url, { headers: this.authHeaders }, (res) => {
+      if (res.statusCode === 401) {
+        res.resume();
+        this.refused();
+        return;
+      }
+      if (res.statusCode !== 200) {
+        res.resume();
+        this.scheduleReconnect(this.t.syncServerAnswered(res.statusCode ?? 0));
+        return;
+      }
+
+      this.reconnectDelay = RECONNECT_MIN_MS;
+      void this.syncNow();
+      res.setEncoding("utf8");
+      let buffer = "";
+      res.on("data", (chunk: string) => {
+        buffer += chunk;
+        let end;
+        while ((end = buffer.indexOf("\n\n")) !== -1) {
+          const block = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          const event = block.match(/^event: (.*)$/m)?.[1];
+          const data = block.match(/^data: (.*)$/m)?.[1];
+          if (event === "change" && data) {
+            const change = JSON.parse(data) as { path: string; hash: string | null };
+            void this.enqueue(() => this.applyRemoteChange(change.path, change.hash));
+          }
+        }
+      });
+      res.on("end", () => this.scheduleReconnect(this.t.syncConnectionClosed));
+      res.on("error", (e) => this.scheduleReconnect(e.message));
+    });
+    request.on("error", (e) => this.scheduleReconnect(e.message));
+    this.stream = request;
+  }
+
+  /** A request to the sync API; a refused token stops syncing */
+  private async request(params: RequestUrlParam): Promise<RequestUrlResponse> {
+    const res = await requestUrl({ ...params, headers: this.authHeaders, throw: false });
+    if (res.status === 401) {
+      this.refused();
+      throw new Error(this.t.syncTokenRefused);
+    }
+    return res;
+  }
+
+  /**
+   * The token expired (web logins last 30 days) or was revoked. Retrying can't
+   * help, so stop and say so instead of failing quietly in the background.
+   */
+  private refused() {
+    if (this.stopped) return;
+    this.stop();
+    this.status = { state: "error", detail: this.t.syncTokenRefused };
+    new Notice(this.t.syncStopped, 0);
+  }
+
+  private scheduleReconnect(reason: string) {
+    if (this.stopped || this.reconnectTimer !== null) return;
+    this.status = { state: "offline", detail: this.t.syncRetrying(reason) };
+    this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, RECONNECT_MAX_MS);
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task).catch((e) => {
+      console.error("Vault sync failed:", e);
+      this.status = { state: "error", detail: (e as Error).message };
+    });
+    this.queue = run;
+    return run;
+  }
+
+  // ─── Files ───────────────────────────────────────────────────────
+
+  private getFile(path: string): TFile | null {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    return file instanceof TFile ? file : null;
+  }
+
+  /** Current hash of a local file, or null when it doesn't exist; unchanged files aren't re-read */
+  private async localHash(path: string): Promise<string | null> {
+    const file = this.getFile(path);
+    if (!file) return null;
+    const known = this.synced[path];
+    if (known && known.mtime === file.stat.mtime && known.size === file.stat.size) return known.hash;
+    return hashContent(await this.app.vault.readBinary(file));
+  }
+
+  private markSynced(path: string, hash: string | null) {
+    const file = this.getFile(path);
+    if (hash && file) this.synced[path] = { hash, mtime: file.stat.mtime, size: file.stat.size };
+    else delete this.synced[path];
+    if (this.stateTimer !== null) window.clearTimeout(this.stateTimer);
+    this.stateTimer = window.setTimeout(() => {
+      this.stateTimer = null;
+      void this.saveState();
+    }, STATE_SAVE_DEBOUNCE_MS);
+  }
+
+  private async saveState() {
+    await this.app.vault.adapter.write(this.options.statePath, JSON.stringify(this.synced));
+  }
+
+  private schedulePush(path: string) {
+    window.clearTimeout(this.pushTimers.get(path));
+    this.pushTimers.set(path, window.setTimeout(() => {
+      this.pushTimers.delete(path);
+      void this.enqueue(() => this.push(path));
+    }, PUSH_DEBOUNCE_MS));
+  }
+
+  /** Send a local file; when the server copy moved on, keep the server's and let the conflict copy come back */
+  private async push(path: string) {
+    const file = this.getFile(path);
+    if (!file) return;
+    const content = await this.app.vault.readBinary(file);
+    const hash = await hashContent(content);
+    const base = this.synced[path]?.hash ?? "";
+    if (hash === base) {
+      this.markSynced(path, hash);
+      return;
+    }
+
+    const res = await this.request({
+      url: this.url("/file", { path, baseHash: base }),
+      method: "PUT",
+      contentType: "application/octet-stream",
+      body: content,
+    });
+    if (res.status === 409) {
+      const { conflictPath } = res.json as { conflictPath: string };
+      new Notice(this.t.syncConflict(path, conflictPath));
+      await this.pull(path);
+      await this.pull(conflictPath);
+      return;
+    }
+    if (res.status !== 200) throw new Error(this.t.syncPushFailed(path, res.status));
+    this.markSynced(path, hash);
+  }
+
+  /** Delete on the server; if it changed there since, bring that version back instead */
+  private async pushDelete(path: string) {
+    const base = this.synced[path]?.hash;
+    if (!base) return;
+    const res = await this.request({ url: this.url("/file", { path, baseHash: base }), method: "DELETE" });
+    if (res.status === 409) {
+      await this.pull(path);
+      return;
+    }
+    if (res.status !== 204) throw new Error(this.t.syncDeleteFailed(path, res.status));
+    this.markSynced(path, null);
+  }
+
+  /** Make the local file match the server's — created, replaced or removed */
+  private async pull(path: string) {
+    const res = await this.request({ url: this.url("/file", { path }) });
+    const existing = this.getFile(path);
+    if (res.status === 404) {
+      if (existing) await this.app.fileManager.trashFile(existing);
+      this.markSynced(path, null);
+      return;
+    }
+    if (res.status !== 200) throw new Error(this.t.syncPullFailed(path, res.status));
+
+    const content = res.arrayBuffer;
+    // Record the hash before writing, so the modify event doesn't push it straight back
+    this.synced[path] = { hash: await hashContent(content), mtime: 0, size: 0 };
+    if (existing) {
+      await this.app.vault.modifyBinary(existing, content);
+    } else {
+      const folder = path.substring(0, path.lastIndexOf("/"));
+      if (folder && !this.app.vault.getAbstractFileByPath(folder)) await this.app.vault.createFolder(folder);
+      await this.app.vault.createBinary(normalizePath(path), content);
+    }
+    this.markSynced(path, this.synced[path].hash);
+  }
+
+  /** A change from the server; local edits not pushed yet win, and their push settles any conflict */
+  private async applyRemoteChange(path: string, hash: string | null) {
+    const local = await this.localHash(path);
+    if (local === hash) {
+      this.markSynced(path, hash);
+      return;
+    }
+    if (local !== (this.synced[path]?.hash ?? null)) return;
+    if (hash === null) {
+      const file = this.getFile(path);
+      if (file) await this.app.fileManager.trashFile(file);
+      this.markSynced(path, null);
+    } else {
+      await this.pull(path);
+    }
+  }
+
+  /**
+   * Compare every file with the server. The last-synced hash tells which side
+   * changed: only the server → pull, only here → push, both → push, which the
+   * server turns into a side-by-side conflict copy.
+   */
+  private async fullSync() {
+    this.status = { state: "syncing", detail: this.t.syncComparing };
+    const res = await this.request({ url: this.url("/manifest") });
+    if (res.status !== 200) throw new Error(this.t.syncManifestFailed(res.status));
+    const remote = (res.json as { files: Record<string, { hash: string }> }).files;
+
+    const local = this.app.vault.getFiles().map((f) => f.path).filter(isSyncPath);
+    const paths = new Set([...local, ...Object.keys(remote), ...Object.keys(this.synced)]);
+    let transferred = 0;
+    for (const path of paths) {
+      const localHash = await this.localHash(path);
+      const remoteHash = remote[path]?.hash ?? null;
+      const base = this.synced[path]?.hash ?? null;
+      if (localHash === remoteHash) {
+        this.markSynced(path, localHash);
+        continue;
+      }
+      transferred++;
+      if (localHash === base) {
+        // Changed on the server only
+        await this.pull(path);
+      } else if (localHash === null) {
+        // Deleted here; a server edit since the last sync brings it back
+        if (remoteHash === base) await this.pushDelete(path);
+        else await this.pull(path);
+      } else {
+        // Changed here — an edit outlives a deletion on the server, so push it as a new file
+        if (remoteHash === null) delete this.synced[path];
+        await this.push(path);
+      }
+    }
+    this.status = {
+      state: "idle",
+      detail: this.t.syncUpToDate(Object.keys(this.synced).length, transferred),
+    };
+  }
+}
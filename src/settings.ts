@@ -1,15 +1,12 @@
 import { App, Notice, PluginSettingTab, Setting, requestUrl } from "obsidian";
 import type LifeCompanionPlugin from "./main";
 import {
-  ALL_TOOLS, MODEL_GROUPS, getEffectiveModelGroups,
-  VAULT_TOOLS, KNOWLEDGE_TOOLS, GRAPH_TOOLS, TASK_TOOLS, DAILY_TOOLS, CALENDAR_TOOLS, WEB_TOOLS, MEMORY_TOOLS,
+  getEffectiveModelGroups, getProviderAdapter, getToolPolicy, listProviders, listTools,
   getI18n,
-  type AIModel, type AIProvider, type I18n, type Language, type LifeCompanionSettings,
+  type AIModel, type AIProvider, type I18n, type Language, type LifeCompanionSettings, type ModelEntry, type ToolPolicy, type ToolSpec,
 } from "@life-companion/core";
 import { readClaudeCodeCredentials } from "./auth";
-import { SyncthingClient } from "./syncthing";
-
-interface FetchedModel { id: string; name?: string; supportedGenerationMethods?: string[] }
+import { SYNCTHING_FOLDER_ID, SyncthingClient } from "./syncthing";
 
 export class LifeCompanionSettingTab extends PluginSettingTab {
   plugin: LifeCompanionPlugin;
@@ -51,7 +48,7 @@ export class LifeCompanionSettingTab extends PluginSettingTab {
     // ─── Default Models ──────────────────────────────────────────
     new Setting(containerEl).setName(t.defaultModels).setHeading();
 
-    const hasAnyProvider = MODEL_GROUPS.some((g) => this.plugin.hasCredentialsFor(g.provider));
+    const hasAnyProvider = listProviders().some((p) => this.plugin.hasCredentialsFor(p.id));
 
     if (!hasAnyProvider) {
       containerEl.createEl("p", {
@@ -75,10 +72,9 @@ export class LifeCompanionSettingTab extends PluginSettingTab {
     // ─── Providers (collapsible per provider) ──────────────────
     new Setting(containerEl).setName(t.apiProviders).setHeading();
 
-    this.renderProviderSection(containerEl, "claude", "Claude (Anthropic)");
-    this.renderProviderSection(containerEl, "openai", "OpenAI");
-    this.renderProviderSection(containerEl, "gemini", "Gemini (Google)");
-    this.renderProviderSection(containerEl, "groq", "Groq");
+    for (const adapter of listProviders()) {
+      this.renderProviderSection(containerEl, adapter.id, adapter.settingsLabel);
+    }
 
     // ─── Available Tools ──────────────────────────────────────────
     new Setting(containerEl).setName(t.availableTools).setHeading();
@@ -87,14 +83,14 @@ export class LifeCompanionSettingTab extends PluginSettingTab {
       cls: "setting-item-description",
     });
 
-    this.renderToolSection(containerEl, "Vault tools", ALL_TOOLS.filter((t) => t.category === "vault"));
-    this.renderToolSection(containerEl, "Knowledge tools", ALL_TOOLS.filter((t) => t.category === "knowledge"));
-    this.renderToolSection(containerEl, "Graph tools", ALL_TOOLS.filter((t) => t.category === "graph"));
-    this.renderToolSection(containerEl, "Task tools", ALL_TOOLS.filter((t) => t.category === "task"));
-    this.renderToolSection(containerEl, "Daily notes tools", ALL_TOOLS.filter((t) => t.category === "daily"));
-    this.renderToolSection(containerEl, "Calendar tools", ALL_TOOLS.filter((t) => t.category === "calendar"));
-    this.renderToolSection(containerEl, "Web tools", ALL_TOOLS.filter((t) => t.category === "web"));
-    this.renderToolSection(containerEl, "Memory & goals tools", ALL_TOOLS.filter((t) => t.category === "memory"));
+    this.renderToolSection(containerEl, "Vault tools", listTools("vault"));
+    this.renderToolSection(containerEl, "Knowledge tools", listTools("knowledge"));
+    this.renderToolSection(containerEl, "Graph tools", listTools("graph"));
+    this.renderToolSection(containerEl, "Task tools", listTools("task"));
+    this.renderToolSection(containerEl, "Daily notes tools", listTools("daily"));
+    this.renderToolSection(containerEl, "Calendar tools", listTools("calendar"));
+    this.renderToolSection(containerEl, "Web tools", listTools("web"));
+    this.renderToolSection(containerEl, "Memory & goals tools", listTools("memory"));
 
     // ─── Calendar Settings ──────────────────────────────────
     new Setting(containerEl).setName("Calendar").setHeading();
@@ -208,11 +204,133 @@ export class LifeCompanionSettingTab extends PluginSettingTab {
   // ─── Vault Sync Section ────────────────────────────────────────
 
   private renderSyncSection(containerEl: HTMLElement) {
-    const syncthing = new SyncthingClient();
+    new Setting(containerEl)
+      .setName("Sync method")
+      .setDesc("Syncthing runs its own app on both machines. Native sync talks to the server directly.")
+      .addDropdown((dropdown) => {
+        dropdown.addOption("syncthing", "Syncthing");
+        dropdown.addOption("native", "Native sync");
+        dropdown.setValue(this.plugin.settings.syncMethod);
+        dropdown.onChange((value) => { void (async () => {
+          // Two methods writing the same files would fight — switching disconnects the old one
+          this.plugin.settings.syncMethod = value as LifeCompanionSettings["syncMethod"];
+          this.plugin.settings.syncEnabled = false;
+          await this.plugin.saveSettings();
+          this.plugin.restartSync();
+          this.display();
+        })(); });
+      });
+
     const statusEl = containerEl.createDiv({ cls: "lc-sync-status" });
+    if (this.plugin.settings.syncMethod === "native") {
+      void this.renderNativeSync(containerEl, statusEl);
+      return;
+    }
 
     // Check Syncthing status async
-    void this.checkSyncStatus(syncthing, containerEl, statusEl);
+    void this.checkSyncStatus(new SyncthingClient(), containerEl, statusEl);
+  }
+
+  private async renderNativeSync(containerEl: HTMLElement, statusEl: HTMLElement) {
+    const settings = this.plugin.settings;
+    const provider = this.plugin.syncProvider;
+
+    if (settings.syncEnabled && provider) {
+      const status = await provider.getStatus();
+      new Setting(statusEl)
+        .setName("Native sync")
+        .setDesc(`${settings.syncServerUrl} · ${status.detail}`)
+        .addButton((btn) =>
+          btn.setButtonText("Disconnect").onClick(() => { void (async () => {
+            settings.syncEnabled = false;
+            settings.syncToken = "";
+            await this.plugin.saveSettings();
+            this.plugin.restartSync();
+            this.display();
+          })(); })
+        )
+        .addButton((btn) =>
+          btn.setButtonText("Sync now").onClick(() => { void (async () => {
+            btn.setDisabled(true);
+            await provider.syncNow();
+            this.display();
+          })(); })
+        )
+        .addButton((btn) =>
+          btn.setButtonText("Refresh").onClick(() => {
+            this.display();
+          })
+        );
+      return;
+    }
+
+    let serverUrl = settings.syncServerUrl;
+    let name = "";
+    let secret = "";
+    new Setting(statusEl)
+      .setName("Server address")
+      .setDesc("Where the server runs, with its port")
+      .addText((text) =>
+        text
+          .setPlaceholder("http://192.168.1.20:3456")
+          .setValue(serverUrl)
+          .onChange((v) => { serverUrl = v.trim().replace(/\/+$/, ""); })
+      );
+    new Setting(statusEl)
+      .setName("Name")
+      .setDesc("Your web chat name, whose login lasts 30 days. Leave empty to use the server's API token, which never expires.")
+      .addText((text) => text.onChange((v) => { name = v.trim(); }));
+    new Setting(statusEl)
+      .setName("Password or API token")
+      .addText((text) => {
+        text.inputEl.type = "password";
+        text.onChange((v) => { secret = v; });
+      })
+      .addButton((btn) =>
+        btn.setButtonText("Connect").setCta().onClick(() => { void (async () => {
+          if (!serverUrl || !secret) { new Notice("Enter the server address and a password or token first"); return; }
+          btn.setButtonText("Connecting...");
+          btn.setDisabled(true);
+          try {
+            // A name logs in for a token; the API token itself never expires, so it's kept as is
+            let token = secret;
+            if (name) {
+              const login = await requestUrl({
+                url: `${serverUrl}/api/v1/login`,
+                method: "POST",
+                contentType: "application/json",
+                body: JSON.stringify({ name, password: secret }),
+                throw: false,
+              });
+              if (login.status !== 200) throw new Error("Wrong name or password");
+              token = (login.json as { token: string }).token;
+            }
+            const me = await requestUrl({
+              url: `${serverUrl}/api/v1/me`,
+              headers: { Authorization: `Bearer ${token}` },
+              throw: false,
+            });
+            if (me.status !== 200) throw new Error(me.status === 401 ? "The server refused the token" : `Server answered ${me.status}`);
+
+            settings.syncServerUrl = serverUrl;
+            settings.syncToken = token;
+            settings.syncEnabled = true;
+            await this.plugin.saveSettings();
+            this.plugin.restartSync();
+            new Notice(`Syncing with ${(me.json as { name: string }).name}'s vault on the server.`);
+            this.display();
+          } catch (e) {
+            new Notice(`Could not connect: ${(e as Error).message}`);
+            btn.setButtonText("Connect");
+            btn.setDisabled(false);
+          }
+        })(); })
+      );
+
+    containerEl.createEl("p", {
+      cls: "setting-item-description",
+      text: "The server must have its web API turned on. Files changed on both sides are kept side by side as conflict copies.",
+    });
   }
 
   private async checkSyncStatus(syncthing: SyncthingClient, containerEl: HTMLElement, statusEl: HTMLElement) {
@@ -260,19 +378,7 @@ export class LifeCompanionSettingTab extends PluginSettingTab {
     // Connected to Syncthing
     if (this.plugin.settings.syncEnabled && this.plugin.settings.syncDeviceId) {
       // Already configured — show status
-      const folderStatus = await syncthing.getFolderStatus("lc-vault");
-      let stateText = "Checking...";
-      if (folderStatus) {
-        const stateMap: Record<string, string> = {
-          idle: "Up to date",
-          scanning: "Scanning files...",
-          syncing: "Syncing...",
-          error: "Error",
-          "sync-preparing": "Preparing sync...",
-        };
-        const label = stateMap[folderStatus.state] || folderStatus.state;
-        stateText = `${label} · ${folderStatus.globalFiles} files`;
-      }
+      const stateText = (await this.plugin.syncProvider?.getStatus())?.detail ?? "Checking...";
 
       new Setting(statusEl)
         .setName("Syncthing")
@@ -282,6 +388,7 @@ export class LifeCompanionSettingTab extends PluginSettingTab {
             this.plugin.settings.syncDeviceId = "";
             this.plugin.settings.syncEnabled = false;
             await this.plugin.saveSettings();
+            this.plugin.restartSync();
             this.display();
           })(); })
         )
@@ -334,7 +441,7 @@ export class LifeCompanionSettingTab extends PluginSettingTab {
             }
 
             // Share folder
-            const shared = await syncthing.shareFolder("lc-vault", vaultPath, id);
+            const shared = await syncthing.shareFolder(SYNCTHING_FOLDER_ID, vaultPath, id);
             if (!shared) {
               new Notice("Failed to configure sync folder. Check Syncthing web UI.");
               btn.setButtonText("Connect");
@@ -346,6 +453,7 @@ export class LifeCompanionSettingTab extends PluginSettingTab {
             this.plugin.settings.syncDeviceId = id;
             this.plugin.settings.syncEnabled = true;
             await this.plugin.saveSettings();
+            this.plugin.restartSync();
             new Notice("Vault sync configured! Syncing will start shortly.");
             this.display();
           })(); })
@@ -412,7 +520,12 @@ export class LifeCompanionSettingTab extends PluginSettingTab {
             const models = await this.fetchModelsForProvider(provider);
             if (models.length > 0) {
               if (!this.plugin.settings.customModels) this.plugin.settings.customModels = {};
-              this.plugin.settings.customModels[provider] = models;
+              // Keep context limits the user pinned on models that are still listed
+              const previous = this.plugin.settings.customModels[provider] || [];
+              this.plugin.settings.customModels[provider] = models.map((m) => {
+                const pinned = previous.find((p) => p.id === m.id)?.contextLimit;
+                return pinned ? { ...m, contextLimit: pinned } : m;
+              });
               await this.plugin.saveSettings();
               new Notice(t.modelsUpdated(models.length));
               this.display();
@@ -449,6 +562,21 @@ export class LifeCompanionSettingTab extends PluginSettingTab {
                 await this.plugin.saveSettings();
               })(); });
           });
+        // Local/custom models vary wildly in context size — let the user pin it per model
+        if (provider === "custom") {
+          s.addText((text) =>
+            text
+              .setPlaceholder(t.contextLimit)
+              .setValue(model.contextLimit ? String(model.contextLimit) : "")
+              .onChange((value) => { void (async () => {
+                const limit = parseInt(value, 10);
+                const entry = this.plugin.settings.customModels[provider]?.find((m) => m.id === model.id);
+                if (!entry) return;
+                entry.contextLimit = limit > 0 ? limit : undefined;
+                await this.plugin.saveSettings();
+              })(); })
+          );
+        }
         s.settingEl.addClass("lc-compact-item");
         const descEl = s.settingEl.querySelector(".setting-item-description");
         if (descEl) descEl.addClass("lc-model-id");
@@ -465,20 +593,17 @@ export class LifeCompanionSettingTab extends PluginSettingTab {
       this.renderClaudeConnection(body);
       return;
     }
+    if (provider === "custom") {
+      this.renderCustomConnection(body);
+      return;
+    }
 
-    const keyField = {
-      openai: "openaiApiKey" as const,
-      gemini: "geminiApiKey" as const,
-      groq: "groqApiKey" as const,
-    }[provider];
-
-    const placeholder = {
-      openai: "sk-...",
-      gemini: "AIza...",
-      groq: "gsk_...",
-    }[provider];
+    const adapter = getProviderAdapter(provider);
+    if (!adapter) return;
+    const keyField = adapter.apiKeyField;
+    const placeholder = adapter.keyPlaceholder;
 
-    const currentKey = this.plugin.settings[keyField];
+    const currentKey = (this.plugin.settings as unknown as Record<string, unknown>)[keyField];
 
     if (currentKey) {
       new Setting(body)
@@ -600,17 +725,78 @@ export class LifeCompanionSettingTab extends PluginSettingTab {
     }
   }
 
-  // ─── Tool Section ──────────────────────────────────────────────
+  private renderCustomConnection(body: HTMLElement) {
+    const t = this.t;
+    const settings = this.plugin.settings;
+
+    if (settings.customBaseUrl) {
+      new Setting(body)
+        .setName(t.connectedVia(settings.customBaseUrl))
+        .addButton((btn) =>
+          btn.setButtonText(t.disconnect).onClick(() => { void (async () => {
+            const ids = (settings.customModels?.custom || []).map((m) => m.id);
+            settings.enabledModels = settings.enabledModels.filter((m) => !ids.includes(m));
+            settings.customBaseUrl = "";
+            settings.customApiKey = "";
+            if (settings.customModels?.custom) delete settings.customModels.custom;
+            await this.plugin.saveSettings();
+            this.display();
+          })(); })
+        );
+      return;
+    }
 
-  private getToolDetailedDescriptions(): Record<string, string> {
-    const all = [...VAULT_TOOLS, ...KNOWLEDGE_TOOLS, ...GRAPH_TOOLS, ...TASK_TOOLS, ...DAILY_TOOLS, ...CALENDAR_TOOLS, ...WEB_TOOLS, ...MEMORY_TOOLS];
-    return Object.fromEntries(all.map((t) => [t.name, t.description]));
+    let urlValue = "";
+    let keyValue = "";
+    new Setting(body)
+      .setName(t.customBaseUrl)
+      .setDesc(t.customBaseUrlDesc)
+      .addText((text) =>
+        text.onChange((v) => { urlValue = v; })
+      );
+    new Setting(body)
+      .setName(t.customApiKey)
+      .setDesc(t.customApiKeyDesc)
+      .addText((text) => {
+        text.inputEl.type = "password";
+        text.onChange((v) => { keyValue = v; });
+      })
+      .addButton((btn) =>
+        btn.setButtonText(t.customConnect).setCta().onClick(() => { void (async () => {
+          if (!urlValue.trim()) { new Notice(t.enterBaseUrlFirst); return; }
+          btn.setButtonText("...");
+          btn.setDisabled(true);
+          const auth = { customBaseUrl: urlValue.trim(), customApiKey: keyValue.trim() };
+          let models: ModelEntry[] = [];
+          try {
+            models = await getProviderAdapter("custom")?.listModels(this.plugin.httpClient, auth) ?? [];
+          } catch (e) {
+            console.debug("Custom endpoint check failed:", e);
+          }
+          if (models.length === 0) {
+            new Notice(t.customEndpointFailed);
+            btn.setButtonText(t.customConnect);
+            btn.setDisabled(false);
+            return;
+          }
+          settings.customBaseUrl = auth.customBaseUrl;
+          settings.customApiKey = auth.customApiKey;
+          if (!settings.customModels) settings.customModels = {};
+          settings.customModels.custom = models;
+          await this.plugin.saveSettings();
+          new Notice(t.modelsUpdated(models.length));
+          this.display();
+        })(); })
+      );
   }
 
-  private renderToolSection(containerEl: HTMLElement, label: string, tools: typeof ALL_TOOLS) {
+  // ─── Tool Section ──────────────────────────────────────────────
+
+  private renderToolSection(containerEl: HTMLElement, label: string, tools: ToolSpec[]) {
+    const t = this.t;
     const collapseKey = `tools-${label}`;
     const isCollapsed = this.collapsed[collapseKey] ?? true;
-    const enabledCount = tools.filter((t) => this.plugin.settings.enabledTools.includes(t.name)).length;
+    const enabledCount = tools.filter((tool) => this.plugin.settings.enabledTools.includes(tool.name)).length;
 
     const card = containerEl.createDiv({ cls: "lc-provider-card" });
 
@@ -632,12 +818,10 @@ export class LifeCompanionSettingTab extends PluginSettingTab {
       arrow.textContent = nowCollapsed ? "\u25B8" : "\u25BE";
     });
 
-    const detailedDescs = this.getToolDetailedDescriptions();
-
     for (const tool of tools) {
       const s = new Setting(body)
         .setName(tool.displayName)
-        .setDesc(tool.description)
+        .setDesc(tool.summary)
         .addToggle((toggle) => {
           toggle
             .setValue(this.plugin.settings.enabledTools.includes(tool.name))
@@ -650,6 +834,17 @@ export class LifeCompanionSettingTab extends PluginSettingTab {
               }
               await this.plugin.saveSettings();
             })(); });
+        })
+        .addDropdown((dropdown) => {
+          dropdown
+            .addOption("auto", t.toolPolicyAuto)
+            .addOption("confirm", t.toolPolicyConfirm)
+            .addOption("deny", t.toolPolicyDeny)
+            .setValue(getToolPolicy(tool.name, this.plugin.settings.toolPolicies))
+            .onChange((value) => { void (async () => {
+              this.plugin.settings.toolPolicies = { ...this.plugin.settings.toolPolicies, [tool.name]: value as ToolPolicy };
+              await this.plugin.saveSettings();
+            })(); });
         });
       s.settingEl.addClass("lc-compact-item");
 
@@ -661,7 +856,7 @@ export class LifeCompanionSettingTab extends PluginSettingTab {
 
         const detailEl = createEl("div", {
           cls: "lc-tool-detail lc-hidden",
-          text: detailedDescs[tool.name] || tool.description,
+          text: tool.description,
         });
         s.settingEl.after(detailEl);
 
@@ -678,50 +873,10 @@ export class LifeCompanionSettingTab extends PluginSettingTab {
   // ─── API Key Verification ─────────────────────────────────────
 
   private async verifyApiKey(provider: AIProvider, key: string): Promise<boolean> {
+    const adapter = getProviderAdapter(provider);
+    if (!adapter) return false;
     try {
-      let response;
-      switch (provider) {
-        case "claude":
-          response = await requestUrl({
-            url: "https://api.anthropic.com/v1/messages",
-            method: "POST",
-            headers: {
-              "x-api-key": key,
-              "anthropic-version": "2023-06-01",
-              "content-type": "application/json",
-            },
-            body: JSON.stringify({
-              model: "claude-haiku-4-5",
-              max_tokens: 1,
-              messages: [{ role: "user", content: "hi" }],
-            }),
-            throw: false,
-          });
-          return response.status !== 401 && response.status !== 403;
-
-        case "openai":
-          response = await requestUrl({
-            url: "https://api.openai.com/v1/models",
-            headers: { Authorization: `Bearer ${key}` },
-            throw: false,
-          });
-          return response.status === 200;
-
-        case "gemini":
-          response = await requestUrl({
-            url: `https://generativelanguage.googleapis.com/v1beta/models?key=${key}`,
-            throw: false,
-          });
-          return response.status === 200;
-
-        case "groq":
-          response = await requestUrl({
-            url: "https://api.groq.com/openai/v1/models",
-            headers: { Authorization: `Bearer ${key}` },
-            throw: false,
-          });
-          return response.status === 200;
-      }
+      return await adapter.verifyApiKey(this.plugin.httpClient, key);
     } catch (e) {
       console.debug("API key verification failed:", e);
       return false;
@@ -731,59 +886,10 @@ export class LifeCompanionSettingTab extends PluginSettingTab {
   // ─── Fetch Models from Provider API ────────────────────────────
 
   private async fetchModelsForProvider(provider: AIProvider): Promise<{ id: string; name: string }[]> {
+    const adapter = getProviderAdapter(provider);
+    if (!adapter) return [];
     try {
-      switch (provider) {
-        case "claude": {
-          const headers: Record<string, string> = { "anthropic-version": "2023-06-01" };
-          if (this.plugin.settings.claudeApiKey) {
-            headers["x-api-key"] = this.plugin.settings.claudeApiKey;
-          } else if (this.plugin.settings.accessToken) {
-            headers["Authorization"] = `Bearer ${this.plugin.settings.accessToken}`;
-          }
-          const res = await requestUrl({ url: "https://api.anthropic.com/v1/models?limit=100", headers, throw: false });
-          if (res.status !== 200) return [];
-          return (res.json.data || [])
-            .filter((m: FetchedModel) => !m.id.match(/-\d{8}$/))
-            .map((m: FetchedModel) => ({ id: m.id, name: (m as FetchedModel & { display_name?: string }).display_name || m.id }))
-            .sort((a: FetchedModel, b: FetchedModel) => (a.name ?? a.id).localeCompare(b.name ?? b.id));
-        }
-        case "openai": {
-          const res = await requestUrl({
-            url: "https://api.openai.com/v1/models",
-            headers: { Authorization: `Bearer ${this.plugin.settings.openaiApiKey}` },
-            throw: false,
-          });
-          if (res.status !== 200) return [];
-          return (res.json.data || [])
-            .filter((m: FetchedModel) => /^(gpt-|o[134]|chatgpt-)/.test(m.id))
-            .filter((m: FetchedModel) => !/(realtime|audio|search|transcrib)/.test(m.id))
-            .map((m: FetchedModel) => ({ id: m.id, name: m.id }))
-            .sort((a: FetchedModel, b: FetchedModel) => a.id.localeCompare(b.id));
-        }
-        case "gemini": {
-          const res = await requestUrl({
-            url: `https://generativelanguage.googleapis.com/v1beta/models?key=${this.plugin.settings.geminiApiKey}`,
-            throw: false,
-          });
-          if (res.status !== 200) return [];
-          return (res.json.models || [])
-            .filter((m: FetchedModel) => m.supportedGenerationMethods?.includes("generateContent"))
-            .filter((m: FetchedModel) => m.name?.includes("gemini"))
-            .map((m: FetchedModel & { displayName?: string }) => ({ id: (m.name ?? m.id).replace("models/", ""), name: m.displayName || m.name || m.id }))
-            .sort((a: FetchedModel, b: FetchedModel) => (a.name ?? a.id).localeCompare(b.name ?? b.id));
-        }
-        case "groq": {
-          const res = await requestUrl({
-            url: "https://api.groq.com/openai/v1/models",
-            headers: { Authorization: `Bearer ${this.plugin.settings.groqApiKey}` },
-            throw: false,
-          });
-          if (res.status !== 200) return [];
-          return (res.json.data || [])
-            .map((m: FetchedModel) => ({ id: m.id, name: m.id }))
-            .sort((a: FetchedModel, b: FetchedModel) => a.id.localeCompare(b.id));
-        }
-      }
+      return await adapter.listModels(this.plugin.httpClient, this.plugin.getAuthConfig());
     } catch (e) {
       console.debug("Model fetch failed:", e);
       return [];
@@ -0,0 +1,39 @@
+import type { App } from "obsidian";
+import { getI18n, type LifeCompanionSettings } from "@life-companion/core";
+import { NativeSyncProvider } from "./native-sync";
+import { SyncthingSyncProvider } from "./syncthing";
+
+export interface SyncStatus {
+  state: "idle" | "syncing" | "offline" | "error";
+  /** One line for the settings tab */
+  detail: string;
+}
+
+/**
+ * A way of keeping the vault in step with the server. Syncthing does the work
+ * in its own daemon; native sync talks to the server's /api/v1/sync routes
+ * from inside Obsidian. Either can be swapped in without the rest of the
+ * plugin knowing which one runs.
+ */
+export interface SyncProvider {
+  readonly name: string;
+  start(): Promise<void>;
+  stop(): void;
+  getStatus(): Promise<SyncStatus>;
+  /** Compare everything now instead of waiting for the next change */
+  syncNow(): Promise<void>;
+}
+
+/** The provider the settings ask for; null while sync is off */
+export function createSyncProvider(app: App, settings: LifeCompanionSettings, statePath: string): SyncProvider | null {
+  if (!settings.syncEnabled) return null;
+  if (settings.syncMethod === "native") {
+    return new NativeSyncProvider(app, {
+      serverUrl: settings.syncServerUrl,
+      token: settings.syncToken,
+      statePath,
+      t: getI18n(settings.language),
+    });
+  }
+  return new SyncthingSyncProvider();
+}
@@ -2,6 +2,10 @@ import * as fs from "fs";
 import * as os from "os";
 import * as path from "path";
 import { requestUrl, Platform } from "obsidian";
+import type { SyncProvider, SyncStatus } from "./sync-provider";
+
+/** Folder id the plugin and the server setup script share the vault under */
+export const SYNCTHING_FOLDER_ID = "lc-vault";
 
 export class SyncthingClient {
   private apiKey: string = "";
@@ -222,6 +226,16 @@ export class SyncthingClient {
     }
   }
 
+  /** Ask Syncthing to rescan a folder now instead of on its next interval. */
+  async rescan(folderId: string): Promise<void> {
+    await requestUrl({
+      url: `${this.baseUrl}/rest/db/scan?folder=${encodeURIComponent(folderId)}`,
+      method: "POST",
+      headers: this.headers(),
+      throw: false,
+    });
+  }
+
   /** Platform-appropriate install command. */
   static getInstallCommand(): string {
     if (Platform.isMacOS) return "brew install syncthing && brew services start syncthing";
@@ -229,4 +243,34 @@ export class SyncthingClient {
     if (Platform.isWin) return "choco install syncthing";
     return "https://syncthing.net/downloads/";
   }
-}
\ No newline at end of file
+}
+
+/** Sync through the local Syncthing daemon — it runs on its own, so start and stop have nothing to do. */
+export class SyncthingSyncProvider implements SyncProvider {
+  readonly name = "Syncthing";
+  private client = new SyncthingClient();
+
+  async start(): Promise<void> {}
+
+  stop(): void {}
+
+  async getStatus(): Promise<SyncStatus> {
+    if (!(await this.client.isRunning())) return { state: "offline", detail: "Syncthing is not running" };
+    if (!this.client.loadApiKey()) return { state: "error", detail: "Could not read the Syncthing API key" };
+    const status = await this.client.getFolderStatus(SYNCTHING_FOLDER_ID);
+    if (!status) return { state: "error", detail: "Could not read the folder status" };
+    const labels: Record<string, string> = {
+      idle: "Up to date",
+      scanning: "Scanning files...",
+      syncing: "Syncing...",
+      error: "Error",
+      "sync-preparing": "Preparing sync...",
+    };
+    const state = status.state === "idle" ? "idle" : status.state === "error" ? "error" : "syncing";
+    return { state, detail: `${labels[status.state] || status.state} · ${status.globalFiles} files` };
+  }
+
+  async syncNow(): Promise<void> {
+    if (this.client.loadApiKey()) await this.client.rescan(SYNCTHING_FOLDER_ID);
+  }
+}